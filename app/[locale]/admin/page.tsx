@@ -2,9 +2,14 @@ import { getServerSession } from "next-auth";
 import { getTranslations } from "next-intl/server";
 import { redirect } from "next/navigation";
 import { MainLayout } from "@/components/layout/MainLayout";
+import { LlmSettingsCard } from "@/components/features/LlmSettingsCard";
 import { authOptions } from "@/lib/auth";
 import { isAdminSession } from "@/lib/admin";
 import { prisma } from "@/lib/prisma";
+import { getParseStats } from "@/lib/llm-json";
+
+/** Days covered by the AI answer parsing table */
+const PARSE_STATS_DAYS = 7;
 
 type Props = {
   params: Promise<{ locale: string }>;
@@ -23,8 +28,15 @@ export default async function AdminPage({ params }: Props) {
   }
 
   const t = await getTranslations("admin");
-  const [totalUsers, totalPosts, totalSchedules, totalProspects, users, postsByUserStatus] =
-    await Promise.all([
+  const [
+    totalUsers,
+    totalPosts,
+    totalSchedules,
+    totalProspects,
+    users,
+    postsByUserStatus,
+    parseStats,
+  ] = await Promise.all([
       prisma.user.count(),
       prisma.post.count(),
       prisma.schedule.count(),
@@ -57,6 +69,7 @@ export default async function AdminPage({ params }: Props) {
           _all: true,
         },
       }),
+      getParseStats(PARSE_STATS_DAYS),
     ]);
 
   const postStatusByUser = new Map<string, { draft: number; published: number }>();
@@ -124,6 +137,64 @@ export default async function AdminPage({ params }: Props) {
           />
         </div>
 
+        <LlmSettingsCard />
+
+        <div className="rounded-xl border border-gray-200 bg-white p-4 shadow-sm">
+          <h2 className="text-base font-semibold">{t("parseStats.title")}</h2>
+          <p className="mb-4 text-sm text-gray-500">
+            {t("parseStats.subtitle", { days: PARSE_STATS_DAYS })}
+          </p>
+
+          {parseStats.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">{t("parseStats.empty")}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50">
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">
+                      {t("parseStats.columns.prompt")}
+                    </th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">
+                      {t("parseStats.columns.calls")}
+                    </th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">
+                      {t("parseStats.columns.invalid")}
+                    </th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">
+                      {t("parseStats.columns.repaired")}
+                    </th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">
+                      {t("parseStats.columns.failed")}
+                    </th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">
+                      {t("parseStats.columns.lastError")}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parseStats.map((stat) => (
+                    <tr key={stat.prompt} className="border-b border-gray-100 align-top">
+                      <td className="px-3 py-2 font-mono text-xs text-gray-900">{stat.prompt}</td>
+                      <td className="px-3 py-2 text-right text-gray-700">{stat.calls}</td>
+                      <td className="px-3 py-2 text-right font-medium text-[#f59e0b]">
+                        {stat.invalid} ({Math.round((stat.invalid / stat.calls) * 100)}%)
+                      </td>
+                      <td className="px-3 py-2 text-right font-medium text-[#16a34a]">
+                        {stat.repaired}
+                      </td>
+                      <td className="px-3 py-2 text-right font-medium text-[#dc2626]">
+                        {stat.failed}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-500">{stat.lastError || "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
         <div className="rounded-xl border border-gray-200 bg-white p-4 shadow-sm">
           <h2 className="text-base font-semibold">{t("usersListTitle")}</h2>
           <p className="mb-4 text-sm text-gray-500">{t("usersListSubtitle")}</p>
@@ -25,8 +25,10 @@ import {
   LoadingOutlined,
   SearchOutlined,
   RocketOutlined,
+  RiseOutlined,
 } from "@ant-design/icons";
 import { MainLayout } from "@/components/layout/MainLayout";
+import { LinkedInTokenBanner } from "@/components/features/LinkedInTokenBanner";
 import { useProfile } from "@/hooks/useProfile";
 import { Link } from "@/i18n/routing";
 
@@ -68,6 +70,7 @@ interface DashboardData {
     draft: number;
     ready: number;
     published: number;
+    failed: number;
   };
   prospects: {
     total: number;
@@ -77,6 +80,17 @@ interface DashboardData {
     remaining: number;
     limit: number;
   };
+  performance: {
+    byStyle: PerformanceRow[];
+    byTheme: PerformanceRow[];
+  };
+}
+
+interface PerformanceRow {
+  key: string;
+  posts: number;
+  avgImpressions: number;
+  engagementRate: number;
 }
 
 interface PostIdea {
@@ -108,6 +122,7 @@ const ACTION_COLORS: Record<string, string> = {
 export default function Home() {
   const t = useTranslations("home");
   const tCrm = useTranslations("crm");
+  const tPosts = useTranslations("posts");
   const { data: session } = useSession();
   const { isProfileComplete } = useProfile();
   const router = useRouter();
@@ -259,6 +274,8 @@ export default function Home() {
           />
         )}
 
+        <LinkedInTokenBanner />
+
         {/* ━━━ Quick Actions ━━━ */}
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
           {[
@@ -640,6 +657,9 @@ export default function Home() {
                       { label: t("stats.drafts"), value: data.posts.draft, color: "#6b7280" },
                       { label: t("stats.ready"), value: data.posts.ready, color: "#0a66c2" },
                       { label: t("stats.published"), value: data.posts.published, color: "#16a34a" },
+                      ...(data.posts.failed > 0
+                        ? [{ label: t("stats.failed"), value: data.posts.failed, color: "#dc2626" }]
+                        : []),
                     ].map((s) => (
                       <div key={s.label} className="flex items-center justify-between">
                         <Text type="secondary" style={{ fontSize: 12 }}>{s.label}</Text>
@@ -662,6 +682,55 @@ export default function Home() {
                   </div>
                 </div>
 
+                {/* Best performing styles / themes */}
+                {(data.performance.byStyle.length > 0 || data.performance.byTheme.length > 0) && (
+                  <div
+                    className="rounded-xl p-4"
+                    style={{ background: "#fff", border: "1px solid #e5e7eb" }}
+                  >
+                    <div className="flex items-center gap-2 mb-2">
+                      <RiseOutlined style={{ color: "#16a34a", fontSize: 14 }} />
+                      <Text strong style={{ fontSize: 13 }}>{t("performance.title")}</Text>
+                    </div>
+                    {[
+                      {
+                        title: t("performance.byStyle"),
+                        rows: data.performance.byStyle,
+                        label: (key: string) =>
+                          tPosts.has(`generate.styles.${key}`)
+                            ? tPosts(`generate.styles.${key}`)
+                            : key,
+                      },
+                      {
+                        title: t("performance.byTheme"),
+                        rows: data.performance.byTheme,
+                        label: (key: string) => key,
+                      },
+                    ]
+                      .filter((section) => section.rows.length > 0)
+                      .map((section) => (
+                        <div key={section.title} className="mt-2">
+                          <Text type="secondary" style={{ fontSize: 11, textTransform: "uppercase" }}>
+                            {section.title}
+                          </Text>
+                          {section.rows.slice(0, 3).map((row) => (
+                            <div key={row.key} className="flex items-center justify-between mt-1">
+                              <Text ellipsis style={{ fontSize: 12, maxWidth: 140 }}>
+                                {section.label(row.key)}
+                              </Text>
+                              <Text type="secondary" style={{ fontSize: 11 }}>
+                                {t("performance.rate", {
+                                  rate: row.engagementRate,
+                                  impressions: row.avgImpressions,
+                                })}
+                              </Text>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                  </div>
+                )}
+
                 {/* Hunter credits detail */}
                 <div
                   className="rounded-xl p-4"
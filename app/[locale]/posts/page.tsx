@@ -19,6 +19,8 @@ import {
   Avatar,
   Upload,
   Image,
+  AutoComplete,
+  Alert,
 } from "antd";
 import {
   PlusOutlined,
@@ -33,6 +35,12 @@ import {
   GlobalOutlined,
   UploadOutlined,
   RobotOutlined,
+  HistoryOutlined,
+  SyncOutlined,
+  FilePdfOutlined,
+  CommentOutlined,
+  BankOutlined,
+  InboxOutlined,
 } from "@ant-design/icons";
 import { useTranslations } from "next-intl";
 import { useSession } from "next-auth/react";
@@ -40,12 +48,40 @@ import type { ColumnsType } from "antd/es/table";
 import type { TableRowSelection } from "antd/es/table/interface";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { usePosts } from "@/hooks/usePosts";
+import { usePublishingTargets } from "@/hooks/usePublishingTargets";
 import { useProfile } from "@/hooks/useProfile";
 import { GeneratePostsModal } from "@/components/features/GeneratePostsModal";
-import { Post, PostStatus, PostFormData, postStatusConfig } from "@/types/post";
+import { PublishHistoryPanel } from "@/components/features/PublishHistoryPanel";
+import { PostRevisionsModal } from "@/components/features/PostRevisionsModal";
+import { PostEngagementChart } from "@/components/features/PostEngagementChart";
+import { DocumentPreviewModal } from "@/components/features/DocumentPreviewModal";
+import { SimilarPostsAlert } from "@/components/features/SimilarPostsAlert";
+import { PostLintPanel } from "@/components/features/PostLintPanel";
+import { HashtagInput } from "@/components/features/HashtagInput";
+import {
+  Post,
+  PostStatus,
+  PostFormData,
+  PostRevision,
+  SimilarPost,
+  postStatusConfig,
+  FIRST_COMMENT_MAX_LENGTH,
+} from "@/types/post";
 import { Link } from "@/i18n/routing";
 import { toPostImageProxyPath } from "@/lib/post-image-url";
 import { apiClient } from "@/lib/api-client";
+import { buildSlidesFromTipsList } from "@/lib/post-slides";
+import { hasLintErrors, lintPost } from "@/lib/post-linter";
+import {
+  DEFAULT_POLL_DURATION,
+  POLL_DURATIONS,
+  POLL_MAX_OPTIONS,
+  POLL_MIN_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+  POLL_QUESTION_MAX_LENGTH,
+} from "@/lib/post-poll";
+
+const EMPTY_POLL = { question: "", options: ["", ""], duration: DEFAULT_POLL_DURATION };
 
 const { Title, Text, Paragraph } = Typography;
 const { TextArea } = Input;
@@ -56,9 +92,20 @@ export default function PostsPage() {
   const tStatus = useTranslations("postStatus");
   const { data: session } = useSession();
   
-  const { posts, isLoading, isPublishing, addPost, updatePost, deletePost, publishPost, filterByStatus, refetch } =
-    usePosts();
+  const {
+    posts,
+    isLoading,
+    isPublishing,
+    addPost,
+    updatePost,
+    deletePost,
+    publishPost,
+    syncPostToLinkedIn,
+    filterByStatus,
+    refetch,
+  } = usePosts();
   const { isProfileComplete, profile } = useProfile();
+  const { targets } = usePublishingTargets();
   const [messageApi, contextHolder] = message.useMessage();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
@@ -67,6 +114,10 @@ export default function PostsPage() {
   const [viewingPost, setViewingPost] = useState<Post | null>(null);
   const [statusFilter, setStatusFilter] = useState<PostStatus | "all">("all");
   const [form] = Form.useForm();
+  const editorTitle = Form.useWatch("title", form);
+  const editorContent = Form.useWatch("content", form);
+  const editorStatus = Form.useWatch("status", form);
+  const editorHashtags: string[] | undefined = Form.useWatch("hashtags", form);
   const [isMobile, setIsMobile] = useState(false);
   const [publishingId, setPublishingId] = useState<string | null>(null);
   const [selectedRowKeys, setSelectedRowKeys] = useState<string[]>([]);
@@ -74,6 +125,16 @@ export default function PostsPage() {
   const [isImageUploading, setIsImageUploading] = useState(false);
   const [aiInstruction, setAiInstruction] = useState("");
   const [isAiEditing, setIsAiEditing] = useState(false);
+  // The editor content comes from an AI rewrite: recorded as such in the version history
+  const [isAiApplied, setIsAiApplied] = useState(false);
+  const [isRevisionsOpen, setIsRevisionsOpen] = useState(false);
+  // Existing posts close to the editor text; saving the same text again keeps it anyway
+  const [similarPosts, setSimilarPosts] = useState<SimilarPost[]>([]);
+  const [acknowledgedContent, setAcknowledgedContent] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyPostId, setHistoryPostId] = useState<string | null>(null);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [isDocumentPreviewOpen, setIsDocumentPreviewOpen] = useState(false);
 
   const resolvePostImages = (post: Post): string[] => {
     if (Array.isArray(post.imageUrls) && post.imageUrls.length > 0) {
@@ -92,12 +153,20 @@ export default function PostsPage() {
   }, []);
 
   const filteredPosts = filterByStatus(statusFilter);
+  // Drafts generated by the queue auto-refill, waiting for approval
+  const reviewPosts = filterByStatus("needs_review");
+  const queueOptions = Array.from(
+    new Set(posts.map((post) => post.queue).filter((queue): queue is string => Boolean(queue)))
+  ).map((queue) => ({ value: queue }));
 
   const handleCreate = () => {
     setEditingPost(null);
     form.resetFields();
-    form.setFieldsValue({ status: "draft" });
+    form.setFieldsValue({ status: "draft", format: "text", poll: EMPTY_POLL, hashtags: [] });
     setAiInstruction("");
+    setIsAiApplied(false);
+    setSimilarPosts([]);
+    setAcknowledgedContent(null);
     setIsModalOpen(true);
   };
 
@@ -107,11 +176,20 @@ export default function PostsPage() {
     form.setFieldsValue({
       title: post.title,
       content: post.content,
+      hashtags: post.hashtags || [],
       status: post.status,
+      format: post.format || "text",
+      poll: post.poll || EMPTY_POLL,
+      firstComment: post.firstComment || "",
+      targetId: post.targetId || undefined,
+      queue: post.queue || undefined,
       imageUrl: post.imageUrl || undefined,
       imageUrls: images,
     });
     setAiInstruction("");
+    setIsAiApplied(false);
+    setSimilarPosts([]);
+    setAcknowledgedContent(null);
     setIsModalOpen(true);
   };
 
@@ -120,7 +198,43 @@ export default function PostsPage() {
     setIsViewModalOpen(true);
   };
 
+  /**
+   * Existing posts close to the text about to be saved. A failed check does
+   * not block saving.
+   */
+  const checkSimilarPosts = async (content: string): Promise<SimilarPost[]> => {
+    try {
+      const data = await apiClient.post<{ similarPosts: SimilarPost[] }>("/api/posts/similarity", {
+        content,
+        excludePostId: editingPost?.id,
+      });
+      return data.similarPosts;
+    } catch (error) {
+      console.error("Error checking post similarity:", error);
+      return [];
+    }
+  };
+
   const handleSubmit = async (values: PostFormData) => {
+    if (
+      values.status === "ready" &&
+      hasLintErrors(lintPost(values.content, { hashtags: values.hashtags }))
+    ) {
+      messageApi.error(t("lint.blocksReady"));
+      return;
+    }
+
+    const contentChanged = !editingPost || values.content !== editingPost.content;
+    if (contentChanged && values.content !== acknowledgedContent) {
+      const matches = await checkSimilarPosts(values.content);
+      setSimilarPosts(matches);
+      if (matches.length > 0) {
+        setAcknowledgedContent(values.content);
+        messageApi.warning(t("similarity.warning"));
+        return;
+      }
+    }
+
     const normalizedImageUrls = Array.from(
       new Set(
         [
@@ -134,10 +248,17 @@ export default function PostsPage() {
       ...values,
       imageUrl: normalizedImageUrls[0] || null,
       imageUrls: normalizedImageUrls,
+      poll: values.format === "poll" ? values.poll : undefined,
+      // The target field is only shown once targets are loaded
+      ...(targets.length > 0 && { targetId: values.targetId || null }),
+      queue: values.queue?.trim() || null,
     };
 
     if (editingPost) {
-      const updated = await updatePost(editingPost.id, payload);
+      const updated = await updatePost(editingPost.id, {
+        ...payload,
+        revisionSource: isAiApplied ? "assist_edit" : "manual",
+      });
       if (!updated) {
         messageApi.error(t("messages.updateFailed"));
         return;
@@ -185,6 +306,7 @@ export default function PostsPage() {
         }
       );
       form.setFieldValue("content", data.content);
+      setIsAiApplied(true);
       messageApi.success(t("modal.aiAssistSuccess"));
     } catch (error) {
       messageApi.error(
@@ -195,6 +317,23 @@ export default function PostsPage() {
     }
   };
 
+  const handleRestoreRevision = async (revision: PostRevision) => {
+    if (!editingPost) return false;
+    const restored = await updatePost(editingPost.id, {
+      title: revision.title,
+      content: revision.content,
+      revisionSource: "restore",
+    });
+    if (!restored) {
+      messageApi.error(t("revisions.restoreFailed"));
+      return false;
+    }
+    form.setFieldsValue({ title: revision.title, content: revision.content });
+    setIsAiApplied(false);
+    messageApi.success(t("revisions.restored"));
+    return true;
+  };
+
   const isValidImagePath = (value: string) =>
     /^https?:\/\/\S+$/i.test(value) || value.startsWith("/uploads/");
 
@@ -246,6 +385,11 @@ export default function PostsPage() {
     return false;
   };
 
+  const handleOpenHistory = (postId: string | null = null) => {
+    setHistoryPostId(postId);
+    setIsHistoryOpen(true);
+  };
+
   const handleDelete = (id: string) => {
     deletePost(id);
     messageApi.success(t("messages.deleted"));
@@ -266,6 +410,45 @@ export default function PostsPage() {
     }
   };
 
+  const handleSyncToLinkedIn = async (id: string) => {
+    setSyncingId(id);
+    const result = await syncPostToLinkedIn(id);
+    setSyncingId(null);
+
+    if (result.success) {
+      messageApi.success(t("sync.success"));
+      if (result.warnings && result.warnings.length > 0) {
+        messageApi.warning(result.warnings.join(" "));
+      }
+      setViewingPost((current) =>
+        current?.id === id ? { ...current, isOutOfSync: false } : current
+      );
+    } else {
+      messageApi.error(result.error || t("sync.failed"));
+    }
+  };
+
+  const renderSyncButton = (post: Post, block = false) => (
+    <Popconfirm
+      title={t("sync.confirmTitle")}
+      description={t("sync.confirmDescription")}
+      onConfirm={() => handleSyncToLinkedIn(post.id)}
+      okText={t("sync.action")}
+      cancelText={tCommon("cancel")}
+    >
+      <Tooltip title={block ? "" : t("sync.action")}>
+        <Button
+          size={block ? "middle" : "small"}
+          icon={<SyncOutlined spin={syncingId === post.id} />}
+          loading={syncingId === post.id}
+          block={block && isMobile}
+        >
+          {block ? t("sync.action") : null}
+        </Button>
+      </Tooltip>
+    </Popconfirm>
+  );
+
   const handleBulkDelete = async () => {
     if (selectedRowKeys.length === 0) return;
     setIsBulkProcessing(true);
@@ -285,6 +468,23 @@ export default function PostsPage() {
     }
   };
 
+  const handleApproveReviewPosts = async () => {
+    setIsBulkProcessing(true);
+    try {
+      const results = await Promise.all(
+        reviewPosts.map((post) => updatePost(post.id, { status: "ready" }))
+      );
+      const successCount = results.filter(Boolean).length;
+      if (successCount > 0) {
+        messageApi.success(t("review.approved", { count: successCount }));
+      } else {
+        messageApi.error(t("bulk.statusFailed"));
+      }
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
   const handleBulkStatus = async (status: PostStatus) => {
     if (selectedRowKeys.length === 0) return;
     setIsBulkProcessing(true);
@@ -415,10 +615,34 @@ export default function PostsPage() {
       dataIndex: "status",
       key: "status",
       width: isMobile ? 100 : 130,
-      render: (status: PostStatus) => (
-        <Tag color={postStatusConfig[status].color}>
-          {tStatus(status)}
-        </Tag>
+      render: (status: PostStatus, record: Post) => (
+        <Space size={4} wrap>
+          <Tag color={postStatusConfig[status].color}>
+            {tStatus(status)}
+          </Tag>
+          {record.isOutOfSync && (
+            <Tooltip title={t("sync.driftHelp")}>
+              <Tag color="orange">{t("sync.drift")}</Tag>
+            </Tooltip>
+          )}
+          {record.format === "document" && (
+            <Tag color="purple" icon={<FilePdfOutlined />}>
+              {t("document.tag")}
+            </Tag>
+          )}
+          {record.format === "poll" && <Tag color="cyan">{t("poll.tag")}</Tag>}
+          {record.targetId && (
+            <Tag icon={<BankOutlined />}>
+              {targets.find((target) => target.id === record.targetId)?.name ||
+                t("target.unknown")}
+            </Tag>
+          )}
+          {record.queue && (
+            <Tag icon={<InboxOutlined />} color="geekblue">
+              {record.queue}
+            </Tag>
+          )}
+        </Space>
       ),
     },
     ...(!isMobile
@@ -439,7 +663,7 @@ export default function PostsPage() {
     {
       title: t("table.actions"),
       key: "actions",
-      width: isMobile ? 100 : 140,
+      width: isMobile ? 100 : 170,
       fixed: isMobile ? ("right" as const) : undefined,
       render: (_, record) => (
         <Space size="small">
@@ -448,7 +672,18 @@ export default function PostsPage() {
             icon={<EditOutlined />}
             onClick={() => handleEdit(record)}
           />
-          {record.status === "ready" && (
+          {record.isOutOfSync && renderSyncButton(record)}
+          {record.status === "failed" && (
+            <Tooltip title={t("history.open")}>
+              <Button
+                size="small"
+                danger
+                icon={<HistoryOutlined />}
+                onClick={() => handleOpenHistory(record.id)}
+              />
+            </Tooltip>
+          )}
+          {(record.status === "ready" || record.status === "failed") && (
             <Popconfirm
               title={t("publishConfirm.title")}
               description={t("publishConfirm.description")}
@@ -504,6 +739,33 @@ export default function PostsPage() {
           </Button>
         </div>
 
+        {reviewPosts.length > 0 && (
+          <Alert
+            type="info"
+            showIcon
+            icon={<RobotOutlined />}
+            message={t("review.title", { count: reviewPosts.length })}
+            description={t("review.description")}
+            action={
+              <Space direction={isMobile ? "vertical" : "horizontal"}>
+                <Button size="small" onClick={() => setStatusFilter("needs_review")}>
+                  {t("review.show")}
+                </Button>
+                <Popconfirm
+                  title={t("review.approveConfirm", { count: reviewPosts.length })}
+                  onConfirm={handleApproveReviewPosts}
+                  okText={tCommon("yes")}
+                  cancelText={tCommon("no")}
+                >
+                  <Button size="small" type="primary" loading={isBulkProcessing}>
+                    {t("review.approveAll")}
+                  </Button>
+                </Popconfirm>
+              </Space>
+            }
+          />
+        )}
+
         {/* Filter */}
         <Card size="small">
           <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
@@ -515,8 +777,10 @@ export default function PostsPage() {
               options={[
                 { value: "all", label: t("filter.all") },
                 { value: "draft", label: t("filter.draft") },
+                { value: "needs_review", label: t("filter.needs_review") },
                 { value: "ready", label: t("filter.ready") },
                 { value: "published", label: t("filter.published") },
+                { value: "failed", label: t("filter.failed") },
               ]}
             />
             <Tooltip 
@@ -537,6 +801,13 @@ export default function PostsPage() {
                 {t("generatePost")}
               </Button>
             </Tooltip>
+            <Button
+              icon={<HistoryOutlined />}
+              block={isMobile}
+              onClick={() => handleOpenHistory()}
+            >
+              {t("history.title")}
+            </Button>
             {!isProfileComplete && (
               <Link href="/settings">
                 <Button type="link" size="small" className="text-orange-500">
@@ -677,6 +948,55 @@ export default function PostsPage() {
             />
           </Form.Item>
 
+          <Form.Item name="hashtags" label={t("hashtags.label")} extra={t("hashtags.help")}>
+            <HashtagInput content={editorContent || ""} />
+          </Form.Item>
+
+          {/* Checked as published: hashtags included */}
+          <PostLintPanel
+            content={editorContent || ""}
+            hashtags={editorHashtags}
+            status={editorStatus}
+            className="mb-4"
+          />
+
+          <SimilarPostsAlert similarPosts={similarPosts} className="!mb-4" />
+
+          <Form.Item
+            name="firstComment"
+            label={t("firstComment.label")}
+            extra={t("firstComment.help")}
+          >
+            <TextArea
+              rows={2}
+              placeholder={t("firstComment.placeholder")}
+              showCount
+              maxLength={FIRST_COMMENT_MAX_LENGTH}
+              style={{ resize: "none" }}
+            />
+          </Form.Item>
+
+          <Form.Item name="queue" label={t("queue.label")} extra={t("queue.help")}>
+            <AutoComplete
+              allowClear
+              options={queueOptions}
+              placeholder={t("queue.placeholder")}
+              filterOption={(input, option) =>
+                (option?.value ?? "").toLowerCase().includes(input.toLowerCase())
+              }
+            />
+          </Form.Item>
+
+          {targets.length > 0 && (
+            <Form.Item name="targetId" label={t("target.label")} extra={t("target.help")}>
+              <Select
+                allowClear
+                placeholder={t("target.default")}
+                options={targets.map((target) => ({ value: target.id, label: target.name }))}
+              />
+            </Form.Item>
+          )}
+
           {editingPost && (
             <div className="mb-4 rounded-lg border border-indigo-100 bg-indigo-50 p-3">
               <Text strong className="block mb-1">
@@ -803,6 +1123,121 @@ export default function PostsPage() {
             }}
           </Form.Item>
 
+          <Form.Item
+            name="format"
+            label={t("document.formatLabel")}
+            extra={t("document.formatHelp")}
+            rules={[
+              {
+                validator: (_, value) =>
+                  value !== "document" ||
+                  buildSlidesFromTipsList(
+                    form.getFieldValue("title") || "",
+                    form.getFieldValue("content") || ""
+                  ).length > 0
+                    ? Promise.resolve()
+                    : Promise.reject(new Error(t("document.notATipsList"))),
+              },
+            ]}
+          >
+            <Select
+              size="large"
+              options={[
+                { value: "text", label: t("document.formatText") },
+                { value: "document", label: t("document.formatDocument") },
+                { value: "poll", label: t("poll.formatPoll") },
+              ]}
+            />
+          </Form.Item>
+
+          <Form.Item noStyle shouldUpdate={(prev, next) => prev.format !== next.format}>
+            {({ getFieldValue }) =>
+              getFieldValue("format") === "poll" ? (
+                <div className="mb-4 rounded-lg border border-gray-200 p-3">
+                  <Form.Item
+                    name={["poll", "question"]}
+                    label={t("poll.question")}
+                    rules={[
+                      { required: true, whitespace: true, message: t("poll.questionRequired") },
+                      {
+                        max: POLL_QUESTION_MAX_LENGTH,
+                        message: t("poll.questionTooLong", { max: POLL_QUESTION_MAX_LENGTH }),
+                      },
+                    ]}
+                  >
+                    <Input
+                      placeholder={t("poll.questionPlaceholder")}
+                      count={{ show: true, max: POLL_QUESTION_MAX_LENGTH }}
+                    />
+                  </Form.Item>
+                  <Form.List
+                    name={["poll", "options"]}
+                    rules={[
+                      {
+                        validator: async (_, options: string[] = []) => {
+                          if (options.length < POLL_MIN_OPTIONS || options.length > POLL_MAX_OPTIONS) {
+                            throw new Error(
+                              t("poll.optionsCount", { min: POLL_MIN_OPTIONS, max: POLL_MAX_OPTIONS })
+                            );
+                          }
+                        },
+                      },
+                    ]}
+                  >
+                    {(fields, { add, remove }, { errors }) => (
+                      <Form.Item label={t("poll.options")} required>
+                        <div className="space-y-2">
+                          {fields.map((field, index) => (
+                            <div key={field.key} className="flex items-start gap-2">
+                              <Form.Item
+                                {...field}
+                                rules={[
+                                  { required: true, whitespace: true, message: t("poll.optionRequired") },
+                                  {
+                                    max: POLL_OPTION_MAX_LENGTH,
+                                    message: t("poll.optionTooLong", { max: POLL_OPTION_MAX_LENGTH }),
+                                  },
+                                ]}
+                                className="mb-0 flex-1"
+                              >
+                                <Input
+                                  placeholder={t("poll.optionPlaceholder", { index: index + 1 })}
+                                  count={{ show: true, max: POLL_OPTION_MAX_LENGTH }}
+                                />
+                              </Form.Item>
+                              {fields.length > POLL_MIN_OPTIONS && (
+                                <Button
+                                  type="text"
+                                  danger
+                                  icon={<DeleteOutlined />}
+                                  onClick={() => remove(field.name)}
+                                />
+                              )}
+                            </div>
+                          ))}
+                          {fields.length < POLL_MAX_OPTIONS && (
+                            <Button type="dashed" onClick={() => add("")} icon={<PlusOutlined />} block>
+                              {t("poll.addOption")}
+                            </Button>
+                          )}
+                          <Form.ErrorList errors={errors} />
+                        </div>
+                      </Form.Item>
+                    )}
+                  </Form.List>
+                  <Form.Item name={["poll", "duration"]} label={t("poll.duration")} className="mb-0">
+                    <Select
+                      options={POLL_DURATIONS.map((duration) => ({
+                        value: duration,
+                        label: t(`poll.durations.${duration}`),
+                      }))}
+                    />
+                  </Form.Item>
+                </div>
+              ) : null
+            }
+          </Form.Item>
+
           <Form.Item
             name="status"
             label={t("table.status")}
@@ -814,8 +1249,14 @@ export default function PostsPage() {
                 editingPost
                   ? [
                       { value: "draft", label: t("modal.statusDraft") },
+                      ...(editingPost.status === "needs_review"
+                        ? [{ value: "needs_review", label: t("modal.statusNeedsReview") }]
+                        : []),
                       { value: "ready", label: t("modal.statusReady") },
                       { value: "published", label: t("modal.statusPublished") },
+                      ...(editingPost.status === "failed"
+                        ? [{ value: "failed", label: t("modal.statusFailed") }]
+                        : []),
                     ]
                   : [
                       { value: "draft", label: t("modal.statusDraft") },
@@ -826,6 +1267,17 @@ export default function PostsPage() {
           </Form.Item>
 
           <div className="flex flex-col-reverse sm:flex-row justify-end gap-2 sm:gap-3 pt-4">
+            {editingPost && (
+              <Button
+                size="large"
+                icon={<HistoryOutlined />}
+                onClick={() => setIsRevisionsOpen(true)}
+                block={isMobile}
+                className="sm:mr-auto"
+              >
+                {t("revisions.open")}
+              </Button>
+            )}
             <Button size="large" onClick={() => setIsModalOpen(false)} block={isMobile}>
               {tCommon("cancel")}
             </Button>
@@ -865,6 +1317,20 @@ export default function PostsPage() {
               <Tag color={postStatusConfig[viewingPost.status].color}>
                 {tStatus(viewingPost.status)}
               </Tag>
+              {viewingPost.isOutOfSync && (
+                <Tooltip title={t("sync.driftHelp")}>
+                  <Tag color="orange">{t("sync.drift")}</Tag>
+                </Tooltip>
+              )}
+              {viewingPost.format === "document" && (
+                <Button
+                  size="small"
+                  icon={<FilePdfOutlined />}
+                  onClick={() => setIsDocumentPreviewOpen(true)}
+                >
+                  {t("document.preview")}
+                </Button>
+              )}
               <Text type="secondary" className="text-xs ml-auto" ellipsis>
                 {viewingPost.title}
               </Text>
@@ -906,8 +1372,40 @@ export default function PostsPage() {
                 >
                   {viewingPost.content}
                 </pre>
+                {viewingPost.hashtags && viewingPost.hashtags.length > 0 && (
+                  <div className="flex flex-wrap gap-x-1.5 gap-y-0.5 mt-2">
+                    {viewingPost.hashtags.map((tag) => (
+                      <span key={tag} className="text-[#0a66c2] text-[13px] font-medium">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
 
+              {/* Poll */}
+              {viewingPost.format === "poll" && viewingPost.poll && (
+                <div className="mx-4 mb-4 rounded-lg p-3" style={{ border: "1px solid #e5e7eb" }}>
+                  <Text strong className="text-[13px] block mb-2">
+                    {viewingPost.poll.question}
+                  </Text>
+                  <div className="space-y-1.5">
+                    {viewingPost.poll.options.map((option, index) => (
+                      <div
+                        key={index}
+                        className="rounded-full px-3 py-1 text-xs text-center"
+                        style={{ border: "1px solid #0a66c2", color: "#0a66c2" }}
+                      >
+                        {option}
+                      </div>
+                    ))}
+                  </div>
+                  <Text type="secondary" className="text-[11px] block mt-2">
+                    {t(`poll.durations.${viewingPost.poll.duration}`)}
+                  </Text>
+                </div>
+              )}
+
               {/* Image(s) */}
               {resolvePostImages(viewingPost).length > 0 && (
                 <div
@@ -943,6 +1441,26 @@ export default function PostsPage() {
                 </div>
               )}
 
+              {/* First comment */}
+              {viewingPost.firstComment && (
+                <div className="mx-4 mb-4 rounded-lg px-3 py-2" style={{ background: "#f3f4f6" }}>
+                  <Text type="secondary" className="text-[11px] flex items-center gap-1 mb-1">
+                    <CommentOutlined />
+                    {t("firstComment.label")}
+                    {viewingPost.status === "published" && !viewingPost.firstCommentUrn && (
+                      <Tag color="orange" className="ml-1">
+                        {t("firstComment.notPosted")}
+                      </Tag>
+                    )}
+                  </Text>
+                  <pre
+                    className="whitespace-pre-wrap text-xs"
+                    style={{ fontFamily: "inherit", margin: 0, color: "#1d1d1d" }}
+                  >
+                    {viewingPost.firstComment}
+                  </pre>
+                </div>
+              )}
             </div>
 
             {/* Meta */}
@@ -959,6 +1477,16 @@ export default function PostsPage() {
               )}
             </div>
 
+            {/* Engagement curves */}
+            {viewingPost.status === "published" && viewingPost.linkedInUrn && (
+              <div className="px-5 py-3">
+                <Text strong className="block mb-2">
+                  {t("analytics.title")}
+                </Text>
+                <PostEngagementChart postId={viewingPost.id} />
+              </div>
+            )}
+
             {/* Actions */}
             <div
               className="flex flex-col-reverse sm:flex-row justify-end gap-2 sm:gap-3 px-5 py-4"
@@ -980,7 +1508,15 @@ export default function PostsPage() {
               >
                 {tCommon("edit")}
               </Button>
-              {viewingPost.status === "ready" && (
+              {viewingPost.isOutOfSync && renderSyncButton(viewingPost, true)}
+              <Button
+                icon={<HistoryOutlined />}
+                block={isMobile}
+                onClick={() => handleOpenHistory(viewingPost.id)}
+              >
+                {t("history.open")}
+              </Button>
+              {(viewingPost.status === "ready" || viewingPost.status === "failed") && (
                 <Popconfirm
                   title={t("publishConfirm.title")}
                   description={t("publishConfirm.description")}
@@ -1018,6 +1554,36 @@ export default function PostsPage() {
         )}
       </Modal>
 
+      {/* PDF carousel of a document post */}
+      {viewingPost && (
+        <DocumentPreviewModal
+          open={isDocumentPreviewOpen}
+          onClose={() => setIsDocumentPreviewOpen(false)}
+          title={viewingPost.title}
+          content={viewingPost.content}
+          slides={viewingPost.slides}
+        />
+      )}
+
+      {/* Publication history */}
+      <PublishHistoryPanel
+        open={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        postId={historyPostId}
+        isMobile={isMobile}
+      />
+
+      {/* Version history of the post being edited */}
+      <PostRevisionsModal
+        open={isRevisionsOpen}
+        onClose={() => setIsRevisionsOpen(false)}
+        postId={editingPost?.id ?? null}
+        currentTitle={editorTitle || ""}
+        currentContent={editorContent || ""}
+        onRestore={handleRestoreRevision}
+        isMobile={isMobile}
+      />
+
       {/* Generate Modal */}
       <GeneratePostsModal
         open={isGenerateModalOpen}
@@ -11,6 +11,10 @@ import {
   Select,
   Switch,
   TimePicker,
+  DatePicker,
+  InputNumber,
+  Popover,
+  Tooltip,
   Space,
   Typography,
   Tag,
@@ -20,6 +24,8 @@ import {
   Empty,
   Row,
   Col,
+  Alert,
+  AutoComplete,
 } from "antd";
 import {
   PlusOutlined,
@@ -28,8 +34,11 @@ import {
   ClockCircleOutlined,
   CalendarOutlined,
   GlobalOutlined,
+  StopOutlined,
+  InboxOutlined,
+  WarningOutlined,
 } from "@ant-design/icons";
-import { useTranslations } from "next-intl";
+import { useLocale, useTranslations } from "next-intl";
 import dayjs from "dayjs";
 import { MainLayout } from "@/components/layout/MainLayout";
 import {
@@ -37,12 +46,25 @@ import {
   Schedule,
   CreateScheduleData,
 } from "@/hooks/useSchedules";
+import { usePosts } from "@/hooks/usePosts";
+import { usePublishingTargets } from "@/hooks/usePublishingTargets";
+import {
+  MAX_INTERVAL_WEEKS,
+  UPCOMING_RUNS_COUNT,
+  formatInTimezone,
+  getUpcomingRuns,
+  toScheduleRule,
+  toZonedDateKey,
+} from "@/lib/schedule-rules";
+import { PostCalendar } from "@/components/features/PostCalendar";
+import { LinkedInTokenBanner } from "@/components/features/LinkedInTokenBanner";
 
 const { Title, Text, Paragraph } = Typography;
 
 export default function SchedulePage() {
   const t = useTranslations("schedule");
   const tCommon = useTranslations("common");
+  const locale = useLocale();
   
   const {
     schedules,
@@ -53,6 +75,8 @@ export default function SchedulePage() {
     deleteSchedule,
     toggleSchedule,
   } = useSchedules();
+  const { posts, updatePost } = usePosts();
+  const { targets } = usePublishingTargets();
 
   const [messageApi, contextHolder] = message.useMessage();
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -92,6 +116,41 @@ export default function SchedulePage() {
     label: name,
   }));
 
+  const queueOptions = Array.from(
+    new Set(posts.map((post) => post.queue).filter((queue): queue is string => Boolean(queue)))
+  ).map((queue) => ({ value: queue }));
+
+  const drySchedules = schedules.filter((schedule) => schedule.runsDryAt);
+
+  // Live preview of the rules being edited, computed by the same engine as the scheduler
+  const previewDays: number[] | undefined = Form.useWatch("daysOfWeek", form);
+  const previewTimes: (dayjs.Dayjs | null)[] | undefined = Form.useWatch("times", form);
+  const previewTimezone: string | undefined = Form.useWatch("timezone", form);
+  const previewInterval: number | undefined = Form.useWatch("intervalWeeks", form);
+  const previewExcludedDates: dayjs.Dayjs[] | undefined = Form.useWatch("excludedDates", form);
+  const previewTimeValues = (previewTimes || [])
+    .filter((time): time is dayjs.Dayjs => Boolean(time))
+    .map((time) => time.format("HH:mm"));
+  const previewRuns =
+    isModalOpen && previewDays?.length && previewTimezone && previewTimeValues.length
+      ? getUpcomingRuns(
+          toScheduleRule({
+            dayOfWeek: previewDays[0],
+            daysOfWeek: previewDays,
+            times: previewTimeValues,
+            timezone: previewTimezone,
+            intervalWeeks: previewInterval,
+            // Same anchor as the API: kept while the interval is unchanged
+            intervalAnchor:
+              editingSchedule && editingSchedule.intervalWeeks === previewInterval
+                ? editingSchedule.intervalAnchor
+                : toZonedDateKey(new Date(), previewTimezone),
+            excludedDates: (previewExcludedDates || []).map((date) => date.format("YYYY-MM-DD")),
+          }),
+          UPCOMING_RUNS_COUNT
+        )
+      : [];
+
   const handleCreate = () => {
     const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
     const defaultTimezone = timezoneOptions.some(
@@ -105,6 +164,8 @@ export default function SchedulePage() {
     form.setFieldsValue({
       timezone: defaultTimezone,
       isRecurring: true,
+      intervalWeeks: 1,
+      excludedDates: [],
       times: [dayjs("09:00", "HH:mm")],
     });
     setIsModalOpen(true);
@@ -114,10 +175,14 @@ export default function SchedulePage() {
     setEditingSchedule(schedule);
     form.setFieldsValue({
       name: schedule.name,
-      dayOfWeek: schedule.dayOfWeek,
+      daysOfWeek: schedule.daysOfWeek,
+      intervalWeeks: schedule.intervalWeeks,
+      excludedDates: schedule.excludedDates.map((date) => dayjs(date, "YYYY-MM-DD")),
       times: schedule.times.map((time) => dayjs(time, "HH:mm")),
       timezone: schedule.timezone,
       isRecurring: schedule.isRecurring,
+      targetId: schedule.targetId || undefined,
+      queue: schedule.queue || undefined,
     });
     setIsModalOpen(true);
   };
@@ -140,19 +205,40 @@ export default function SchedulePage() {
     }
   };
 
+  const handleSchedulePost = async (postId: string, scheduledFor: string | null) => {
+    const success = await updatePost(postId, { scheduledFor });
+    if (success) {
+      messageApi.success(
+        scheduledFor ? t("calendar.messages.scheduled") : t("calendar.messages.unscheduled")
+      );
+    } else {
+      messageApi.error(t("calendar.messages.failed"));
+    }
+    return success;
+  };
+
   const handleSubmit = async (values: {
     name: string;
-    dayOfWeek: number;
+    daysOfWeek: number[];
     times: dayjs.Dayjs[];
     timezone: string;
     isRecurring: boolean;
+    intervalWeeks: number;
+    excludedDates?: dayjs.Dayjs[];
+    targetId?: string;
+    queue?: string;
   }) => {
     const data: CreateScheduleData = {
       name: values.name,
-      dayOfWeek: values.dayOfWeek,
+      daysOfWeek: values.daysOfWeek,
       times: values.times.map((time) => time.format("HH:mm")),
       timezone: values.timezone,
       isRecurring: values.isRecurring,
+      intervalWeeks: values.intervalWeeks,
+      excludedDates: (values.excludedDates || []).map((date) => date.format("YYYY-MM-DD")),
+      // The target field is only shown once targets are loaded
+      ...(targets.length > 0 && { targetId: values.targetId || null }),
+      queue: values.queue?.trim() || null,
     };
 
     if (editingSchedule) {
@@ -191,12 +277,54 @@ export default function SchedulePage() {
     },
     {
       title: t("table.day"),
-      dataIndex: "dayOfWeek",
-      key: "dayOfWeek",
-      render: (day: number) => (
-        <Tag icon={<CalendarOutlined />} color="blue">
-          {dayNames[day]}
-        </Tag>
+      dataIndex: "daysOfWeek",
+      key: "daysOfWeek",
+      render: (days: number[], record: Schedule) => (
+        <Space wrap size={[4, 4]}>
+          {days.map((day) => (
+            <Tag key={day} icon={<CalendarOutlined />} color="blue">
+              {dayNames[day]}
+            </Tag>
+          ))}
+          {record.intervalWeeks > 1 && (
+            <Tag color="purple">{t("rules.everyWeeks", { count: record.intervalWeeks })}</Tag>
+          )}
+          {record.excludedDates.length > 0 && (
+            <Tooltip title={record.excludedDates.join(", ")}>
+              <Tag icon={<StopOutlined />}>
+                {t("rules.excludedCount", { count: record.excludedDates.length })}
+              </Tag>
+            </Tooltip>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: t("table.queue"),
+      dataIndex: "queue",
+      key: "queue",
+      render: (queue: string | null, record: Schedule) => (
+        <Space wrap size={[4, 4]}>
+          <Tag icon={<InboxOutlined />} color={queue ? "geekblue" : "default"}>
+            {queue || t("queue.all")}
+          </Tag>
+          {record.queueDepth !== undefined && (
+            <Text type="secondary" className="text-xs">
+              {t("queue.depth", { count: record.queueDepth })}
+            </Text>
+          )}
+          {record.runsDryAt && (
+            <Tooltip
+              title={t("queue.runsDryHelp", {
+                date: formatInTimezone(record.runsDryAt, record.timezone, locale),
+              })}
+            >
+              <Tag icon={<WarningOutlined />} color="orange">
+                {t("queue.runsDry")}
+              </Tag>
+            </Tooltip>
+          )}
+        </Space>
       ),
     },
     {
@@ -227,9 +355,30 @@ export default function SchedulePage() {
       title: t("table.nextRun"),
       dataIndex: "nextRunAt",
       key: "nextRunAt",
-      render: (date: string | null) =>
+      render: (date: string | null, record: Schedule) =>
         date ? (
-          <Text type="secondary">{new Date(date).toLocaleString()}</Text>
+          <Popover
+            title={t("upcoming.title", { count: record.upcomingRuns.length })}
+            content={
+              record.upcomingRuns.length > 0 ? (
+                <ul className="m-0 pl-4">
+                  {record.upcomingRuns.map((run) => (
+                    <li key={run}>
+                      <Text className="text-xs">
+                        {formatInTimezone(run, record.timezone, locale)}
+                      </Text>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <Text type="secondary">{t("upcoming.none")}</Text>
+              )
+            }
+          >
+            <Text type="secondary" className="cursor-help underline decoration-dotted">
+              {formatInTimezone(date, record.timezone, locale)}
+            </Text>
+          </Popover>
         ) : (
           <Text type="secondary">-</Text>
         ),
@@ -306,6 +455,8 @@ export default function SchedulePage() {
           </Button>
         </div>
 
+        <LinkedInTokenBanner />
+
         {/* Info Card */}
         <Card size="small" className="bg-blue-50 border-blue-200">
           <Row gutter={[16, 8]}>
@@ -317,6 +468,27 @@ export default function SchedulePage() {
           </Row>
         </Card>
 
+        {drySchedules.length > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            message={t("queue.alertTitle", { count: drySchedules.length })}
+            description={drySchedules
+              .map((schedule) =>
+                t("queue.alertItem", {
+                  name: schedule.name,
+                  queue: schedule.queue || t("queue.all"),
+                  date: formatInTimezone(
+                    schedule.runsDryAt as string,
+                    schedule.timezone,
+                    locale
+                  ),
+                })
+              )
+              .join(" · ")}
+          />
+        )}
+
         {/* Schedules Table */}
         {schedules.length === 0 ? (
           <Card>
@@ -341,6 +513,15 @@ export default function SchedulePage() {
           </Card>
         )}
 
+        {/* Post Calendar */}
+        <div>
+          <Title level={4} className="mb-1!">
+            {t("calendar.title")}
+          </Title>
+          <Paragraph type="secondary">{t("calendar.subtitle")}</Paragraph>
+          <PostCalendar posts={posts} onSchedule={handleSchedulePost} />
+        </div>
+
         {/* Create/Edit Modal */}
         <Modal
           title={editingSchedule ? t("modal.editTitle") : t("modal.createTitle")}
@@ -364,11 +545,38 @@ export default function SchedulePage() {
             </Form.Item>
 
             <Form.Item
-              name="dayOfWeek"
-              label={t("modal.dayOfWeek")}
+              name="daysOfWeek"
+              label={t("modal.daysOfWeek")}
               rules={[{ required: true, message: t("modal.dayRequired") }]}
             >
-              <Select options={dayOptions} placeholder={t("modal.selectDay")} />
+              <Select mode="multiple" options={dayOptions} placeholder={t("modal.selectDay")} />
+            </Form.Item>
+
+            <Form.Item
+              name="intervalWeeks"
+              label={t("modal.intervalWeeks")}
+              extra={t("modal.intervalWeeksHelp")}
+              rules={[{ required: true }]}
+            >
+              <InputNumber
+                min={1}
+                max={MAX_INTERVAL_WEEKS}
+                precision={0}
+                addonAfter={t("modal.weeks")}
+              />
+            </Form.Item>
+
+            <Form.Item
+              name="excludedDates"
+              label={t("modal.excludedDates")}
+              extra={t("modal.excludedDatesHelp")}
+            >
+              <DatePicker
+                multiple
+                className="w-full"
+                format="YYYY-MM-DD"
+                placeholder={t("modal.selectExcludedDates")}
+              />
             </Form.Item>
 
             <Form.List name="times">
@@ -428,6 +636,27 @@ export default function SchedulePage() {
               />
             </Form.Item>
 
+            <Form.Item name="queue" label={t("modal.queue")} extra={t("modal.queueHelp")}>
+              <AutoComplete
+                allowClear
+                options={queueOptions}
+                placeholder={t("queue.all")}
+                filterOption={(input, option) =>
+                  (option?.value ?? "").toLowerCase().includes(input.toLowerCase())
+                }
+              />
+            </Form.Item>
+
+            {targets.length > 0 && (
+              <Form.Item name="targetId" label={t("modal.target")} extra={t("modal.targetHelp")}>
+                <Select
+                  allowClear
+                  placeholder={t("modal.targetDefault")}
+                  options={targets.map((target) => ({ value: target.id, label: target.name }))}
+                />
+              </Form.Item>
+            )}
+
             <Form.Item
               name="isRecurring"
               label={t("modal.recurringLabel")}
@@ -439,6 +668,23 @@ export default function SchedulePage() {
               {t("modal.recurringHelp")}
             </Text>
 
+            {previewRuns.length > 0 && previewTimezone && (
+              <div className="mb-4 rounded-lg border border-blue-100 bg-blue-50 p-3">
+                <Text strong className="block mb-1">
+                  {t("upcoming.preview", { count: previewRuns.length })}
+                </Text>
+                <ul className="m-0 pl-4">
+                  {previewRuns.map((run) => (
+                    <li key={run.toISOString()}>
+                      <Text className="text-xs">
+                        {formatInTimezone(run, previewTimezone, locale)}
+                      </Text>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="flex gap-2 justify-end">
               <Button onClick={() => setIsModalOpen(false)}>{tCommon("cancel")}</Button>
               <Button type="primary" htmlType="submit" loading={isSaving}>
@@ -29,6 +29,11 @@ import {
 } from "@ant-design/icons";
 import { useTranslations } from "next-intl";
 import { MainLayout } from "@/components/layout/MainLayout";
+import { PublishingTargetsCard } from "@/components/features/PublishingTargetsCard";
+import { AutoRefillCard } from "@/components/features/AutoRefillCard";
+import { VoiceProfileCard } from "@/components/features/VoiceProfileCard";
+import { HashtagLibraryCard } from "@/components/features/HashtagLibraryCard";
+import { EmailDigestCard } from "@/components/features/EmailDigestCard";
 import { useProfile } from "@/hooks/useProfile";
 import {
   UserProfile,
@@ -451,6 +456,23 @@ export default function SettingsPage() {
             </Button>
           </div>
         </Form>
+
+        {/* Publishing targets, voice, hashtags, auto-refill and the email digest are saved independently of the profile */}
+        <div className="mt-6">
+          <PublishingTargetsCard />
+        </div>
+        <div className="mt-6">
+          <VoiceProfileCard />
+        </div>
+        <div className="mt-6">
+          <HashtagLibraryCard />
+        </div>
+        <div className="mt-6">
+          <AutoRefillCard />
+        </div>
+        <div className="mt-6">
+          <EmailDigestCard />
+        </div>
       </div>
     </MainLayout>
   );
@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { isAdminSession } from "@/lib/admin";
+import {
+  getEnvLlmConfig,
+  getLlmConfig,
+  getStoredLlmSettings,
+  isLlmApiKeyConfigured,
+  resolveLlmModel,
+  updateLlmSettings,
+  validateLlmBaseUrl,
+} from "@/lib/llm";
+import {
+  LlmFeature,
+  LlmSettingsConfig,
+  LlmSettingsResponse,
+  llmFeatures,
+  llmProviderNames,
+} from "@/types/llm";
+
+async function buildSettingsResponse(): Promise<LlmSettingsResponse> {
+  const [stored, config] = await Promise.all([getStoredLlmSettings(), getLlmConfig()]);
+
+  return {
+    stored,
+    env: getEnvLlmConfig(),
+    effective: {
+      provider: config.provider,
+      models: Object.fromEntries(
+        llmFeatures.map((feature) => [feature, resolveLlmModel(config, feature)])
+      ) as Record<LlmFeature, string>,
+      apiKeyConfigured: isLlmApiKeyConfigured(config),
+    },
+  };
+}
+
+// GET /api/admin/llm-settings - AI provider and models (admin only)
+export async function GET() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+    if (!isAdminSession(session)) return ApiResponse.forbidden();
+
+    return ApiResponse.success(await buildSettingsResponse());
+  } catch (error) {
+    console.error("Error fetching AI settings:", error);
+    return ApiResponse.error("Failed to fetch AI settings");
+  }
+}
+
+// PUT /api/admin/llm-settings - Override the AI provider and models (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+    if (!isAdminSession(session)) return ApiResponse.forbidden();
+
+    const body: Partial<LlmSettingsConfig> = await request.json();
+
+    if (body.provider && !llmProviderNames.includes(body.provider)) {
+      return ApiResponse.badRequest(
+        `Provider must be one of: ${llmProviderNames.join(", ")}`
+      );
+    }
+    const baseUrlError = body.baseUrl?.trim() ? validateLlmBaseUrl(body.baseUrl.trim()) : null;
+    if (baseUrlError) {
+      return ApiResponse.badRequest(baseUrlError);
+    }
+
+    await updateLlmSettings(body, session.user.email || null);
+    console.log(`[LLM] Settings updated by ${session.user.email}`);
+
+    return ApiResponse.success(await buildSettingsResponse());
+  } catch (error) {
+    console.error("Error updating AI settings:", error);
+    return ApiResponse.error("Failed to update AI settings");
+  }
+}
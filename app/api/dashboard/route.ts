@@ -31,6 +31,8 @@ export async function GET() {
       postStats,
       // 5. Hunter usage this month
       hunterUsage,
+      // 6. Generated posts with their latest engagement snapshot
+      generatedPosts,
     ] = await Promise.all([
       // Due sequence steps
       prisma.sequenceStep.findMany({
@@ -97,6 +99,20 @@ export async function GET() {
           },
         },
       }),
+
+      // Published AI-generated posts (hand-written ones have no style)
+      prisma.post.findMany({
+        where: { userId, status: "published", generationStyle: { not: null } },
+        select: {
+          generationStyle: true,
+          generationThemes: true,
+          analyticsSnapshots: {
+            orderBy: { capturedAt: "desc" },
+            take: 1,
+            select: { impressions: true, reactions: true, comments: true, reshares: true },
+          },
+        },
+      }),
     ]);
 
     // ── Process follow-up steps ──
@@ -134,6 +150,7 @@ export async function GET() {
       draft: 0,
       ready: 0,
       published: 0,
+      failed: 0,
     };
     for (const group of postStats) {
       const count = group._count;
@@ -141,6 +158,7 @@ export async function GET() {
       if (group.status === "draft") posts.draft = count;
       if (group.status === "ready") posts.ready = count;
       if (group.status === "published") posts.published = count;
+      if (group.status === "failed") posts.failed = count;
     }
 
     // ── Hunter credits ──
@@ -181,6 +199,7 @@ export async function GET() {
         remaining: hunterRemaining,
         limit: hunterLimit,
       },
+      performance: buildPerformanceRanking(generatedPosts),
     });
   } catch (error) {
     console.error("[Dashboard] Error:", error);
@@ -217,3 +236,70 @@ function formatStep(step: {
     prospect: step.sequence.prospect,
   };
 }
+
+interface PerformanceRow {
+  key: string;
+  posts: number;
+  avgImpressions: number;
+  /** (reactions + comments + reshares) / impressions, in percent */
+  engagementRate: number;
+}
+
+/**
+ * Rank generation styles and themes by engagement rate,
+ * using the latest analytics snapshot of each published post.
+ */
+function buildPerformanceRanking(
+  posts: {
+    generationStyle: string | null;
+    generationThemes: string[];
+    analyticsSnapshots: {
+      impressions: number;
+      reactions: number;
+      comments: number;
+      reshares: number;
+    }[];
+  }[]
+): { byStyle: PerformanceRow[]; byTheme: PerformanceRow[] } {
+  const byStyle = new Map<string, { posts: number; impressions: number; engagement: number }>();
+  const byTheme = new Map<string, { posts: number; impressions: number; engagement: number }>();
+
+  const add = (
+    groups: typeof byStyle,
+    key: string,
+    impressions: number,
+    engagement: number
+  ) => {
+    const group = groups.get(key) || { posts: 0, impressions: 0, engagement: 0 };
+    group.posts += 1;
+    group.impressions += impressions;
+    group.engagement += engagement;
+    groups.set(key, group);
+  };
+
+  for (const post of posts) {
+    const snapshot = post.analyticsSnapshots[0];
+    if (!snapshot) continue;
+    const engagement = snapshot.reactions + snapshot.comments + snapshot.reshares;
+    add(byStyle, post.generationStyle || "auto", snapshot.impressions, engagement);
+    for (const theme of post.generationThemes) {
+      add(byTheme, theme, snapshot.impressions, engagement);
+    }
+  }
+
+  const toRows = (groups: typeof byStyle): PerformanceRow[] =>
+    Array.from(groups.entries())
+      .map(([key, group]) => ({
+        key,
+        posts: group.posts,
+        avgImpressions: Math.round(group.impressions / group.posts),
+        engagementRate:
+          group.impressions > 0
+            ? Math.round((group.engagement / group.impressions) * 1000) / 10
+            : 0,
+      }))
+      .sort((a, b) => b.engagementRate - a.engagementRate || b.avgImpressions - a.avgImpressions)
+      .slice(0, 5);
+
+  return { byStyle: toRows(byStyle), byTheme: toRows(byTheme) };
+}
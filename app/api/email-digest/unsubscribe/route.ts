@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiResponse } from "@/lib/api-utils";
+import {
+  getDigestTranslator,
+  getUnsubscribeTokenLocale,
+  unsubscribeFromDigest,
+} from "@/lib/email-digest";
+import { defaultLocale } from "@/i18n/config";
+
+/**
+ * Minimal HTML page answering the unsubscribe link
+ */
+async function renderUnsubscribePage(
+  locale: Parameters<typeof getDigestTranslator>[0] | null,
+  body: (t: Awaited<ReturnType<typeof getDigestTranslator>>) => string,
+  status = 200
+): Promise<NextResponse> {
+  const t = await getDigestTranslator(locale || defaultLocale);
+  const settingsUrl = `/${locale || defaultLocale}/settings`;
+
+  return new NextResponse(
+    `<!DOCTYPE html><html lang="${locale || defaultLocale}"><head><meta charset="utf-8">` +
+    `<meta name="viewport" content="width=device-width, initial-scale=1"><title>${t("unsubscribe")}</title></head>` +
+    `<body style="font-family:Arial,sans-serif;max-width:480px;margin:80px auto;padding:0 16px;color:#111827">` +
+    `${body(t)}<p><a href="${settingsUrl}">${t("manageSettings")}</a></p></body></html>`,
+    {
+      status,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    }
+  );
+}
+
+// GET /api/email-digest/unsubscribe?token=... - Confirmation page of the digest email link (no session needed).
+// Opting out only happens on POST: mail scanners and prefetchers follow links.
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token") || "";
+    const locale = await getUnsubscribeTokenLocale(token);
+    if (!locale) {
+      return renderUnsubscribePage(null, (t) => `<p>${t("unsubscribeInvalid")}</p>`, 404);
+    }
+
+    return renderUnsubscribePage(
+      locale,
+      (t) =>
+        `<p>${t("unsubscribeConfirm")}</p>` +
+        `<form method="post" action="?token=${encodeURIComponent(token)}">` +
+        `<input type="hidden" name="confirm" value="1">` +
+        `<button type="submit" style="padding:8px 16px;cursor:pointer">${t("unsubscribe")}</button></form>`
+    );
+  } catch (error) {
+    console.error("Error loading digest unsubscribe page:", error);
+    return ApiResponse.error("Failed to load unsubscribe page");
+  }
+}
+
+// POST /api/email-digest/unsubscribe?token=... - Unsubscribe, from the confirmation page or
+// one-click from the mail client (RFC 8058)
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token") || "";
+    const form = await request.formData().catch(() => null);
+    const fromPage = form?.get("confirm") === "1";
+
+    const locale = await unsubscribeFromDigest(token);
+    if (fromPage) {
+      return renderUnsubscribePage(
+        locale,
+        (t) => `<p>${locale ? t("unsubscribed") : t("unsubscribeInvalid")}</p>`,
+        locale ? 200 : 404
+      );
+    }
+    if (!locale) return ApiResponse.notFound("Unknown unsubscribe token");
+
+    return ApiResponse.success({ unsubscribed: true });
+  } catch (error) {
+    console.error("Error unsubscribing from digest:", error);
+    return ApiResponse.error("Failed to unsubscribe");
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { notify } from "@/lib/notifications";
 
 interface FindEmailRequest {
   name: string;
@@ -12,6 +13,8 @@ interface FindEmailRequest {
 const HUNTER_API_BASE = "https://api.hunter.io/v2";
 const OWNER_LIMIT = 100;
 const FREE_LIMIT = 10;
+// Warn the user once a month when this share of their searches is left
+const LOW_QUOTA_RATIO = 0.2;
 
 /**
  * Parse a full name into first and last name
@@ -38,6 +41,23 @@ function deriveDomain(company: string): string {
   );
 }
 
+/**
+ * Notify the user (once per month) when few email searches are left
+ */
+async function notifyIfQuotaLow(
+  userId: string,
+  month: string,
+  remaining: number,
+  limit: number
+): Promise<void> {
+  if (remaining > Math.floor(limit * LOW_QUOTA_RATIO)) return;
+  await notify(userId, "hunter_quota_low", {
+    data: { remaining, limit },
+    link: "/outreach",
+    dedupeKey: `hunter-quota:${month}`,
+  });
+}
+
 // POST /api/find-email
 export async function POST(request: NextRequest) {
   try {
@@ -110,6 +130,7 @@ export async function POST(request: NextRequest) {
         where: { id: usage.id },
         data: { count: { increment: 1 } },
       });
+      await notifyIfQuotaLow(userId, month, limit - (usage.count + 1), limit);
 
       if (status === 402) {
         return ApiResponse.error(
@@ -138,6 +159,7 @@ export async function POST(request: NextRequest) {
         where: { id: usage.id },
         data: { count: { increment: 1 } },
       });
+      await notifyIfQuotaLow(userId, month, limit - (usage.count + 1), limit);
       return ApiResponse.success({
         success: false,
         notFound: true,
@@ -185,6 +207,7 @@ export async function POST(request: NextRequest) {
       where: { id: usage.id },
       data: { count: { increment: 1 } },
     });
+    await notifyIfQuotaLow(userId, month, limit - (usage.count + 1), limit);
 
     console.log(
       `[EmailFinder] Found: ${email} (confidence: ${confidence}%, verified: ${verification?.result || "n/a"})`
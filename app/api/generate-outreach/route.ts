@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
-import { getGroqClient, GROQ_MODEL } from "@/lib/groq";
+import { completeStructured, LlmOutputError, ResponseSchema } from "@/lib/llm-json";
 
 interface OutreachRequest {
   prospectName: string;
@@ -37,6 +37,33 @@ const TONE_MAP: Record<string, string> = {
   direct: "Direct and to-the-point — no fluff, straight to value proposition",
 };
 
+interface OutreachMessage {
+  message: string;
+  suggestedSubject: string | null;
+}
+
+const outreachMessageSchema: ResponseSchema<OutreachMessage> = {
+  name: "outreach.message",
+  root: "object",
+  shape: '{"message":"...","suggestedSubject":"..."}',
+  validate(value) {
+    if (typeof value !== "object" || value === null) return { error: "expected an object" };
+    const parsed = value as Record<string, unknown>;
+    if (typeof parsed.message !== "string" || !parsed.message.trim()) {
+      return { error: "\"message\" must be a non-empty string" };
+    }
+    return {
+      value: {
+        message: parsed.message.trim(),
+        suggestedSubject:
+          typeof parsed.suggestedSubject === "string" && parsed.suggestedSubject.trim()
+            ? parsed.suggestedSubject
+            : null,
+      },
+    };
+  },
+};
+
 function buildOutreachPrompt(params: OutreachRequest): string {
   const config = TYPE_CONFIG[params.messageType] || TYPE_CONFIG.connection;
   const toneDesc = TONE_MAP[params.tone || "pro"] || TONE_MAP.pro;
@@ -95,43 +122,30 @@ export async function POST(request: NextRequest) {
 
     const prompt = buildOutreachPrompt(body);
 
-    const completion = await getGroqClient().chat.completions.create({
-      model: GROQ_MODEL,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are an expert LinkedIn outreach copywriter. Always respond with valid JSON.",
-        },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.7,
-      max_tokens: 1000,
-    });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) return ApiResponse.error("No response from AI");
-
-    // Parse JSON response
+    let outreach: OutreachMessage;
     try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        const msg = (parsed.message || content).trim();
-        return ApiResponse.success({
-          message: msg,
-          suggestedSubject: parsed.suggestedSubject || null,
-          length: msg.length,
-        });
-      }
-    } catch {
+      outreach = await completeStructured("outreach", outreachMessageSchema, {
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an expert LinkedIn outreach copywriter. Always respond with valid JSON.",
+          },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.7,
+        maxTokens: 1000,
+      });
+    } catch (error) {
+      if (!(error instanceof LlmOutputError)) throw error;
+      if (!error.raw.trim()) return ApiResponse.error("No response from AI");
       // Fallback: return raw content
+      outreach = { message: error.raw.trim(), suggestedSubject: null };
     }
 
     return ApiResponse.success({
-      message: content.trim(),
-      suggestedSubject: null,
-      length: content.trim().length,
+      ...outreach,
+      length: outreach.message.length,
     });
   } catch (error) {
     console.error("Error generating outreach message:", error);
@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import {
+  PostGenerationRequest,
+  describeGenerationError,
+  generatePostDrafts,
+} from "@/lib/post-generation";
+import type { GenerationStreamEvent } from "@/types/post";
+
+// POST /api/generate/stream - Generate post previews, streamed as NDJSON events
+export async function POST(request: NextRequest) {
+  const session = await getAuthenticatedSession();
+  if (!session) {
+    return ApiResponse.unauthorized();
+  }
+
+  let generationRequest: PostGenerationRequest;
+  try {
+    generationRequest = await request.json();
+  } catch {
+    return ApiResponse.badRequest("Invalid request body");
+  }
+
+  const count = generationRequest.count ?? 1;
+  if (count < 1 || count > 10) {
+    return ApiResponse.badRequest("Count must be between 1 and 10");
+  }
+
+  const userId = session.user.id;
+  // Aborted when the client cancels (closed connection or cancelled stream)
+  const controller = new AbortController();
+  request.signal.addEventListener("abort", () => controller.abort());
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (event: GenerationStreamEvent) => {
+        if (controller.signal.aborted) return;
+        streamController.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const posts = await generatePostDrafts(
+          userId,
+          { ...generationRequest, count },
+          {
+            signal: controller.signal,
+            onProgress: (progress) => send({ type: "progress", ...progress }),
+            onPost: (post, index) => send({ type: "post", index, post }),
+          }
+        );
+        send({ type: "done", count: posts.length });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          console.log(`[Generate] Streamed generation cancelled by user ${userId}`);
+        } else {
+          console.error("Error streaming generated posts:", error);
+          const { message, status } = describeGenerationError(error);
+          send({ type: "error", error: message, status });
+        }
+      } finally {
+        try {
+          streamController.close();
+        } catch {
+          // Already cancelled by the client
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { toGenerationPreset, validateGenerationPreset } from "@/lib/generation-presets";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/generation-presets/[id] - Update a generation preset
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { id } = await params;
+    const existing = await prisma.generationPreset.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) return ApiResponse.notFound("Generation preset not found");
+
+    // Omitted fields keep their current value
+    const body = await request.json();
+    const result = validateGenerationPreset({ ...toGenerationPreset(existing), ...body });
+    if ("error" in result) {
+      return ApiResponse.badRequest(result.error);
+    }
+
+    const preset = await prisma.generationPreset.update({
+      where: { id },
+      data: result.value,
+    });
+
+    return ApiResponse.success(toGenerationPreset(preset));
+  } catch (error) {
+    console.error("Error updating generation preset:", error);
+    return ApiResponse.error("Failed to update generation preset");
+  }
+}
+
+// DELETE /api/generation-presets/[id] - Delete a preset; auto-refill falls back to the profile defaults
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { id } = await params;
+    const existing = await prisma.generationPreset.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) return ApiResponse.notFound("Generation preset not found");
+
+    await prisma.user.updateMany({
+      where: { id: session.user.id, autoRefillPresetId: id },
+      data: { autoRefillPresetId: null },
+    });
+    await prisma.generationPreset.delete({ where: { id } });
+
+    return ApiResponse.success({ deleted: true });
+  } catch (error) {
+    console.error("Error deleting generation preset:", error);
+    return ApiResponse.error("Failed to delete generation preset");
+  }
+}
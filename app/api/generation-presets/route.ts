@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { toGenerationPreset, validateGenerationPreset } from "@/lib/generation-presets";
+
+// GET /api/generation-presets - List the user's generation presets
+export async function GET() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const presets = await prisma.generationPreset.findMany({
+      where: { userId: session.user.id },
+      orderBy: { name: "asc" },
+    });
+
+    return ApiResponse.success(presets.map(toGenerationPreset));
+  } catch (error) {
+    console.error("Error fetching generation presets:", error);
+    return ApiResponse.error("Failed to fetch generation presets");
+  }
+}
+
+// POST /api/generation-presets - Save a named set of generation options
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const result = validateGenerationPreset(await request.json());
+    if ("error" in result) {
+      return ApiResponse.badRequest(result.error);
+    }
+
+    const preset = await prisma.generationPreset.create({
+      data: { userId: session.user.id, ...result.value },
+    });
+
+    return ApiResponse.created(toGenerationPreset(preset));
+  } catch (error) {
+    console.error("Error creating generation preset:", error);
+    return ApiResponse.error("Failed to create generation preset");
+  }
+}
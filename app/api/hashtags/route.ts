@@ -0,0 +1,28 @@
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { getHashtagLibrary, refreshHashtagLibrary } from "@/lib/hashtag-library";
+
+// GET /api/hashtags - Get the hashtag library with usage and engagement
+export async function GET() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    return ApiResponse.success(await getHashtagLibrary(session.user.id));
+  } catch (error) {
+    console.error("Error fetching hashtag library:", error);
+    return ApiResponse.error("Failed to fetch hashtag library");
+  }
+}
+
+// POST /api/hashtags - Rebuild the hashtag library from the published posts
+export async function POST() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    return ApiResponse.success(await refreshHashtagLibrary(session.user.id));
+  } catch (error) {
+    console.error("Error refreshing hashtag library:", error);
+    return ApiResponse.error("Failed to refresh hashtag library");
+  }
+}
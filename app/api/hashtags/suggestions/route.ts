@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { suggestHashtags } from "@/lib/hashtag-library";
+
+interface HashtagSuggestionRequest {
+  content?: string;
+  /** Hashtags already on the post, not suggested again */
+  exclude?: string[];
+}
+
+// POST /api/hashtags/suggestions - Suggest hashtags for a post from its text and the profile topics
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { content, exclude }: HashtagSuggestionRequest = await request.json();
+    if (typeof content !== "string") {
+      return ApiResponse.badRequest("Post content is required");
+    }
+
+    const suggestions = await suggestHashtags(session.user.id, content, {
+      exclude: Array.isArray(exclude)
+        ? exclude.filter((tag): tag is string => typeof tag === "string")
+        : [],
+    });
+
+    return ApiResponse.success({ suggestions });
+  } catch (error) {
+    console.error("Error suggesting hashtags:", error);
+    return ApiResponse.error("Failed to suggest hashtags");
+  }
+}
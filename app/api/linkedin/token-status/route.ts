@@ -0,0 +1,61 @@
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { getLinkedInTokenStatus, TOKEN_EXPIRY_WARNING_DAYS } from "@/lib/linkedin-token";
+
+// GET /api/linkedin/token-status - LinkedIn connection health and the publications it puts at risk
+export async function GET() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) {
+      return ApiResponse.unauthorized();
+    }
+
+    const userId = session.user.id;
+    const status = await getLinkedInTokenStatus(userId);
+    const expiresAt = status.expiresAt ? new Date(status.expiresAt) : null;
+
+    // A refreshable token never blocks publications
+    const atRisk = status.needsReauth || (!status.canRefresh && expiresAt !== null);
+
+    if (!atRisk) {
+      return ApiResponse.success({
+        ...status,
+        showWarning: false,
+        affectedSchedules: [],
+        affectedScheduledPosts: 0,
+      });
+    }
+
+    const cutoff = status.needsReauth || !expiresAt ? new Date() : expiresAt;
+
+    // Recurring schedules always fire again after the expiry date
+    const schedules = await prisma.schedule.findMany({
+      where: { userId, isActive: true },
+      select: { id: true, name: true, isRecurring: true, nextRunAt: true },
+    });
+    const affectedSchedules = schedules
+      .filter(
+        (schedule) =>
+          schedule.isRecurring || (schedule.nextRunAt !== null && schedule.nextRunAt > cutoff)
+      )
+      .map(({ id, name, nextRunAt }) => ({ id, name, nextRunAt }));
+
+    const affectedScheduledPosts = await prisma.post.count({
+      where: { userId, status: "ready", scheduledFor: { gt: cutoff } },
+    });
+
+    const warningHorizon = new Date(Date.now() + TOKEN_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+    const expiresSoon = expiresAt !== null && expiresAt <= warningHorizon;
+    const hasAffected = affectedSchedules.length > 0 || affectedScheduledPosts > 0;
+
+    return ApiResponse.success({
+      ...status,
+      showWarning: hasAffected && (status.needsReauth || expiresSoon),
+      affectedSchedules,
+      affectedScheduledPosts,
+    });
+  } catch (error) {
+    console.error("Error fetching LinkedIn token status:", error);
+    return ApiResponse.error("Failed to fetch LinkedIn token status");
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { markNotificationsRead } from "@/lib/notifications";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/notifications/[id]/read - Mark a notification as read
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { id } = await params;
+    const existing = await prisma.notification.count({
+      where: { id, userId: session.user.id },
+    });
+    if (existing === 0) return ApiResponse.notFound("Notification not found");
+
+    await markNotificationsRead(session.user.id, id);
+
+    return ApiResponse.success({ id });
+  } catch (error) {
+    console.error("Error marking notification as read:", error);
+    return ApiResponse.error("Failed to mark notification as read");
+  }
+}
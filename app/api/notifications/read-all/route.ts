@@ -0,0 +1,17 @@
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { markNotificationsRead } from "@/lib/notifications";
+
+// POST /api/notifications/read-all - Mark all notifications as read
+export async function POST() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const updated = await markNotificationsRead(session.user.id);
+
+    return ApiResponse.success({ updated });
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    return ApiResponse.error("Failed to mark notifications as read");
+  }
+}
@@ -0,0 +1,15 @@
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { getNotifications } from "@/lib/notifications";
+
+// GET /api/notifications - Latest notifications and the unread count
+export async function GET() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    return ApiResponse.success(await getNotifications(session.user.id));
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    return ApiResponse.error("Failed to fetch notifications");
+  }
+}
@@ -1,24 +1,12 @@
 import { prisma } from "@/lib/prisma";
 import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
-import { getGroqClient, GROQ_MODEL } from "@/lib/groq";
+import { completeStructured, LlmOutputError, stringArraySchema } from "@/lib/llm-json";
 
 type CacheEntry = { data: string[]; expiresAt: number };
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
 const industryCache = new Map<string, CacheEntry>();
 
-function parseStringArray(content: string): string[] {
-  try {
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) return [];
-    const parsed = JSON.parse(jsonMatch[0]);
-    if (!Array.isArray(parsed)) return [];
-    return parsed
-      .map((item) => (typeof item === "string" ? item.trim() : ""))
-      .filter(Boolean);
-  } catch {
-    return [];
-  }
-}
+const industriesSchema = stringArraySchema("options.industries");
 
 async function fetchAiIndustries(language: "fr" | "en"): Promise<string[]> {
   const prompt =
@@ -36,23 +24,25 @@ Rules:
 - short, clear labels, no duplicates
 - English language`;
 
-  const completion = await getGroqClient().chat.completions.create({
-    model: GROQ_MODEL,
-    messages: [
-      {
-        role: "system",
-        content: "You return valid JSON arrays only.",
-      },
-      {
-        role: "user",
-        content: prompt,
-      },
-    ],
-    temperature: 0.3,
-    max_tokens: 800,
-  });
-
-  return parseStringArray(completion.choices[0]?.message?.content || "");
+  try {
+    return await completeStructured("themes", industriesSchema, {
+      messages: [
+        {
+          role: "system",
+          content: "You return valid JSON arrays only.",
+        },
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      temperature: 0.3,
+      maxTokens: 800,
+    });
+  } catch (error) {
+    if (error instanceof LlmOutputError) return [];
+    throw error;
+  }
 }
 
 export async function GET() {
@@ -1,25 +1,13 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
-import { getGroqClient, GROQ_MODEL } from "@/lib/groq";
+import { completeStructured, LlmOutputError, stringArraySchema } from "@/lib/llm-json";
 
 type CacheEntry = { data: string[]; expiresAt: number };
 const CACHE_TTL_MS = 12 * 60 * 60 * 1000;
 const specialtiesCache = new Map<string, CacheEntry>();
 
-function parseStringArray(content: string): string[] {
-  try {
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) return [];
-    const parsed = JSON.parse(jsonMatch[0]);
-    if (!Array.isArray(parsed)) return [];
-    return parsed
-      .map((item) => (typeof item === "string" ? item.trim() : ""))
-      .filter(Boolean);
-  } catch {
-    return [];
-  }
-}
+const specialtiesSchema = stringArraySchema("options.specialties");
 
 async function fetchAiSpecialties(params: {
   language: "fr" | "en";
@@ -42,17 +30,19 @@ Rules:
 - no duplicates
 - in English`;
 
-  const completion = await getGroqClient().chat.completions.create({
-    model: GROQ_MODEL,
-    messages: [
-      { role: "system", content: "Return valid JSON arrays only." },
-      { role: "user", content: prompt },
-    ],
-    temperature: 0.3,
-    max_tokens: 900,
-  });
-
-  return parseStringArray(completion.choices[0]?.message?.content || "");
+  try {
+    return await completeStructured("themes", specialtiesSchema, {
+      messages: [
+        { role: "system", content: "Return valid JSON arrays only." },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0.3,
+      maxTokens: 900,
+    });
+  } catch (error) {
+    if (error instanceof LlmOutputError) return [];
+    throw error;
+  }
 }
 
 export async function GET(request: NextRequest) {
@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/posts/[id]/analytics - Engagement time series of a published post
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { id } = await params;
+    const post = await prisma.post.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!post) return ApiResponse.notFound("Post not found");
+
+    const snapshots = await prisma.postAnalyticsSnapshot.findMany({
+      where: { postId: id },
+      orderBy: { capturedAt: "asc" },
+    });
+
+    return ApiResponse.success(snapshots);
+  } catch (error) {
+    console.error("Error fetching post analytics:", error);
+    return ApiResponse.error("Failed to fetch post analytics");
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/posts/[id]/revisions - Version history of a post, newest first
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { id } = await params;
+    const post = await prisma.post.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!post) return ApiResponse.notFound("Post not found");
+
+    const revisions = await prisma.postRevision.findMany({
+      where: { postId: id },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        postId: true,
+        title: true,
+        content: true,
+        source: true,
+        createdAt: true,
+      },
+    });
+
+    return ApiResponse.success(revisions);
+  } catch (error) {
+    console.error("Error fetching post revisions:", error);
+    return ApiResponse.error("Failed to fetch post revisions");
+  }
+}
@@ -2,12 +2,29 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
 import axios from "axios";
-import { deleteLinkedInPost, handleLinkedInError } from "@/lib/linkedin";
+import { deleteLinkedInPost, handleLinkedInError, withSyncState } from "@/lib/linkedin";
+import { syncPostScheduleJob, deletePostScheduleJob } from "@/lib/agenda";
+import {
+  getLinkedInCredentials,
+  LinkedInReauthRequiredError,
+  LinkedInTokenRefreshError,
+} from "@/lib/linkedin-token";
 import {
   cleanupOrphanedLocalPostImages,
   deleteLocalPostImage,
   deleteLocalPostImages,
 } from "@/lib/post-images";
+import { buildSlidesFromTipsList, normalizeSlides } from "@/lib/post-slides";
+import { normalizePoll, validatePoll } from "@/lib/post-poll";
+import { isOwnPublishingTarget } from "@/lib/publishing-targets";
+import { normalizeQueueName } from "@/lib/post-queues";
+import { normalizeHashtags } from "@/lib/hashtags";
+import {
+  ensureBaselineRevision,
+  normalizeRevisionSource,
+  recordPostRevision,
+} from "@/lib/post-revisions";
+import { FIRST_COMMENT_MAX_LENGTH } from "@/types/post";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -41,7 +58,7 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
 
     if (!post) return ApiResponse.notFound("Post not found");
 
-    return ApiResponse.success(post);
+    return ApiResponse.success(withSyncState(post));
   } catch (error) {
     console.error("Error fetching post:", error);
     return ApiResponse.error("Failed to fetch post");
@@ -59,11 +76,97 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     if (!existingPost) return ApiResponse.notFound("Post not found");
 
-    const { title, content, status, imageUrl, imageUrls, publishedAt } = await request.json();
+    const {
+      title,
+      content,
+      hashtags,
+      status,
+      imageUrl,
+      imageUrls,
+      publishedAt,
+      scheduledFor,
+      format,
+      slides,
+      poll,
+      firstComment,
+      targetId,
+      queue,
+      revisionSource,
+    } = await request.json();
+
+    if (scheduledFor !== undefined && scheduledFor !== null) {
+      const scheduledDate = new Date(scheduledFor);
+      if (Number.isNaN(scheduledDate.getTime())) {
+        return ApiResponse.badRequest("Invalid scheduledFor date");
+      }
+      if (scheduledDate.getTime() <= Date.now()) {
+        return ApiResponse.badRequest("scheduledFor must be in the future");
+      }
+      if ((status ?? existingPost.status) === "published") {
+        return ApiResponse.badRequest("A published post cannot be scheduled");
+      }
+    }
     const normalizedImageUrls = Array.isArray(imageUrls)
       ? imageUrls.filter((item: unknown) => typeof item === "string" && item.trim())
       : undefined;
 
+    // A post set back to ready after its slot passed (e.g. a failed scheduled
+    // post) goes back to the queue: recurring schedules skip posts with a slot
+    const clearsMissedSlot =
+      status === "ready" &&
+      scheduledFor === undefined &&
+      Boolean(existingPost.scheduledFor && existingPost.scheduledFor.getTime() <= Date.now());
+
+    // Document posts keep their slides in step with the text: explicit slides
+    // win, otherwise they are rebuilt from the (possibly edited) content.
+    const nextFormat = format !== undefined ? format : existingPost.format;
+    let documentSlides: ReturnType<typeof normalizeSlides> | undefined;
+    const touchesDocument = [format, slides, title, content].some(
+      (value) => value !== undefined
+    );
+    if (nextFormat === "document" && touchesDocument) {
+      documentSlides = normalizeSlides(slides);
+      if (documentSlides.length === 0) {
+        documentSlides = buildSlidesFromTipsList(
+          title ?? existingPost.title,
+          content ?? existingPost.content
+        );
+      }
+      if (documentSlides.length === 0) {
+        return ApiResponse.badRequest(
+          "A document post needs a list of at least two tips to build its slides"
+        );
+      }
+    }
+
+    let postPoll: ReturnType<typeof normalizePoll> | undefined;
+    if (nextFormat === "poll" && (format !== undefined || poll !== undefined)) {
+      postPoll = normalizePoll(poll !== undefined ? poll : existingPost.poll);
+      const pollError = postPoll ? validatePoll(postPoll) : "Poll question is required";
+      if (pollError) {
+        return ApiResponse.badRequest(pollError);
+      }
+    }
+
+    const normalizedFirstComment =
+      firstComment === undefined
+        ? undefined
+        : typeof firstComment === "string" && firstComment.trim()
+          ? firstComment.trim()
+          : null;
+    if (
+      normalizedFirstComment &&
+      normalizedFirstComment.length > FIRST_COMMENT_MAX_LENGTH
+    ) {
+      return ApiResponse.badRequest(
+        `First comment must be at most ${FIRST_COMMENT_MAX_LENGTH} characters`
+      );
+    }
+
+    if (targetId && !(await isOwnPublishingTarget(targetId, session.user.id))) {
+      return ApiResponse.badRequest("Unknown publishing target");
+    }
+
     if (
       imageUrl !== undefined &&
       existingPost.imageUrl &&
@@ -84,19 +187,59 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const updateData = {
       ...(title !== undefined && { title }),
       ...(content !== undefined && { content }),
+      ...(hashtags !== undefined && { hashtags: normalizeHashtags(hashtags) }),
       ...(status !== undefined && { status }),
       ...(imageUrl !== undefined && { imageUrl }),
       ...(normalizedImageUrls !== undefined && { imageUrls: normalizedImageUrls }),
+      ...(format !== undefined && {
+        format: format === "document" || format === "poll" ? format : null,
+      }),
+      ...(format !== undefined && format !== "document" && { slides: [] }),
+      ...(format !== undefined && format !== "poll" && { poll: null }),
+      ...(documentSlides !== undefined && { slides: documentSlides }),
+      ...(postPoll !== undefined && { poll: postPoll }),
+      ...(normalizedFirstComment !== undefined && { firstComment: normalizedFirstComment }),
+      ...(targetId !== undefined && { targetId: targetId || null }),
+      ...(queue !== undefined && { queue: normalizeQueueName(queue) }),
       ...(publishedAt !== undefined && { publishedAt: new Date(publishedAt) }),
+      ...(scheduledFor !== undefined && {
+        scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
+      }),
+      ...(clearsMissedSlot && { scheduledFor: null }),
     };
 
+    // Keep the text being overwritten in the version history
+    const changesText =
+      (title !== undefined && title !== existingPost.title) ||
+      (content !== undefined && content !== existingPost.content);
+    if (changesText) {
+      await ensureBaselineRevision(existingPost);
+    }
+
     try {
       const post = await prisma.post.update({
         where: { id },
         data: updateData,
       });
       await cleanupOrphanedLocalPostImages({ gracePeriodMs: 0, limit: 300 });
-      return ApiResponse.success(post);
+
+      if (changesText) {
+        try {
+          await recordPostRevision(post, normalizeRevisionSource(revisionSource));
+        } catch (revisionError) {
+          console.error("Error recording post revision:", revisionError);
+        }
+      }
+
+      if (scheduledFor !== undefined || status !== undefined) {
+        try {
+          await syncPostScheduleJob(post.id);
+        } catch (agendaError) {
+          console.error("Error syncing post schedule job:", agendaError);
+        }
+      }
+
+      return ApiResponse.success(withSyncState(post));
     } catch (error) {
       if (!isUnknownImageUrlsError(error)) throw error;
 
@@ -140,11 +283,19 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
     if (!existingPost) return ApiResponse.notFound("Post not found");
 
     if (existingPost.status === "published" && existingPost.linkedInUrn) {
-      const accessToken = session.accessToken;
-      if (!accessToken) {
-        return ApiResponse.unauthorized(
-          "LinkedIn session expired. Please sign in again before deleting this published post."
-        );
+      let accessToken: string;
+      try {
+        ({ accessToken } = await getLinkedInCredentials(session.user.id));
+      } catch (error) {
+        if (error instanceof LinkedInReauthRequiredError) {
+          return ApiResponse.unauthorized(
+            "LinkedIn session expired. Please sign in again before deleting this published post."
+          );
+        }
+        if (error instanceof LinkedInTokenRefreshError) {
+          return ApiResponse.error(error.message, 503);
+        }
+        throw error;
       }
 
       try {
@@ -163,6 +314,13 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
     }
 
     await prisma.post.delete({ where: { id } });
+    if (existingPost.scheduledFor || existingPost.status === "ready") {
+      try {
+        await deletePostScheduleJob(id);
+      } catch (agendaError) {
+        console.error("Error deleting post schedule job:", agendaError);
+      }
+    }
     await deleteLocalPostImages(
       Array.isArray((existingPost as { imageUrls?: string[] }).imageUrls)
         ? ((existingPost as { imageUrls?: string[] }).imageUrls as string[])
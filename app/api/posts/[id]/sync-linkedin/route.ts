@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { handleLinkedInError, syncPostToLinkedIn } from "@/lib/linkedin";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/posts/[id]/sync-linkedin - Push local edits of a published post to LinkedIn
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { id } = await params;
+    const result = await syncPostToLinkedIn(id, session.user.id);
+
+    return ApiResponse.success(result);
+  } catch (error) {
+    console.error("Error syncing post to LinkedIn:", error);
+    const { message, status } = handleLinkedInError(error);
+    return ApiResponse.error(message, status);
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock, getServerSession } = vi.hoisted(() => ({
+  prismaMock: {
+    user: { findUnique: vi.fn() },
+    llmSettings: { findFirst: vi.fn() },
+    llmParseStat: { upsert: vi.fn() },
+  },
+  getServerSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+vi.mock("@/lib/auth", () => ({ authOptions: {} }));
+vi.mock("next-auth", () => ({ getServerSession }));
+
+import { createFakeLlmProvider, setLlmProvider } from "@/lib/llm";
+import type { LlmCompletionParams } from "@/lib/llm";
+import { POST } from "./route";
+
+function assistEditRequest(body: Record<string, unknown>) {
+  return new NextRequest("http://localhost/api/posts/assist-edit", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/posts/assist-edit", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    getServerSession.mockResolvedValue({ user: { id: "user-1" } });
+    prismaMock.user.findUnique.mockResolvedValue({
+      preferredLanguage: "en",
+      githubUrl: "https://github.com/jane",
+    });
+    prismaMock.llmSettings.findFirst.mockResolvedValue(null);
+    prismaMock.llmParseStat.upsert.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    setLlmProvider(null);
+  });
+
+  it("returns the content rewritten by the provider", async () => {
+    setLlmProvider(createFakeLlmProvider());
+
+    const response = await POST(
+      assistEditRequest({ content: "Original post", instruction: "Make it shorter" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ content: "Post edited by the fake AI provider." });
+  });
+
+  it("sends the content, instruction and profile links in the prompt", async () => {
+    const requests: LlmCompletionParams[] = [];
+    setLlmProvider(
+      createFakeLlmProvider((params) => {
+        requests.push(params);
+        return JSON.stringify({ content: "  Shorter post  " });
+      })
+    );
+
+    const response = await POST(
+      assistEditRequest({ content: "Original post", instruction: "Add my GitHub link" })
+    );
+
+    expect(await response.json()).toEqual({ content: "Shorter post" });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].feature).toBe("editing");
+    const prompt = requests[0].messages[1].content;
+    expect(prompt).toContain("Language: English");
+    expect(prompt).toContain("Original post");
+    expect(prompt).toContain("Add my GitHub link");
+    expect(prompt).toContain("GitHub: https://github.com/jane");
+  });
+
+  it("answers 502 when the provider never returns valid JSON", async () => {
+    setLlmProvider(createFakeLlmProvider(() => "Sure! Here is your post."));
+
+    const response = await POST(
+      assistEditRequest({ content: "Original post", instruction: "Make it shorter" })
+    );
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: "Failed to parse AI edit response" });
+  });
+
+  it("rejects a request without instruction before calling the provider", async () => {
+    const complete = vi.fn();
+    setLlmProvider({ ...createFakeLlmProvider(), complete });
+
+    const response = await POST(assistEditRequest({ content: "Original post" }));
+
+    expect(response.status).toBe(400);
+    expect(complete).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,9 @@
 import { NextRequest } from "next/server";
 import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
 import { prisma } from "@/lib/prisma";
-import { getGroqClient, GROQ_MODEL } from "@/lib/groq";
+import { completeStructured, LlmOutputError, ResponseSchema } from "@/lib/llm-json";
+import { formatVoiceProfileSection } from "@/lib/voice-profile";
+import type { VoiceProfile } from "@/types/profile";
 
 interface AssistEditRequest {
   title?: string;
@@ -9,18 +11,18 @@ interface AssistEditRequest {
   instruction?: string;
 }
 
-function extractEditedContent(rawResponse: string): string | null {
-  try {
-    const match = rawResponse.match(/\{[\s\S]*\}/);
-    if (!match) return null;
-    const parsed = JSON.parse(match[0]) as { content?: string };
-    if (typeof parsed.content !== "string") return null;
-    const normalized = parsed.content.trim();
-    return normalized.length > 0 ? normalized : null;
-  } catch {
-    return null;
-  }
-}
+const editedPostSchema: ResponseSchema<string> = {
+  name: "assist_edit.content",
+  root: "object",
+  shape: '{"content":"..."}',
+  validate(value) {
+    const content = (value as { content?: unknown } | null)?.content;
+    if (typeof content !== "string" || !content.trim()) {
+      return { error: "\"content\" must be a non-empty string" };
+    }
+    return { value: content.trim() };
+  },
+};
 
 // POST /api/posts/assist-edit - AI assist to rewrite post content with user instruction
 export async function POST(request: NextRequest) {
@@ -48,12 +50,14 @@ export async function POST(request: NextRequest) {
         githubUrl: true,
         portfolioUrl: true,
         linkedInProfileUrl: true,
+        voiceProfile: true,
       },
     })) as {
       preferredLanguage?: string | null;
       githubUrl?: string | null;
       portfolioUrl?: string | null;
       linkedInProfileUrl?: string | null;
+      voiceProfile?: VoiceProfile | null;
     } | null;
 
     const language = user?.preferredLanguage === "en" ? "English" : "French";
@@ -92,30 +96,29 @@ User instruction:
 ${normalizedInstruction}
 
 Available profile links:
-${profileLinks || "No profile links available"}`;
+${profileLinks || "No profile links available"}${
+  user?.voiceProfile
+    ? `\n\n${formatVoiceProfileSection(user.voiceProfile, { maxExamples: 2 })}`
+    : ""
+}`;
 
-    const completion = await getGroqClient().chat.completions.create({
-      model: GROQ_MODEL,
+    const editedContent = await completeStructured("editing", editedPostSchema, {
       messages: [
         { role: "system", content: "Return valid JSON only." },
         { role: "user", content: prompt },
       ],
       temperature: 0.3,
-      max_tokens: 1800,
+      maxTokens: 1800,
     });
 
-    const rawResponse = completion.choices[0]?.message?.content || "";
-    const editedContent = extractEditedContent(rawResponse);
-
-    if (!editedContent) {
-      return ApiResponse.error("Failed to parse AI edit response", 502);
-    }
-
     return ApiResponse.success({
       content: editedContent,
     });
   } catch (error) {
     console.error("Error assisting post edit:", error);
+    if (error instanceof LlmOutputError) {
+      return ApiResponse.error("Failed to parse AI edit response", 502);
+    }
     return ApiResponse.error("Failed to edit post with AI");
   }
 }
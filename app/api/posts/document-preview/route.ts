@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { renderSlidesToPdf } from "@/lib/post-document";
+import { buildSlidesFromTipsList, normalizeSlides } from "@/lib/post-slides";
+
+export const runtime = "nodejs";
+
+// POST /api/posts/document-preview - Render the PDF carousel of a (possibly unsaved) post
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { title = "", content = "", slides } = await request.json();
+
+    let documentSlides = normalizeSlides(slides);
+    if (documentSlides.length === 0) {
+      documentSlides = buildSlidesFromTipsList(String(title), String(content));
+    }
+    if (documentSlides.length === 0) {
+      return ApiResponse.badRequest(
+        "A document post needs a list of at least two tips to build its slides"
+      );
+    }
+
+    const pdf = await renderSlidesToPdf(String(title), documentSlides);
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": 'inline; filename="carousel.pdf"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering document preview:", error);
+    return ApiResponse.error("Failed to render document preview");
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+
+const MAX_ATTEMPTS_RETURNED = 100;
+
+// GET /api/posts/publish-attempts - Automatic publication history (optionally for one post)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getAuthenticatedSession();
+
+    if (!session) {
+      return ApiResponse.unauthorized();
+    }
+
+    const postId = request.nextUrl.searchParams.get("postId");
+
+    const attempts = await prisma.publishAttempt.findMany({
+      where: {
+        userId: session.user.id,
+        ...(postId && { postId }),
+      },
+      include: {
+        post: { select: { title: true, status: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: MAX_ATTEMPTS_RETURNED,
+    });
+
+    return ApiResponse.success(attempts);
+  } catch (error) {
+    console.error("Error fetching publish attempts:", error);
+    return ApiResponse.error("Failed to fetch publish attempts");
+  }
+}
@@ -5,6 +5,15 @@ import {
   getAuthenticatedSession,
   validateRequired,
 } from "@/lib/api-utils";
+import { syncPostScheduleJob } from "@/lib/agenda";
+import { withSyncState } from "@/lib/linkedin";
+import { buildSlidesFromTipsList, normalizeSlides } from "@/lib/post-slides";
+import { normalizePoll, validatePoll } from "@/lib/post-poll";
+import { isOwnPublishingTarget } from "@/lib/publishing-targets";
+import { normalizeQueueName } from "@/lib/post-queues";
+import { normalizeHashtags } from "@/lib/hashtags";
+import { normalizeRevisionSource, recordGeneratedPostRevisions } from "@/lib/post-revisions";
+import { FIRST_COMMENT_MAX_LENGTH } from "@/types/post";
 
 function isUnknownImageUrlsError(error: unknown): boolean {
   if (!(error instanceof Error)) return false;
@@ -28,7 +37,7 @@ export async function GET() {
       orderBy: { createdAt: "desc" },
     });
 
-    return ApiResponse.success(posts);
+    return ApiResponse.success(posts.map(withSyncState));
   } catch (error) {
     console.error("Error fetching posts:", error);
     return ApiResponse.error("Failed to fetch posts");
@@ -51,17 +60,97 @@ export async function POST(request: NextRequest) {
       return ApiResponse.badRequest(validationError);
     }
 
-    const { title, content, status = "draft", imageUrl, imageUrls } = body;
+    const {
+      title,
+      content,
+      status = "draft",
+      imageUrl,
+      imageUrls,
+      scheduledFor,
+      generationStyle,
+      generationThemes,
+      hashtags,
+      format,
+      slides,
+      poll,
+      firstComment,
+      targetId,
+      queue,
+      revisionSource,
+      originalDraft,
+    } = body;
     const normalizedImageUrls = Array.isArray(imageUrls)
       ? imageUrls.filter((item: unknown) => typeof item === "string" && item.trim())
       : [];
 
+    let scheduledDate: Date | null = null;
+    if (scheduledFor) {
+      scheduledDate = new Date(scheduledFor);
+      if (Number.isNaN(scheduledDate.getTime())) {
+        return ApiResponse.badRequest("Invalid scheduledFor date");
+      }
+      if (scheduledDate.getTime() <= Date.now()) {
+        return ApiResponse.badRequest("scheduledFor must be in the future");
+      }
+    }
+
+    let documentSlides: ReturnType<typeof normalizeSlides> = [];
+    if (format === "document") {
+      documentSlides = normalizeSlides(slides);
+      if (documentSlides.length === 0) {
+        documentSlides = buildSlidesFromTipsList(title, content);
+      }
+      if (documentSlides.length === 0) {
+        return ApiResponse.badRequest(
+          "A document post needs a list of at least two tips to build its slides"
+        );
+      }
+    }
+
+    const postPoll = format === "poll" ? normalizePoll(poll) : null;
+    if (format === "poll") {
+      const pollError = postPoll ? validatePoll(postPoll) : "Poll question is required";
+      if (pollError) {
+        return ApiResponse.badRequest(pollError);
+      }
+    }
+
+    const normalizedFirstComment =
+      typeof firstComment === "string" ? firstComment.trim() : "";
+    if (normalizedFirstComment.length > FIRST_COMMENT_MAX_LENGTH) {
+      return ApiResponse.badRequest(
+        `First comment must be at most ${FIRST_COMMENT_MAX_LENGTH} characters`
+      );
+    }
+
+    if (targetId && !(await isOwnPublishingTarget(targetId, session.user.id))) {
+      return ApiResponse.badRequest("Unknown publishing target");
+    }
+
+    const postQueue = normalizeQueueName(queue);
+    const postHashtags = normalizeHashtags(hashtags);
+
     const createData = {
       title,
       content,
       status,
+      ...(format === "document" && { format, slides: documentSlides }),
+      ...(postPoll && { format: "poll", poll: postPoll }),
+      ...(normalizedFirstComment && { firstComment: normalizedFirstComment }),
+      ...(targetId && { targetId }),
+      ...(postQueue && { queue: postQueue }),
+      ...(postHashtags.length > 0 && { hashtags: postHashtags }),
+      ...(scheduledDate && { scheduledFor: scheduledDate }),
       ...(normalizedImageUrls.length > 0 && { imageUrls: normalizedImageUrls }),
       ...(imageUrl && { imageUrl }),
+      ...(typeof generationStyle === "string" && generationStyle.trim() && {
+        generationStyle: generationStyle.trim(),
+      }),
+      ...(Array.isArray(generationThemes) && {
+        generationThemes: generationThemes
+          .filter((item: unknown): item is string => typeof item === "string" && Boolean(item.trim()))
+          .map((item: string) => item.trim()),
+      }),
       userId: session.user.id,
     };
 
@@ -69,6 +158,27 @@ export async function POST(request: NextRequest) {
       const post = await prisma.post.create({
         data: createData,
       });
+
+      // First version; generated posts rewritten for specificity also keep the generator's text
+      try {
+        await recordGeneratedPostRevisions(
+          post,
+          normalizeRevisionSource(revisionSource),
+          typeof originalDraft?.title === "string" && typeof originalDraft?.content === "string"
+            ? { title: originalDraft.title, content: originalDraft.content }
+            : null
+        );
+      } catch (revisionError) {
+        console.error("Error recording post revision:", revisionError);
+      }
+
+      if (post.scheduledFor) {
+        try {
+          await syncPostScheduleJob(post.id);
+        } catch (agendaError) {
+          console.error("Error syncing post schedule job:", agendaError);
+        }
+      }
       return ApiResponse.created(post);
     } catch (error) {
       if (!isUnknownImageUrlsError(error)) throw error;
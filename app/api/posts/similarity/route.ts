@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { findSimilarPosts } from "@/lib/post-similarity";
+
+interface SimilarityRequest {
+  content?: string;
+  /** Post being edited, not compared with itself */
+  excludePostId?: string;
+}
+
+// POST /api/posts/similarity - Find existing posts too close to a text before it is saved
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { content, excludePostId }: SimilarityRequest = await request.json();
+    if (typeof content !== "string" || !content.trim()) {
+      return ApiResponse.badRequest("Post content is required");
+    }
+
+    const similarPosts = await findSimilarPosts(session.user.id, content, {
+      ...(typeof excludePostId === "string" && excludePostId && { excludePostId }),
+    });
+
+    return ApiResponse.success({ similarPosts });
+  } catch (error) {
+    console.error("Error checking post similarity:", error);
+    return ApiResponse.error("Failed to check post similarity");
+  }
+}
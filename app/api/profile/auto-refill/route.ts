@@ -0,0 +1,122 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { AUTO_REFILL_DEFAULTS, AUTO_REFILL_LIMITS } from "@/lib/auto-refill";
+import type { AutoRefillSettings } from "@/types/profile";
+
+const AUTO_REFILL_SELECT = {
+  autoRefillEnabledAt: true,
+  autoRefillThreshold: true,
+  autoRefillLeadDays: true,
+  autoRefillCount: true,
+  autoRefillPresetId: true,
+  lastAutoRefillAt: true,
+} as const;
+
+type AutoRefillRecord = {
+  autoRefillEnabledAt: Date | null;
+  autoRefillThreshold: number | null;
+  autoRefillLeadDays: number | null;
+  autoRefillCount: number | null;
+  autoRefillPresetId: string | null;
+  lastAutoRefillAt: Date | null;
+};
+
+function toSettings(user: AutoRefillRecord): AutoRefillSettings {
+  return {
+    enabled: Boolean(user.autoRefillEnabledAt),
+    threshold: user.autoRefillThreshold ?? AUTO_REFILL_DEFAULTS.threshold,
+    leadDays: user.autoRefillLeadDays ?? AUTO_REFILL_DEFAULTS.leadDays,
+    count: user.autoRefillCount ?? AUTO_REFILL_DEFAULTS.count,
+    presetId: user.autoRefillPresetId,
+    lastAutoRefillAt: user.lastAutoRefillAt?.toISOString() ?? null,
+  };
+}
+
+function isInRange(value: unknown, limits: { min: number; max: number }): value is number {
+  return Number.isInteger(value) && (value as number) >= limits.min && (value as number) <= limits.max;
+}
+
+// GET /api/profile/auto-refill - Get the queue auto-refill settings
+export async function GET() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: AUTO_REFILL_SELECT,
+    });
+
+    if (!user) return ApiResponse.notFound("User not found");
+
+    return ApiResponse.success(toSettings(user));
+  } catch (error) {
+    console.error("Error fetching auto-refill settings:", error);
+    return ApiResponse.error("Failed to fetch auto-refill settings");
+  }
+}
+
+// PUT /api/profile/auto-refill - Update the queue auto-refill settings
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const body = await request.json();
+    const { enabled, threshold, leadDays, count, presetId } = body;
+
+    if (typeof enabled !== "boolean") {
+      return ApiResponse.badRequest("enabled must be a boolean");
+    }
+    if (!isInRange(threshold, AUTO_REFILL_LIMITS.threshold)) {
+      return ApiResponse.badRequest(
+        `threshold must be between ${AUTO_REFILL_LIMITS.threshold.min} and ${AUTO_REFILL_LIMITS.threshold.max}`
+      );
+    }
+    if (!isInRange(leadDays, AUTO_REFILL_LIMITS.leadDays)) {
+      return ApiResponse.badRequest(
+        `leadDays must be between ${AUTO_REFILL_LIMITS.leadDays.min} and ${AUTO_REFILL_LIMITS.leadDays.max}`
+      );
+    }
+    if (!isInRange(count, AUTO_REFILL_LIMITS.count)) {
+      return ApiResponse.badRequest(
+        `count must be between ${AUTO_REFILL_LIMITS.count.min} and ${AUTO_REFILL_LIMITS.count.max}`
+      );
+    }
+    if (presetId !== undefined && presetId !== null && typeof presetId !== "string") {
+      return ApiResponse.badRequest("presetId must be a string");
+    }
+    if (presetId) {
+      const preset = await prisma.generationPreset.findFirst({
+        where: { id: presetId, userId: session.user.id },
+        select: { id: true },
+      });
+      if (!preset) return ApiResponse.badRequest("Generation preset not found");
+    }
+
+    const current = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { autoRefillEnabledAt: true },
+    });
+    if (!current) return ApiResponse.notFound("User not found");
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        // Keep the original opt-in date when the settings are only edited
+        autoRefillEnabledAt: enabled ? current.autoRefillEnabledAt || new Date() : null,
+        autoRefillThreshold: threshold,
+        autoRefillLeadDays: leadDays,
+        autoRefillCount: count,
+        autoRefillPresetId: presetId || null,
+      },
+      select: AUTO_REFILL_SELECT,
+    });
+
+    return ApiResponse.success(toSettings(user));
+  } catch (error) {
+    console.error("Error updating auto-refill settings:", error);
+    return ApiResponse.error("Failed to update auto-refill settings");
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { DIGEST_DEFAULTS, createUnsubscribeToken, isValidDigestTime } from "@/lib/email-digest";
+import { isMailConfigured } from "@/lib/mailer";
+import type { EmailDigestSettings } from "@/types/profile";
+
+const DIGEST_SELECT = {
+  email: true,
+  digestEnabledAt: true,
+  digestTime: true,
+  digestTimezone: true,
+  digestUnsubscribeToken: true,
+  lastDigestSentAt: true,
+} as const;
+
+type DigestRecord = {
+  email: string | null;
+  digestEnabledAt: Date | null;
+  digestTime: string | null;
+  digestTimezone: string | null;
+  lastDigestSentAt: Date | null;
+};
+
+function toSettings(user: DigestRecord): EmailDigestSettings {
+  return {
+    enabled: Boolean(user.digestEnabledAt),
+    time: user.digestTime || DIGEST_DEFAULTS.time,
+    timezone: user.digestTimezone || DIGEST_DEFAULTS.timezone,
+    email: user.email,
+    lastDigestSentAt: user.lastDigestSentAt?.toISOString() ?? null,
+    mailConfigured: isMailConfigured(),
+  };
+}
+
+function isValidTimezone(timezone: string): boolean {
+  return Intl.supportedValuesOf("timeZone").includes(timezone);
+}
+
+// GET /api/profile/email-digest - Get the daily email digest settings
+export async function GET() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: DIGEST_SELECT,
+    });
+
+    if (!user) return ApiResponse.notFound("User not found");
+
+    return ApiResponse.success(toSettings(user));
+  } catch (error) {
+    console.error("Error fetching email digest settings:", error);
+    return ApiResponse.error("Failed to fetch email digest settings");
+  }
+}
+
+// PUT /api/profile/email-digest - Update the daily email digest settings
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { enabled, time, timezone } = await request.json();
+
+    if (typeof enabled !== "boolean") {
+      return ApiResponse.badRequest("enabled must be a boolean");
+    }
+    if (!isValidDigestTime(time)) {
+      return ApiResponse.badRequest("time must use the HH:mm format");
+    }
+    if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+      return ApiResponse.badRequest("Invalid timezone");
+    }
+
+    const current = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: DIGEST_SELECT,
+    });
+    if (!current) return ApiResponse.notFound("User not found");
+
+    if (enabled && !current.email) {
+      return ApiResponse.badRequest("Your account has no email address");
+    }
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        // Keep the original opt-in date when the settings are only edited
+        digestEnabledAt: enabled ? current.digestEnabledAt || new Date() : null,
+        digestTime: time,
+        digestTimezone: timezone,
+        ...(enabled && !current.digestUnsubscribeToken && {
+          digestUnsubscribeToken: createUnsubscribeToken(),
+        }),
+      },
+      select: DIGEST_SELECT,
+    });
+
+    return ApiResponse.success(toSettings(user));
+  } catch (error) {
+    console.error("Error updating email digest settings:", error);
+    return ApiResponse.error("Failed to update email digest settings");
+  }
+}
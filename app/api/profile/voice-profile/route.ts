@@ -0,0 +1,35 @@
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { getVoiceProfileStatus, MIN_VOICE_POSTS, refreshVoiceProfile } from "@/lib/voice-profile";
+
+// GET /api/profile/voice-profile - Get the writing voice learned from published posts
+export async function GET() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    return ApiResponse.success(await getVoiceProfileStatus(session.user.id));
+  } catch (error) {
+    console.error("Error fetching voice profile:", error);
+    return ApiResponse.error("Failed to fetch voice profile");
+  }
+}
+
+// POST /api/profile/voice-profile - Rebuild the voice profile from the latest published posts
+export async function POST() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const profile = await refreshVoiceProfile(session.user.id);
+    if (!profile) {
+      return ApiResponse.badRequest(
+        `At least ${MIN_VOICE_POSTS} published posts are needed to learn your voice`
+      );
+    }
+
+    return ApiResponse.success(await getVoiceProfileStatus(session.user.id));
+  } catch (error) {
+    console.error("Error refreshing voice profile:", error);
+    return ApiResponse.error("Failed to refresh voice profile");
+  }
+}
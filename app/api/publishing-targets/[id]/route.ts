@@ -0,0 +1,100 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { parseOrganizationUrn, validatePublishingTarget } from "@/lib/publishing-targets";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/publishing-targets/[id] - Update a publishing target
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { id } = await params;
+    const existing = await prisma.publishingTarget.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) return ApiResponse.notFound("Publishing target not found");
+
+    const { name, type, organization, visibility } = await request.json();
+
+    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+      return ApiResponse.badRequest("Name is required");
+    }
+
+    const nextType = type ?? existing.type;
+    const organizationUrn =
+      nextType !== "organization"
+        ? null
+        : typeof organization === "string"
+          ? parseOrganizationUrn(organization)
+          : existing.organizationUrn;
+    const nextVisibility = visibility ?? existing.visibility;
+
+    const validationError = validatePublishingTarget({
+      type: nextType,
+      organizationUrn,
+      visibility: nextVisibility,
+    });
+    if (validationError) {
+      return ApiResponse.badRequest(validationError);
+    }
+
+    const target = await prisma.publishingTarget.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        type: nextType,
+        organizationUrn,
+        visibility: nextVisibility,
+      },
+    });
+
+    return ApiResponse.success(target);
+  } catch (error) {
+    console.error("Error updating publishing target:", error);
+    return ApiResponse.error("Failed to update publishing target");
+  }
+}
+
+// DELETE /api/publishing-targets/[id] - Delete a target no unpublished post or schedule uses
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { id } = await params;
+    const existing = await prisma.publishingTarget.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) return ApiResponse.notFound("Publishing target not found");
+
+    // Moving those to the profile would publish company content as the member:
+    // they must be given another target first. Published posts keep the id.
+    const [postCount, scheduleCount] = await Promise.all([
+      prisma.post.count({
+        where: { userId: session.user.id, targetId: id, status: { not: "published" } },
+      }),
+      prisma.schedule.count({ where: { userId: session.user.id, targetId: id } }),
+    ]);
+    if (postCount > 0 || scheduleCount > 0) {
+      return ApiResponse.error(
+        `This target is still used by ${postCount} unpublished post(s) and ${scheduleCount} schedule(s). ` +
+          "Pick another target for them, then delete it.",
+        409
+      );
+    }
+
+    await prisma.publishingTarget.delete({ where: { id } });
+
+    return ApiResponse.success({ deleted: true });
+  } catch (error) {
+    console.error("Error deleting publishing target:", error);
+    return ApiResponse.error("Failed to delete publishing target");
+  }
+}
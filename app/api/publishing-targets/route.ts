@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
+import { parseOrganizationUrn, validatePublishingTarget } from "@/lib/publishing-targets";
+
+// GET /api/publishing-targets - List the user's publishing targets
+export async function GET() {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const targets = await prisma.publishingTarget.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return ApiResponse.success(targets);
+  } catch (error) {
+    console.error("Error fetching publishing targets:", error);
+    return ApiResponse.error("Failed to fetch publishing targets");
+  }
+}
+
+// POST /api/publishing-targets - Register a profile or company page target
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getAuthenticatedSession();
+    if (!session) return ApiResponse.unauthorized();
+
+    const { name, type, organization, visibility = "PUBLIC" } = await request.json();
+
+    if (typeof name !== "string" || !name.trim()) {
+      return ApiResponse.badRequest("Name is required");
+    }
+
+    const organizationUrn =
+      type === "organization" && typeof organization === "string"
+        ? parseOrganizationUrn(organization)
+        : null;
+
+    const validationError = validatePublishingTarget({ type, organizationUrn, visibility });
+    if (validationError) {
+      return ApiResponse.badRequest(validationError);
+    }
+
+    const target = await prisma.publishingTarget.create({
+      data: {
+        userId: session.user.id,
+        name: name.trim(),
+        type,
+        organizationUrn,
+        visibility,
+      },
+    });
+
+    return ApiResponse.created(target);
+  } catch (error) {
+    console.error("Error creating publishing target:", error);
+    return ApiResponse.error("Failed to create publishing target");
+  }
+}
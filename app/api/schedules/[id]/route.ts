@@ -2,14 +2,29 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
 import { syncScheduleJobs, deleteScheduleJobs } from "@/lib/agenda";
+import { isOwnPublishingTarget } from "@/lib/publishing-targets";
+import { normalizeQueueName } from "@/lib/post-queues";
+import {
+  MAX_INTERVAL_WEEKS,
+  normalizeDaysOfWeek,
+  normalizeExcludedDates,
+  toZonedDateKey,
+  withUpcomingRuns,
+} from "@/lib/schedule-rules";
 
 interface UpdateScheduleRequest {
   name?: string;
+  /** @deprecated Single weekday, use daysOfWeek */
   dayOfWeek?: number;
+  daysOfWeek?: number[];
   times?: string[];
   timezone?: string;
   isRecurring?: boolean;
   isActive?: boolean;
+  intervalWeeks?: number;
+  excludedDates?: string[];
+  targetId?: string | null;
+  queue?: string | null;
 }
 
 function isValidTimezone(timezone: string): boolean {
@@ -41,7 +56,7 @@ export async function GET(
       return ApiResponse.forbidden("Access denied");
     }
 
-    return ApiResponse.success(schedule);
+    return ApiResponse.success(withUpcomingRuns(schedule));
   } catch (error) {
     console.error("Error fetching schedule:", error);
     return ApiResponse.error("Failed to fetch schedule");
@@ -75,11 +90,37 @@ export async function PUT(
     }
 
     const body: UpdateScheduleRequest = await request.json();
-    const { name, dayOfWeek, times, timezone, isRecurring, isActive } = body;
+    const {
+      name,
+      dayOfWeek,
+      times,
+      timezone,
+      isRecurring,
+      isActive,
+      intervalWeeks,
+      excludedDates,
+      targetId,
+      queue,
+    } = body;
 
     // Validation
-    if (dayOfWeek !== undefined && (dayOfWeek < 0 || dayOfWeek > 6)) {
-      return ApiResponse.badRequest("Invalid day of week (0-6)");
+    const daysInput = body.daysOfWeek ?? (dayOfWeek !== undefined ? [dayOfWeek] : undefined);
+    const daysOfWeek = daysInput !== undefined ? normalizeDaysOfWeek(daysInput) : undefined;
+    if (daysOfWeek === null) {
+      return ApiResponse.badRequest("Select at least one valid day of week (0-6)");
+    }
+
+    if (
+      intervalWeeks !== undefined &&
+      (!Number.isInteger(intervalWeeks) || intervalWeeks < 1 || intervalWeeks > MAX_INTERVAL_WEEKS)
+    ) {
+      return ApiResponse.badRequest(`Week interval must be between 1 and ${MAX_INTERVAL_WEEKS}`);
+    }
+
+    const normalizedExcludedDates =
+      excludedDates !== undefined ? normalizeExcludedDates(excludedDates) : undefined;
+    if (normalizedExcludedDates === null) {
+      return ApiResponse.badRequest("Invalid exclusion dates (YYYY-MM-DD)");
     }
 
     if (times !== undefined) {
@@ -98,16 +139,29 @@ export async function PUT(
       return ApiResponse.badRequest("Invalid timezone");
     }
 
+    if (targetId && !(await isOwnPublishingTarget(targetId, session.user.id))) {
+      return ApiResponse.badRequest("Unknown publishing target");
+    }
+
     // Update the schedule
     const schedule = await prisma.schedule.update({
       where: { id },
       data: {
         ...(name !== undefined && { name: name.trim() }),
-        ...(dayOfWeek !== undefined && { dayOfWeek }),
+        ...(daysOfWeek !== undefined && { dayOfWeek: daysOfWeek[0], daysOfWeek }),
         ...(times !== undefined && { times }),
         ...(timezone !== undefined && { timezone }),
         ...(isRecurring !== undefined && { isRecurring }),
         ...(isActive !== undefined && { isActive }),
+        // A new week interval starts counting from the current week
+        ...(intervalWeeks !== undefined &&
+          intervalWeeks !== existingSchedule.intervalWeeks && {
+            intervalWeeks,
+            intervalAnchor: toZonedDateKey(new Date(), timezone ?? existingSchedule.timezone),
+          }),
+        ...(normalizedExcludedDates !== undefined && { excludedDates: normalizedExcludedDates }),
+        ...(targetId !== undefined && { targetId: targetId || null }),
+        ...(queue !== undefined && { queue: normalizeQueueName(queue) }),
       },
     });
 
@@ -118,7 +172,7 @@ export async function PUT(
       console.error("Error syncing agenda jobs:", agendaError);
     }
 
-    return ApiResponse.success(schedule);
+    return ApiResponse.success(withUpcomingRuns(schedule));
   } catch (error) {
     console.error("Error updating schedule:", error);
     return ApiResponse.error("Failed to update schedule");
@@ -2,13 +2,28 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
 import { syncScheduleJobs } from "@/lib/agenda";
+import { isOwnPublishingTarget } from "@/lib/publishing-targets";
+import { getQueueForecasts, normalizeQueueName } from "@/lib/post-queues";
+import {
+  MAX_INTERVAL_WEEKS,
+  normalizeDaysOfWeek,
+  normalizeExcludedDates,
+  toZonedDateKey,
+  withUpcomingRuns,
+} from "@/lib/schedule-rules";
 
 interface CreateScheduleRequest {
   name: string;
-  dayOfWeek: number;
+  /** @deprecated Single weekday, use daysOfWeek */
+  dayOfWeek?: number;
+  daysOfWeek?: number[];
   times: string[];
   timezone: string;
   isRecurring?: boolean;
+  intervalWeeks?: number;
+  excludedDates?: string[];
+  targetId?: string | null;
+  queue?: string | null;
 }
 
 function isValidTimezone(timezone: string): boolean {
@@ -28,7 +43,13 @@ export async function GET() {
       orderBy: [{ dayOfWeek: "asc" }, { createdAt: "asc" }],
     });
 
-    return ApiResponse.success(schedules);
+    // Active recurring schedules drain their queues; paused ones have no upcoming runs
+    const withRuns = schedules.map(withUpcomingRuns);
+    const forecasts = await getQueueForecasts(session.user.id, withRuns);
+
+    return ApiResponse.success(
+      withRuns.map((schedule) => ({ ...schedule, ...forecasts.get(schedule.id) }))
+    );
   } catch (error) {
     console.error("Error fetching schedules:", error);
     return ApiResponse.error("Failed to fetch schedules");
@@ -44,15 +65,35 @@ export async function POST(request: NextRequest) {
     }
 
     const body: CreateScheduleRequest = await request.json();
-    const { name, dayOfWeek, times, timezone, isRecurring = true } = body;
+    const {
+      name,
+      dayOfWeek,
+      times,
+      timezone,
+      isRecurring = true,
+      intervalWeeks = 1,
+      excludedDates = [],
+      targetId,
+      queue,
+    } = body;
 
     // Validation
     if (!name?.trim()) {
       return ApiResponse.badRequest("Name is required");
     }
 
-    if (dayOfWeek < 0 || dayOfWeek > 6) {
-      return ApiResponse.badRequest("Invalid day of week (0-6)");
+    const daysOfWeek = normalizeDaysOfWeek(body.daysOfWeek ?? [dayOfWeek]);
+    if (!daysOfWeek) {
+      return ApiResponse.badRequest("Select at least one valid day of week (0-6)");
+    }
+
+    if (!Number.isInteger(intervalWeeks) || intervalWeeks < 1 || intervalWeeks > MAX_INTERVAL_WEEKS) {
+      return ApiResponse.badRequest(`Week interval must be between 1 and ${MAX_INTERVAL_WEEKS}`);
+    }
+
+    const normalizedExcludedDates = normalizeExcludedDates(excludedDates);
+    if (!normalizedExcludedDates) {
+      return ApiResponse.badRequest("Invalid exclusion dates (YYYY-MM-DD)");
     }
 
     if (!times?.length) {
@@ -74,14 +115,25 @@ export async function POST(request: NextRequest) {
       return ApiResponse.badRequest("Invalid timezone");
     }
 
+    if (targetId && !(await isOwnPublishingTarget(targetId, session.user.id))) {
+      return ApiResponse.badRequest("Unknown publishing target");
+    }
+
     // Create the schedule
     const schedule = await prisma.schedule.create({
       data: {
         name: name.trim(),
-        dayOfWeek,
+        dayOfWeek: daysOfWeek[0],
+        daysOfWeek,
         times,
         timezone,
         isRecurring,
+        intervalWeeks,
+        // The current week is the first active one
+        intervalAnchor: toZonedDateKey(new Date(), timezone),
+        excludedDates: normalizedExcludedDates,
+        ...(targetId && { targetId }),
+        queue: normalizeQueueName(queue),
         userId: session.user.id,
       },
     });
@@ -94,7 +146,7 @@ export async function POST(request: NextRequest) {
       // Don't fail the request, just log the error
     }
 
-    return ApiResponse.success(schedule, 201);
+    return ApiResponse.success(withUpcomingRuns(schedule), 201);
   } catch (error) {
     console.error("Error creating schedule:", error);
     return ApiResponse.error("Failed to create schedule");
@@ -1,6 +1,6 @@
 import { prisma } from "@/lib/prisma";
 import { ApiResponse, getAuthenticatedSession } from "@/lib/api-utils";
-import { getGroqClient, GROQ_MODEL } from "@/lib/groq";
+import { completeStructured, LlmOutputError, ResponseSchema } from "@/lib/llm-json";
 
 interface PostIdea {
   hook: string;
@@ -73,37 +73,30 @@ IMPORTANT: Return ONLY valid JSON, no markdown, no comments. Include exactly 3-5
 Generate the ideas now:`;
 }
 
-function parseIdeas(content: string): PostIdea[] {
-  try {
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return parsed.map(
-        (idea: {
-          hook?: string;
-          description?: string;
-          type?: string;
-          hashtags?: string[];
-        }) => ({
-          hook: idea.hook || "Post idea",
-          description: idea.description || "",
-          type: idea.type || "text",
-          hashtags: Array.isArray(idea.hashtags) ? idea.hashtags : [],
-        })
-      );
+const ideasSchema: ResponseSchema<PostIdea[]> = {
+  name: "suggest_ideas.ideas",
+  root: "array",
+  shape: '[{"hook":"...","description":"...","type":"text","hashtags":["#...","#...","#..."]}]',
+  validate(value) {
+    if (!Array.isArray(value) || value.length === 0) {
+      return { error: "expected a non-empty array of ideas" };
     }
-    throw new Error("No JSON array found");
-  } catch {
-    return [
-      {
-        hook: content.slice(0, 100),
-        description: content,
-        type: "text",
-        hashtags: [],
-      },
-    ];
-  }
-}
+    const ideas = value.filter(
+      (idea): idea is Record<string, unknown> => typeof idea === "object" && idea !== null
+    );
+    if (ideas.length === 0) return { error: "every idea must be an object" };
+    return {
+      value: ideas.map((idea) => ({
+        hook: typeof idea.hook === "string" && idea.hook ? idea.hook : "Post idea",
+        description: typeof idea.description === "string" ? idea.description : "",
+        type: typeof idea.type === "string" && idea.type ? idea.type : "text",
+        hashtags: Array.isArray(idea.hashtags)
+          ? idea.hashtags.filter((tag): tag is string => typeof tag === "string")
+          : [],
+      })),
+    };
+  },
+};
 
 // GET /api/suggest-ideas
 export async function GET() {
@@ -127,27 +120,37 @@ export async function GET() {
 
     const prompt = buildIdeasPrompt(user || {});
 
-    const completion = await getGroqClient().chat.completions.create({
-      model: GROQ_MODEL,
-      messages: [
+    let ideas: PostIdea[];
+    try {
+      ideas = await completeStructured("ideas", ideasSchema, {
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an expert LinkedIn content strategist. Always respond with valid JSON.",
+          },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.9,
+        maxTokens: 3000,
+      });
+    } catch (error) {
+      if (!(error instanceof LlmOutputError)) throw error;
+      const content = error.raw;
+      if (!content) {
+        return ApiResponse.error("No response from AI");
+      }
+      // Not JSON even after the repair: keep the text as a single idea
+      ideas = [
         {
-          role: "system",
-          content:
-            "You are an expert LinkedIn content strategist. Always respond with valid JSON.",
+          hook: content.slice(0, 100),
+          description: content,
+          type: "text",
+          hashtags: [],
         },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.9,
-      max_tokens: 3000,
-    });
-
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      return ApiResponse.error("No response from AI");
+      ];
     }
 
-    const ideas = parseIdeas(responseContent);
-
     return ApiResponse.success({
       ideas,
       generatedAt: new Date().toISOString(),
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect } from "react";
+import {
+  Card,
+  Button,
+  Form,
+  InputNumber,
+  Select,
+  Switch,
+  Space,
+  Typography,
+  message,
+} from "antd";
+import { SyncOutlined } from "@ant-design/icons";
+import { useLocale, useTranslations } from "next-intl";
+import { useAutoRefillSettings, AutoRefillFormData } from "@/hooks/useAutoRefillSettings";
+import { useGenerationPresets } from "@/hooks/useGenerationPresets";
+
+const { Text } = Typography;
+
+// Mirrors AUTO_REFILL_LIMITS in lib/auto-refill.ts (server-only module)
+const LIMITS = {
+  threshold: { min: 1, max: 10 },
+  leadDays: { min: 1, max: 14 },
+  count: { min: 1, max: 5 },
+};
+
+/**
+ * Settings card for the queue auto-refill: drafts are generated for review
+ * when a schedule is about to run with too few ready posts
+ */
+export function AutoRefillCard() {
+  const t = useTranslations("autoRefill");
+  const locale = useLocale();
+  const [form] = Form.useForm<AutoRefillFormData>();
+  const [messageApi, contextHolder] = message.useMessage();
+  const { settings, isLoading, isSaving, updateSettings } = useAutoRefillSettings();
+  const { presets, isLoading: isLoadingPresets } = useGenerationPresets();
+  const enabled = Form.useWatch("enabled", form);
+
+  useEffect(() => {
+    if (settings) {
+      form.setFieldsValue(settings);
+    }
+  }, [settings, form]);
+
+  const handleSubmit = async (values: AutoRefillFormData) => {
+    const result = await updateSettings({ ...values, presetId: values.presetId ?? null });
+    if (result.success) {
+      messageApi.success(t("saved"));
+    } else {
+      messageApi.error(result.error || t("saveError"));
+    }
+  };
+
+  return (
+    <Card
+      loading={isLoading}
+      title={
+        <Space>
+          <SyncOutlined />
+          <span>{t("title")}</span>
+        </Space>
+      }
+    >
+      {contextHolder}
+      <Text type="secondary" className="block mb-4">
+        {t("description")}
+      </Text>
+
+      <Form form={form} layout="vertical" onFinish={handleSubmit}>
+        <Form.Item name="enabled" label={t("enabled")} valuePropName="checked">
+          <Switch />
+        </Form.Item>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+          <Form.Item name="threshold" label={t("threshold")} extra={t("thresholdHelp")}>
+            <InputNumber {...LIMITS.threshold} precision={0} disabled={!enabled} className="w-full" />
+          </Form.Item>
+          <Form.Item name="leadDays" label={t("leadDays")} extra={t("leadDaysHelp")}>
+            <InputNumber {...LIMITS.leadDays} precision={0} disabled={!enabled} className="w-full" />
+          </Form.Item>
+          <Form.Item name="count" label={t("count")} extra={t("countHelp")}>
+            <InputNumber {...LIMITS.count} precision={0} disabled={!enabled} className="w-full" />
+          </Form.Item>
+        </div>
+
+        <Form.Item name="presetId" label={t("preset")} extra={t("presetHelp")}>
+          <Select
+            allowClear
+            disabled={!enabled}
+            loading={isLoadingPresets}
+            placeholder={t("presetPlaceholder")}
+            notFoundContent={t("noPresets")}
+            options={presets.map((preset) => ({ value: preset.id, label: preset.name }))}
+          />
+        </Form.Item>
+
+        <div className="flex items-center justify-between gap-4">
+          <Text type="secondary">
+            {settings?.lastAutoRefillAt
+              ? t("lastRefill", { date: new Date(settings.lastAutoRefillAt).toLocaleString(locale) })
+              : t("neverRefilled")}
+          </Text>
+          <Button type="primary" htmlType="submit" loading={isSaving}>
+            {t("save")}
+          </Button>
+        </div>
+      </Form>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Modal, Spin, Alert, Typography } from "antd";
+import { useTranslations } from "next-intl";
+import { PostSlide } from "@/types/post";
+
+const { Text } = Typography;
+
+interface DocumentPreviewModalProps {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  content: string;
+  /** Stored slides; rebuilt from the content by the server when empty */
+  slides?: PostSlide[];
+}
+
+/**
+ * Shows the PDF carousel exactly as it will be uploaded to LinkedIn
+ */
+export function DocumentPreviewModal({
+  open,
+  onClose,
+  title,
+  content,
+  slides,
+}: DocumentPreviewModalProps) {
+  const t = useTranslations("posts.document");
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    const render = async () => {
+      setPdfUrl(null);
+      setError(null);
+      try {
+        const response = await fetch("/api/posts/document-preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ title, content, slides }),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || t("previewFailed"));
+        }
+        objectUrl = URL.createObjectURL(await response.blob());
+        if (!cancelled) setPdfUrl(objectUrl);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : t("previewFailed"));
+        }
+      }
+    };
+
+    void render();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [open, title, content, slides, t]);
+
+  return (
+    <Modal
+      title={t("previewTitle")}
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      width={720}
+      style={{ maxWidth: "95vw", top: 20 }}
+      destroyOnClose
+    >
+      <Text type="secondary" className="text-xs block mb-3">
+        {t("previewHelp")}
+      </Text>
+      {error ? (
+        <Alert type="error" showIcon message={error} />
+      ) : pdfUrl ? (
+        <iframe
+          src={pdfUrl}
+          title={t("previewTitle")}
+          className="w-full rounded-lg"
+          style={{ height: "70vh", border: "1px solid #f0f0f0" }}
+        />
+      ) : (
+        <div className="py-24 text-center">
+          <Spin />
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Card,
+  Button,
+  Form,
+  Select,
+  Switch,
+  Space,
+  TimePicker,
+  Typography,
+  message,
+} from "antd";
+import { MailOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { useLocale, useTranslations } from "next-intl";
+import { useEmailDigestSettings } from "@/hooks/useEmailDigestSettings";
+
+const { Text } = Typography;
+
+interface EmailDigestFormValues {
+  enabled: boolean;
+  time: dayjs.Dayjs;
+  timezone: string;
+}
+
+/**
+ * Settings card for the daily email digest of new job matches and due follow-ups
+ */
+export function EmailDigestCard() {
+  const t = useTranslations("emailDigestSettings");
+  const locale = useLocale();
+  const [form] = Form.useForm<EmailDigestFormValues>();
+  const [messageApi, contextHolder] = message.useMessage();
+  const { settings, isLoading, isSaving, updateSettings } = useEmailDigestSettings();
+  const [timezoneOptions, setTimezoneOptions] = useState<{ value: string; label: string }[]>([]);
+  const enabled = Form.useWatch("enabled", form);
+
+  useEffect(() => {
+    const loadTimezoneOptions = async () => {
+      try {
+        const response = await fetch("/api/options/timezones");
+        const data = await response.json();
+        if (!response.ok) return;
+        setTimezoneOptions(data.options || []);
+      } catch {
+        setTimezoneOptions([]);
+      }
+    };
+    loadTimezoneOptions();
+  }, []);
+
+  useEffect(() => {
+    if (settings) {
+      form.setFieldsValue({
+        enabled: settings.enabled,
+        time: dayjs(settings.time, "HH:mm"),
+        timezone: settings.timezone,
+      });
+    }
+  }, [settings, form]);
+
+  const handleSubmit = async (values: EmailDigestFormValues) => {
+    const result = await updateSettings({
+      enabled: values.enabled,
+      time: values.time.format("HH:mm"),
+      timezone: values.timezone,
+    });
+    if (result.success) {
+      messageApi.success(t("saved"));
+    } else {
+      messageApi.error(result.error || t("saveError"));
+    }
+  };
+
+  return (
+    <Card
+      loading={isLoading}
+      title={
+        <Space>
+          <MailOutlined />
+          <span>{t("title")}</span>
+        </Space>
+      }
+    >
+      {contextHolder}
+      <Text type="secondary" className="block mb-4">
+        {t("description")}
+      </Text>
+
+      {settings && !settings.mailConfigured && (
+        <Alert type="warning" showIcon className="!mb-4" message={t("notConfigured")} />
+      )}
+
+      <Form form={form} layout="vertical" onFinish={handleSubmit}>
+        <Form.Item
+          name="enabled"
+          label={t("enabled")}
+          valuePropName="checked"
+          extra={settings?.email ? t("recipient", { email: settings.email }) : t("noEmail")}
+        >
+          <Switch disabled={!settings?.email} />
+        </Form.Item>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+          <Form.Item name="time" label={t("time")} rules={[{ required: true }]}>
+            <TimePicker
+              format="HH:mm"
+              minuteStep={15}
+              allowClear={false}
+              disabled={!enabled}
+              className="w-full"
+            />
+          </Form.Item>
+          <Form.Item name="timezone" label={t("timezone")} rules={[{ required: true }]}>
+            <Select showSearch optionFilterProp="label" options={timezoneOptions} disabled={!enabled} />
+          </Form.Item>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Text type="secondary">
+            {settings?.lastDigestSentAt
+              ? t("lastRun", { date: new Date(settings.lastDigestSentAt).toLocaleString(locale) })
+              : t("neverRun")}
+          </Text>
+          <Button type="primary" htmlType="submit" loading={isSaving}>
+            {t("save")}
+          </Button>
+        </div>
+      </Form>
+    </Card>
+  );
+}
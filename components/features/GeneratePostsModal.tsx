@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useSession } from "next-auth/react";
 import {
   Modal,
@@ -21,6 +21,10 @@ import {
   Badge,
   Tabs,
   Tooltip,
+  Progress,
+  Popover,
+  Popconfirm,
+  Alert,
 } from "antd";
 import {
   ThunderboltOutlined,
@@ -32,11 +36,30 @@ import {
   GlobalOutlined,
   PictureOutlined,
   CheckCircleFilled,
+  CommentOutlined,
   EditOutlined,
   BulbOutlined,
+  FilePdfOutlined,
+  EyeOutlined,
+  StopOutlined,
+  DeleteOutlined,
 } from "@ant-design/icons";
 import { useTranslations } from "next-intl";
 import { Link } from "@/i18n/routing";
+import { buildSlidesFromTipsList } from "@/lib/post-slides";
+import { DocumentPreviewModal } from "@/components/features/DocumentPreviewModal";
+import { useGenerationPresets } from "@/hooks/useGenerationPresets";
+import { presetToGenerationRequest } from "@/lib/generation-presets";
+import type { GenerationPresetSettings } from "@/types/generation-preset";
+import {
+  FIRST_COMMENT_MAX_LENGTH,
+  GeneratedPostPreview,
+  GenerationProgress,
+  GenerationStreamEvent,
+  PostPoll,
+  SimilarPost,
+  generationStyleKeys,
+} from "@/types/post";
 
 const { Text } = Typography;
 const { TextArea } = Input;
@@ -49,6 +72,16 @@ interface GeneratedPost {
   selected: boolean;
   status: "draft" | "ready";
   saved: boolean;
+  /** Publish as a PDF carousel built from the tips list */
+  asDocument: boolean;
+  /** Set when generated with the poll style */
+  poll: PostPoll | null;
+  /** Posted as a comment right after publication */
+  firstComment: string | null;
+  /** Generator's text when the post was rewritten for specificity, kept in its history */
+  originalDraft: { title: string; content: string } | null;
+  /** Existing post it is too close to, flagged before saving */
+  similarTo: SimilarPost | null;
 }
 
 interface GeneratePostsModalProps {
@@ -75,20 +108,55 @@ const TONE_KEYS = [
   "humorous",
 ] as const;
 
-const STYLE_KEYS = [
-  "auto",
-  "tips_list",
-  "personal_story",
-  "contrarian",
-  "how_to",
-  "question_driven",
-  "case_study",
-  "myth_busting",
-] as const;
+/**
+ * Events of the streaming generate API, read line by line as they arrive
+ */
+async function* readGenerationEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<GenerationStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as GenerationStreamEvent;
+    }
+    if (done) return;
+  }
+}
 
-function buildFullContent(content: string, hashtags: string[]): string {
-  if (hashtags.length === 0) return content;
-  return content + "\n\n" + hashtags.join(" ");
+/** Share of the progress bar reached at each stage */
+function getProgressPercent(progress: GenerationProgress | null): number {
+  if (!progress || progress.stage === "preparing") return 5;
+  if (progress.stage === "writing") return 15;
+  return Math.round(20 + (80 * progress.completed) / Math.max(progress.total, 1));
+}
+
+function buildSavePayload(post: GeneratedPost) {
+  return {
+    title: post.title,
+    content: post.content,
+    hashtags: post.hashtags,
+    firstComment: post.firstComment?.trim() || undefined,
+    revisionSource: post.originalDraft ? "generation_rewrite" : "generation",
+    originalDraft: post.originalDraft || undefined,
+    ...(post.asDocument
+      ? {
+          format: "document",
+          slides: buildSlidesFromTipsList(post.title, post.content),
+        }
+      : post.poll
+        ? { format: "poll", poll: post.poll }
+        : {
+          imageUrl: post.imageUrl,
+          imageUrls: post.imageUrl ? [post.imageUrl] : [],
+        }),
+  };
 }
 
 export function GeneratePostsModal({
@@ -114,20 +182,40 @@ export function GeneratePostsModal({
   const [topicInputMode, setTopicInputMode] = useState<"auto" | "common">("auto");
   const [commonThemes, setCommonThemes] = useState<string[]>([]);
   const [posts, setPosts] = useState<GeneratedPost[]>([]);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  // Cancels the running generation stream
+  const abortRef = useRef<AbortController | null>(null);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  // Stored on saved posts to compare engagement per style/theme later
+  const [generationMeta, setGenerationMeta] = useState<{
+    generationStyle: string;
+    generationThemes: string[];
+  }>({ generationStyle: "auto", generationThemes: [] });
   const [form] = Form.useForm();
+  const { presets, isSaving: isSavingPreset, createPreset, updatePreset, deletePreset } =
+    useGenerationPresets();
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState("");
+  const [isPresetPopoverOpen, setIsPresetPopoverOpen] = useState(false);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleClose = () => {
+    abortRef.current?.abort();
     setStep(0);
     setPosts([]);
     form.resetFields();
+    setSelectedPresetId(null);
     setIsGenerating(false);
     setIsSaving(false);
     onClose();
   };
 
-  const handleGenerate = async () => {
-    const values = form.getFieldsValue();
-
+  /**
+   * Options of the form, as sent to the generate API and stored in presets
+   */
+  const readGenerationSettings = (): GenerationPresetSettings => {
+    const values = form.getFieldsValue(true);
     const selectedCommonThemes = Array.isArray(values.commonTheme)
       ? values.commonTheme.filter(
           (item: unknown): item is string =>
@@ -137,11 +225,6 @@ export function GeneratePostsModal({
         ? [String(values.commonTheme)]
         : [];
 
-    if (topicInputMode === "common" && selectedCommonThemes.length === 0) {
-      messageApi.warning(t("generate.commonThemeRequired"));
-      return;
-    }
-
     const selectedThemeLabels = selectedCommonThemes
       .map((themeValue: string) =>
         commonTopicOptions.find((option) => option.value === themeValue)?.label ||
@@ -149,59 +232,113 @@ export function GeneratePostsModal({
       )
       .filter(Boolean);
 
+    const documentMode = Boolean(values.documentMode);
+    return {
+      topicSource: topicInputMode,
+      topic: values.topic?.trim() || null,
+      selectedThemes: topicInputMode === "common" ? selectedThemeLabels : [],
+      toneOverride: values.tone !== profileTone ? values.tone : null,
+      style: documentMode ? "tips_list" : values.style !== "auto" ? values.style : null,
+      includeImage: documentMode ? false : values.includeImage || false,
+      realisticImage: values.realisticImage !== false,
+      includeContactCta: values.includeContactCta || false,
+      contactCtaPlacement: values.contactCtaInFirstComment ? "firstComment" : "content",
+    };
+  };
+
+  const handleGenerate = async () => {
+    const values = form.getFieldsValue();
+    const settings = readGenerationSettings();
+
+    if (settings.topicSource === "common" && settings.selectedThemes.length === 0) {
+      messageApi.warning(t("generate.commonThemeRequired"));
+      return;
+    }
+
+    const documentMode = Boolean(values.documentMode);
+    const toGeneratedPost = (p: GeneratedPostPreview): GeneratedPost => ({
+      title: p.title,
+      content: p.content,
+      hashtags: Array.isArray(p.hashtags) ? p.hashtags : [],
+      imageUrl: p.imageUrl || null,
+      selected: true,
+      status: "ready",
+      saved: false,
+      asDocument: documentMode && buildSlidesFromTipsList(p.title, p.content).length > 0,
+      poll: p.poll || null,
+      firstComment: p.firstComment || null,
+      originalDraft: p.originalDraft || null,
+      similarTo: p.similarTo || null,
+    });
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let received = 0;
+
+    setGenerationMeta({
+      generationStyle: documentMode ? "tips_list" : values.style || "auto",
+      generationThemes:
+        settings.topicSource === "common"
+          ? settings.selectedThemes
+          : settings.topic
+            ? [settings.topic]
+            : [],
+    });
+    setPosts([]);
+    setProgress(null);
     setIsGenerating(true);
     try {
-      const response = await fetch("/api/generate", {
+      const response = await fetch("/api/generate/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          count: values.count || 1,
-          topic: values.topic || undefined,
-          topicSource: topicInputMode,
-          selectedTheme:
-            topicInputMode === "common" ? selectedThemeLabels[0] : undefined,
-          selectedThemes:
-            topicInputMode === "common" ? selectedThemeLabels : undefined,
-          toneOverride: values.tone !== profileTone ? values.tone : undefined,
-          style: values.style !== "auto" ? values.style : undefined,
-          includeImage: values.includeImage || false,
-          realisticImage: values.realisticImage !== false,
-          includeContactCta: values.includeContactCta || false,
-          preview: true,
-        }),
+        signal: controller.signal,
+        body: JSON.stringify(presetToGenerationRequest(settings, values.count || 1)),
       });
-      const data = await response.json();
-      if (!response.ok)
-        throw new Error(data.error || t("messages.generateFailed"));
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || t("messages.generateFailed"));
+      }
 
-      setPosts(
-        (data.posts || []).map(
-          (p: {
-            title: string;
-            content: string;
-            hashtags?: string[];
-            imageUrl?: string | null;
-          }) => ({
-            title: p.title,
-            content: p.content,
-            hashtags: Array.isArray(p.hashtags) ? p.hashtags : [],
-            imageUrl: p.imageUrl || null,
-            selected: true,
-            status: "ready" as const,
-            saved: false,
-          })
-        )
-      );
-      setStep(1);
+      // Posts are shown as soon as they are finalized
+      for await (const event of readGenerationEvents(response.body)) {
+        if (event.type === "progress") {
+          setProgress(event);
+        } else if (event.type === "post") {
+          received++;
+          setPosts((prev) => [...prev, toGeneratedPost(event.post)]);
+          setStep(1);
+        } else if (event.type === "error") {
+          throw new Error(event.error || t("messages.generateFailed"));
+        }
+      }
+
+      if (received === 0) {
+        throw new Error(t("messages.generateFailed"));
+      }
     } catch (err) {
+      if (controller.signal.aborted) {
+        // Keep the posts received before cancelling
+        if (received === 0) setStep(0);
+        return;
+      }
       messageApi.error(
         err instanceof Error ? err.message : t("messages.generateFailed")
       );
     } finally {
-      setIsGenerating(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsGenerating(false);
+        setProgress(null);
+      }
     }
   };
 
+  const handleCancelGeneration = () => {
+    if (!abortRef.current) return;
+    abortRef.current.abort();
+    messageApi.info(t("generate.cancelled"));
+  };
+
   const handleSave = async () => {
     const selected = posts.filter((p) => p.selected && !p.saved);
     if (selected.length === 0) {
@@ -216,11 +353,9 @@ export function GeneratePostsModal({
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              title: post.title,
-              content: buildFullContent(post.content, post.hashtags),
+              ...buildSavePayload(post),
               status: post.status,
-              imageUrl: post.imageUrl,
-              imageUrls: post.imageUrl ? [post.imageUrl] : [],
+              ...generationMeta,
             }),
           })
         )
@@ -247,11 +382,9 @@ export function GeneratePostsModal({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          title: post.title,
-          content: buildFullContent(post.content, post.hashtags),
+          ...buildSavePayload(post),
           status: "ready",
-          imageUrl: post.imageUrl,
-          imageUrls: post.imageUrl ? [post.imageUrl] : [],
+          ...generationMeta,
         }),
       });
       if (!response.ok) throw new Error("Failed to save");
@@ -275,7 +408,7 @@ export function GeneratePostsModal({
 
   const updatePost = (
     index: number,
-    field: "title" | "content" | "status",
+    field: "title" | "content" | "status" | "firstComment",
     value: string
   ) => {
     setPosts((prev) =>
@@ -283,6 +416,20 @@ export function GeneratePostsModal({
     );
   };
 
+  const toggleDocument = (index: number) => {
+    const post = posts[index];
+    if (
+      !post.asDocument &&
+      buildSlidesFromTipsList(post.title, post.content).length === 0
+    ) {
+      messageApi.warning(t("document.notATipsList"));
+      return;
+    }
+    setPosts((prev) =>
+      prev.map((p, i) => (i === index ? { ...p, asDocument: !p.asDocument } : p))
+    );
+  };
+
   const toggleAll = (selected: boolean) => {
     setPosts((prev) =>
       prev.map((p) => (p.saved ? p : { ...p, selected }))
@@ -296,7 +443,7 @@ export function GeneratePostsModal({
     label: tTones(`${key}.label`),
   }));
 
-  const styleOptions = STYLE_KEYS.map((key) => ({
+  const styleOptions = generationStyleKeys.map((key) => ({
     value: key,
     label: t(`generate.styles.${key}`),
   }));
@@ -371,6 +518,67 @@ export function GeneratePostsModal({
     }
   };
 
+  const handleSelectPreset = (presetId: string | null) => {
+    setSelectedPresetId(presetId);
+    const preset = presets.find((item) => item.id === presetId);
+    if (!preset) return;
+
+    setTopicInputMode(preset.topicSource);
+    // Themes of the preset may not be among the suggested ones
+    setCommonThemes((prev) => [
+      ...prev,
+      ...preset.selectedThemes.filter((theme) => !prev.includes(theme)),
+    ]);
+    form.setFieldsValue({
+      topic: preset.topic || undefined,
+      commonTheme: preset.selectedThemes,
+      tone: preset.toneOverride || profileTone,
+      style: preset.style || "auto",
+      documentMode: false,
+      includeImage: preset.includeImage,
+      realisticImage: preset.realisticImage,
+      includeContactCta: preset.includeContactCta,
+      contactCtaInFirstComment: preset.contactCtaPlacement === "firstComment",
+    });
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    const settings = readGenerationSettings();
+    if (settings.topicSource === "common" && settings.selectedThemes.length === 0) {
+      messageApi.warning(t("generate.commonThemeRequired"));
+      return;
+    }
+
+    // Saving under the name of the selected preset overwrites it
+    const selectedPreset = presets.find((item) => item.id === selectedPresetId);
+    const result =
+      selectedPreset && selectedPreset.name === name
+        ? await updatePreset(selectedPreset.id, { ...settings, name })
+        : await createPreset({ ...settings, name });
+
+    if (result.success) {
+      if (result.preset) setSelectedPresetId(result.preset.id);
+      setIsPresetPopoverOpen(false);
+      messageApi.success(t("generate.presets.saved", { name }));
+    } else {
+      messageApi.error(result.error || t("generate.presets.saveFailed"));
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (!selectedPresetId) return;
+    const result = await deletePreset(selectedPresetId);
+    if (result.success) {
+      setSelectedPresetId(null);
+      messageApi.success(t("generate.presets.deleted"));
+    } else {
+      messageApi.error(result.error || t("generate.presets.deleteFailed"));
+    }
+  };
+
   const hasAnyContact = Boolean(
     profileContact?.phone?.trim() ||
       profileContact?.githubUrl?.trim() ||
@@ -439,10 +647,71 @@ export function GeneratePostsModal({
               includeImage: false,
               realisticImage: true,
               includeContactCta: false,
+              contactCtaInFirstComment: true,
+              documentMode: false,
             }}
             onFinish={handleGenerate}
             requiredMark={false}
           >
+            {/* Presets */}
+            <div className="flex items-center gap-2 mb-3">
+              <Select
+                className="flex-1"
+                allowClear
+                value={selectedPresetId}
+                onChange={(value) => handleSelectPreset(value ?? null)}
+                placeholder={t("generate.presets.placeholder")}
+                notFoundContent={t("generate.presets.empty")}
+                options={presets.map((preset) => ({ value: preset.id, label: preset.name }))}
+              />
+              <Popover
+                trigger="click"
+                open={isPresetPopoverOpen}
+                onOpenChange={(open) => {
+                  setIsPresetPopoverOpen(open);
+                  if (open) {
+                    setPresetName(
+                      presets.find((item) => item.id === selectedPresetId)?.name || ""
+                    );
+                  }
+                }}
+                title={t("generate.presets.saveTitle")}
+                content={
+                  <Space.Compact className="w-64">
+                    <Input
+                      value={presetName}
+                      maxLength={80}
+                      placeholder={t("generate.presets.namePlaceholder")}
+                      onChange={(event) => setPresetName(event.target.value)}
+                      onPressEnter={handleSavePreset}
+                    />
+                    <Button
+                      type="primary"
+                      loading={isSavingPreset}
+                      disabled={!presetName.trim()}
+                      onClick={handleSavePreset}
+                    >
+                      {tCommon("save")}
+                    </Button>
+                  </Space.Compact>
+                }
+              >
+                <Button icon={<SaveOutlined />}>{t("generate.presets.save")}</Button>
+              </Popover>
+              {selectedPresetId && (
+                <Popconfirm
+                  title={t("generate.presets.deleteConfirm")}
+                  onConfirm={handleDeletePreset}
+                >
+                  <Button
+                    danger
+                    icon={<DeleteOutlined />}
+                    aria-label={t("generate.presets.delete")}
+                  />
+                </Popconfirm>
+              )}
+            </div>
+
             <div className="mb-2">
               <Tabs
                 size="small"
@@ -566,6 +835,28 @@ export function GeneratePostsModal({
                 <Select options={styleOptions} />
               </Form.Item>
             </div>
+            <Form.Item
+              name="documentMode"
+              valuePropName="checked"
+              extra={
+                <Text type="secondary" className="text-xs">
+                  {t("document.modeHelp")}
+                </Text>
+              }
+            >
+              <Checkbox
+                onChange={(event) => {
+                  if (event.target.checked) {
+                    form.setFieldsValue({ style: "tips_list", includeImage: false });
+                  }
+                }}
+              >
+                <span className="flex items-center gap-1.5 text-sm">
+                  <FilePdfOutlined className="text-gray-500" />
+                  {t("document.mode")}
+                </span>
+              </Checkbox>
+            </Form.Item>
 
             {/* Count & Image */}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
@@ -602,6 +893,31 @@ export function GeneratePostsModal({
                 {t("generate.contactInfoMissing")}
               </Text>
             )}
+            <Form.Item
+              noStyle
+              shouldUpdate={(prevValues, nextValues) =>
+                prevValues.includeContactCta !== nextValues.includeContactCta
+              }
+            >
+              {({ getFieldValue }) =>
+                getFieldValue("includeContactCta") ? (
+                  <Form.Item
+                    name="contactCtaInFirstComment"
+                    valuePropName="checked"
+                    className="-mt-2"
+                    extra={
+                      <Text type="secondary" className="text-xs">
+                        {t("firstComment.ctaHelp")}
+                      </Text>
+                    }
+                  >
+                    <Checkbox>
+                      <span className="text-sm">{t("firstComment.ctaPlacement")}</span>
+                    </Checkbox>
+                  </Form.Item>
+                ) : null
+              }
+            </Form.Item>
             <Form.Item
               noStyle
               shouldUpdate={(prevValues, nextValues) =>
@@ -648,8 +964,8 @@ export function GeneratePostsModal({
         </div>
       )}
 
-      {/* ━━━ Loading ━━━ */}
-      {isGenerating && (
+      {/* ━━━ Loading, until the first post arrives ━━━ */}
+      {isGenerating && posts.length === 0 && (
         <div className="py-24 text-center">
           <Spin
             size="large"
@@ -665,15 +981,57 @@ export function GeneratePostsModal({
               {t("generate.generating")}
             </Text>
             <Text type="secondary" className="text-sm mt-1 block">
-              {t("generate.generatingTip")}
+              {progress
+                ? t(`generate.progress.${progress.stage}`, {
+                    completed: progress.completed,
+                    total: progress.total,
+                  })
+                : t("generate.generatingTip")}
             </Text>
+            <Progress
+              percent={getProgressPercent(progress)}
+              showInfo={false}
+              strokeColor="#f59e0b"
+              className="!mt-4 mx-auto"
+              style={{ maxWidth: 280 }}
+            />
+            <Button icon={<StopOutlined />} className="mt-4" onClick={handleCancelGeneration}>
+              {t("generate.cancel")}
+            </Button>
           </div>
         </div>
       )}
 
       {/* ━━━ Step 2: Preview & Edit ━━━ */}
-      {step === 1 && !isGenerating && (
+      {step === 1 && posts.length > 0 && (
         <div>
+          {/* Progress of the remaining posts */}
+          {isGenerating && (
+            <div
+              className="flex items-center gap-3 px-3 sm:px-6 py-2"
+              style={{ background: "#fffbeb", borderBottom: "1px solid #fde68a" }}
+            >
+              <LoadingOutlined style={{ color: "#f59e0b" }} spin />
+              <div className="flex-1 min-w-0">
+                <Text className="text-xs sm:text-sm block">
+                  {t("generate.progress.finalizing", {
+                    completed: progress?.completed ?? posts.length,
+                    total: progress?.total ?? posts.length,
+                  })}
+                </Text>
+                <Progress
+                  percent={getProgressPercent(progress)}
+                  showInfo={false}
+                  size="small"
+                  strokeColor="#f59e0b"
+                />
+              </div>
+              <Button size="small" icon={<StopOutlined />} onClick={handleCancelGeneration}>
+                {t("generate.cancel")}
+              </Button>
+            </div>
+          )}
+
           {/* Toolbar */}
           <div
             className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-1 sm:gap-3 px-3 sm:px-6 py-2 sm:py-3"
@@ -778,6 +1136,27 @@ export function GeneratePostsModal({
                     )}
                   </div>
 
+                  {post.similarTo && !post.saved && (
+                    <Alert
+                      type="warning"
+                      showIcon
+                      banner
+                      message={t("generate.preview.similarWarning", {
+                        title: post.similarTo.title,
+                        percent: Math.round(post.similarTo.similarity * 100),
+                      })}
+                      description={
+                        post.similarTo.sharedPassage && (
+                          <Text type="secondary" className="text-xs">
+                            {t("similarity.sharedPassage", {
+                              passage: post.similarTo.sharedPassage,
+                            })}
+                          </Text>
+                        )
+                      }
+                    />
+                  )}
+
                   {/* ── LinkedIn Preview ── */}
                   <div>
                     {/* Profile header */}
@@ -834,8 +1213,65 @@ export function GeneratePostsModal({
                       </div>
                     )}
 
+                    {/* Poll */}
+                    {post.poll && (
+                      <div
+                        className="mx-3 sm:mx-4 mb-3 rounded-lg p-3"
+                        style={{ border: "1px solid #e5e7eb" }}
+                      >
+                        <Text strong className="text-xs block mb-2">
+                          {post.poll.question}
+                        </Text>
+                        <div className="space-y-1.5">
+                          {post.poll.options.map((option, optionIndex) => (
+                            <div
+                              key={optionIndex}
+                              className="rounded-full px-3 py-1 text-xs text-center"
+                              style={{ border: "1px solid #0a66c2", color: "#0a66c2" }}
+                            >
+                              {option}
+                            </div>
+                          ))}
+                        </div>
+                        <Text type="secondary" className="text-[11px] block mt-2">
+                          {t(`poll.durations.${post.poll.duration}`)}
+                        </Text>
+                      </div>
+                    )}
+
+                    {/* Slides */}
+                    {post.asDocument && (
+                      <div className="px-3 sm:px-4 pb-3 flex gap-2 overflow-x-auto">
+                        {buildSlidesFromTipsList(post.title, post.content).map(
+                          (slide, slideIndex) => (
+                            <div
+                              key={slideIndex}
+                              className="shrink-0 rounded-md p-2 text-[11px] leading-snug"
+                              style={{
+                                width: 110,
+                                height: 138,
+                                background: "#f5f3ff",
+                                border: "1px solid #e0e7ff",
+                                overflow: "hidden",
+                              }}
+                            >
+                              <Text strong className="text-[11px]! block" style={{ color: "#6366f1" }}>
+                                {slideIndex + 1}
+                              </Text>
+                              <Text strong className="text-[11px]! block">
+                                {slide.title}
+                              </Text>
+                              <Text type="secondary" className="text-[10px]!">
+                                {slide.body}
+                              </Text>
+                            </div>
+                          )
+                        )}
+                      </div>
+                    )}
+
                     {/* Image */}
-                    {post.imageUrl && (
+                    {post.imageUrl && !post.asDocument && (
                       /* eslint-disable-next-line @next/next/no-img-element */
                       <img
                         src={post.imageUrl}
@@ -845,6 +1281,27 @@ export function GeneratePostsModal({
                       />
                     )}
 
+                    {/* First comment */}
+                    {post.firstComment !== null && (
+                      <div className="mx-3 sm:mx-4 my-2 rounded-lg px-3 py-2" style={{ background: "#f3f4f6" }}>
+                        <Text type="secondary" className="text-[11px] flex items-center gap-1 mb-1">
+                          <CommentOutlined />
+                          {t("firstComment.label")}
+                        </Text>
+                        <TextArea
+                          value={post.firstComment}
+                          onChange={(e) =>
+                            updatePost(index, "firstComment", e.target.value)
+                          }
+                          autoSize={{ minRows: 1, maxRows: 4 }}
+                          maxLength={FIRST_COMMENT_MAX_LENGTH}
+                          variant="borderless"
+                          className="text-xs!"
+                          style={{ padding: 0, resize: "none", background: "transparent" }}
+                          disabled={post.saved}
+                        />
+                      </div>
+                    )}
                   </div>
 
                   {/* ── Card footer ── */}
@@ -862,11 +1319,35 @@ export function GeneratePostsModal({
                           "."
                         )[0]}
                       </Text>
+                      <Space size={4} className="ml-auto">
+                        <Tooltip
+                          title={
+                            post.asDocument
+                              ? t("document.convertBack")
+                              : t("document.convert")
+                          }
+                        >
+                          <Button
+                            size="small"
+                            type={post.asDocument ? "primary" : "default"}
+                            icon={<FilePdfOutlined />}
+                            onClick={() => toggleDocument(index)}
+                          />
+                        </Tooltip>
+                        {post.asDocument && (
+                          <Tooltip title={t("document.preview")}>
+                            <Button
+                              size="small"
+                              icon={<EyeOutlined />}
+                              onClick={() => setPreviewIndex(index)}
+                            />
+                          </Tooltip>
+                        )}
+                      </Space>
                       <Button
                         size="small"
                         icon={<CalendarOutlined />}
                         onClick={() => handleSchedulePost(index)}
-                        className="ml-auto"
                         style={{
                           borderColor: "#d97706",
                           color: "#d97706",
@@ -909,6 +1390,7 @@ export function GeneratePostsModal({
             <Button
               icon={<ArrowLeftOutlined />}
               onClick={() => setStep(0)}
+              disabled={isGenerating}
               type="text"
               className="text-xs sm:text-sm"
             >
@@ -919,7 +1401,7 @@ export function GeneratePostsModal({
               icon={<SaveOutlined />}
               loading={isSaving}
               onClick={handleSave}
-              disabled={selectedCount === 0}
+              disabled={selectedCount === 0 || isGenerating}
               className="text-xs sm:text-sm"
               style={
                 selectedCount > 0
@@ -938,6 +1420,13 @@ export function GeneratePostsModal({
           </div>
         </div>
       )}
+
+      <DocumentPreviewModal
+        open={previewIndex !== null && Boolean(posts[previewIndex])}
+        onClose={() => setPreviewIndex(null)}
+        title={previewIndex !== null ? posts[previewIndex]?.title || "" : ""}
+        content={previewIndex !== null ? posts[previewIndex]?.content || "" : ""}
+      />
     </Modal>
   );
 }
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Select, Tag, Tooltip, Typography } from "antd";
+import { BulbOutlined, PlusOutlined } from "@ant-design/icons";
+import { useTranslations } from "next-intl";
+import { apiClient } from "@/lib/api-client";
+import { hashtagKey, MAX_POST_HASHTAGS, normalizeHashtags } from "@/lib/hashtags";
+import { HashtagSuggestion, HashtagSuggestionSource } from "@/types/hashtag";
+
+const { Text } = Typography;
+
+const sourceColors: Record<HashtagSuggestionSource, string> = {
+  library: "blue",
+  topic: "purple",
+  content: "default",
+};
+
+interface HashtagInputProps {
+  /** Set by Form.Item */
+  value?: string[];
+  onChange?: (value: string[]) => void;
+  /** Post text the suggestions are based on */
+  content: string;
+}
+
+/**
+ * Hashtags of a post, typed or picked from suggestions based on its text,
+ * the profile topics and the hashtag library
+ */
+export function HashtagInput({ value = [], onChange, content }: HashtagInputProps) {
+  const t = useTranslations("posts.hashtags");
+  const [suggestions, setSuggestions] = useState<HashtagSuggestion[] | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  const selectedKeys = new Set(value.map(hashtagKey));
+  const remainingSuggestions = (suggestions ?? []).filter(
+    (suggestion) => !selectedKeys.has(hashtagKey(suggestion.tag))
+  );
+
+  const handleSuggest = async () => {
+    try {
+      setIsSuggesting(true);
+      const data = await apiClient.post<{ suggestions: HashtagSuggestion[] }>(
+        "/api/hashtags/suggestions",
+        { content, exclude: value }
+      );
+      setSuggestions(data.suggestions);
+    } catch (error) {
+      console.error("Error suggesting hashtags:", error);
+      setSuggestions([]);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <Select
+          mode="tags"
+          className="flex-1"
+          value={value}
+          onChange={(tags: string[]) => onChange?.(normalizeHashtags(tags))}
+          tokenSeparators={[",", " "]}
+          placeholder={t("placeholder")}
+          maxCount={MAX_POST_HASHTAGS}
+          notFoundContent={null}
+        />
+        <Button icon={<BulbOutlined />} loading={isSuggesting} onClick={handleSuggest}>
+          {t("suggest")}
+        </Button>
+      </div>
+
+      {suggestions !== null && (
+        <div className="flex flex-wrap items-center gap-1 mt-2">
+          {remainingSuggestions.length === 0 ? (
+            <Text type="secondary" className="text-xs">
+              {t("noSuggestions")}
+            </Text>
+          ) : (
+            remainingSuggestions.map((suggestion) => (
+              <Tooltip
+                key={suggestion.tag}
+                title={t(`sources.${suggestion.source}`, { count: suggestion.usageCount })}
+              >
+                <Tag
+                  color={sourceColors[suggestion.source]}
+                  icon={<PlusOutlined />}
+                  className="cursor-pointer"
+                  onClick={() => onChange?.(normalizeHashtags([...value, suggestion.tag]))}
+                >
+                  {suggestion.tag}
+                </Tag>
+              </Tooltip>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
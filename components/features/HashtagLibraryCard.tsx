@@ -0,0 +1,106 @@
+"use client";
+
+import { Button, Card, Empty, Space, Table, Typography, message } from "antd";
+import { NumberOutlined, ReloadOutlined } from "@ant-design/icons";
+import type { ColumnsType } from "antd/es/table";
+import { useLocale, useTranslations } from "next-intl";
+import { useHashtagLibrary } from "@/hooks/useHashtagLibrary";
+import { HashtagLibraryEntry } from "@/types/hashtag";
+
+const { Text } = Typography;
+
+/**
+ * Settings card of the hashtags used in published posts, with the average
+ * engagement of those posts once analytics exist
+ */
+export function HashtagLibraryCard() {
+  const t = useTranslations("hashtagLibrary");
+  const locale = useLocale();
+  const [messageApi, contextHolder] = message.useMessage();
+  const { hashtags, isLoading, isRefreshing, refreshLibrary } = useHashtagLibrary();
+
+  const handleRefresh = async () => {
+    const result = await refreshLibrary();
+    if (result.success) {
+      messageApi.success(t("refreshed"));
+    } else {
+      messageApi.error(result.error || t("refreshError"));
+    }
+  };
+
+  const formatAverage = (value: number | null) =>
+    value === null ? "-" : value.toLocaleString(locale, { maximumFractionDigits: 1 });
+
+  const columns: ColumnsType<HashtagLibraryEntry> = [
+    {
+      title: t("tag"),
+      dataIndex: "tag",
+      key: "tag",
+      render: (tag: string) => <Text className="text-[#0a66c2] font-medium">{tag}</Text>,
+    },
+    {
+      title: t("usage"),
+      dataIndex: "usageCount",
+      key: "usageCount",
+      width: 100,
+    },
+    {
+      title: t("avgImpressions"),
+      dataIndex: "avgImpressions",
+      key: "avgImpressions",
+      width: 140,
+      render: (value: number | null) => formatAverage(value),
+    },
+    {
+      title: t("avgInteractions"),
+      dataIndex: "avgInteractions",
+      key: "avgInteractions",
+      width: 140,
+      render: (value: number | null, record) =>
+        value === null ? (
+          "-"
+        ) : (
+          <Text>
+            {formatAverage(value)}{" "}
+            <Text type="secondary" className="text-xs">
+              {t("engagedPosts", { count: record.engagedPostCount })}
+            </Text>
+          </Text>
+        ),
+    },
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <NumberOutlined />
+          <span>{t("title")}</span>
+        </Space>
+      }
+      extra={
+        <Button icon={<ReloadOutlined />} loading={isRefreshing} onClick={handleRefresh}>
+          {t("refresh")}
+        </Button>
+      }
+    >
+      {contextHolder}
+      <Text type="secondary" className="block mb-4">
+        {t("description")}
+      </Text>
+
+      <Table
+        columns={columns}
+        dataSource={hashtags}
+        rowKey="id"
+        loading={isLoading}
+        size="small"
+        pagination={{ pageSize: 10, showSizeChanger: false, hideOnSinglePage: true }}
+        scroll={{ x: true }}
+        locale={{
+          emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t("empty")} />,
+        }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { Alert, Button } from "antd";
+import { LinkedinOutlined } from "@ant-design/icons";
+import { signIn } from "next-auth/react";
+import { useTranslations } from "next-intl";
+import { useLinkedInTokenStatus } from "@/hooks/useLinkedInTokenStatus";
+
+/**
+ * Warns when the LinkedIn token expires (or already expired) before
+ * active schedules or calendar slots are due to publish.
+ */
+export function LinkedInTokenBanner() {
+  const t = useTranslations("linkedInToken");
+  const { status } = useLinkedInTokenStatus();
+
+  if (!status?.showWarning) return null;
+
+  const scheduleNames = status.affectedSchedules.map((schedule) => schedule.name).join(", ");
+  const expiryDate = status.expiresAt ? new Date(status.expiresAt).toLocaleString() : "";
+
+  return (
+    <Alert
+      type={status.needsReauth ? "error" : "warning"}
+      showIcon
+      message={
+        status.needsReauth ? t("expiredTitle") : t("expiringTitle", { date: expiryDate })
+      }
+      description={
+        <div className="space-y-1">
+          {status.affectedSchedules.length > 0 && (
+            <div>
+              {t("affectedSchedules", { names: scheduleNames })}
+            </div>
+          )}
+          {status.affectedScheduledPosts > 0 && (
+            <div>{t("affectedPosts", { count: status.affectedScheduledPosts })}</div>
+          )}
+        </div>
+      }
+      action={
+        <Button
+          size="small"
+          type="primary"
+          icon={<LinkedinOutlined />}
+          onClick={() => signIn("linkedin", { callbackUrl: window.location.href })}
+        >
+          {t("reconnect")}
+        </Button>
+      }
+    />
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect } from "react";
+import { Alert, Button, Card, Form, Input, Select, Space, Typography, message } from "antd";
+import { RobotOutlined } from "@ant-design/icons";
+import { useTranslations } from "next-intl";
+import { useLlmSettings, LlmSettingsFormData } from "@/hooks/useLlmSettings";
+import { llmFeatures, llmProviderNames } from "@/types/llm";
+
+const { Text } = Typography;
+
+/**
+ * Admin card choosing the AI provider and the model of each feature.
+ * Empty fields fall back to the LLM_* environment variables.
+ */
+export function LlmSettingsCard() {
+  const t = useTranslations("admin.llm");
+  const [form] = Form.useForm<LlmSettingsFormData>();
+  const [messageApi, contextHolder] = message.useMessage();
+  const { settings, isLoading, isSaving, updateSettings } = useLlmSettings();
+
+  useEffect(() => {
+    if (settings) {
+      form.setFieldsValue({
+        provider: settings.stored.provider,
+        baseUrl: settings.stored.baseUrl,
+        model: settings.stored.model,
+        featureModels: settings.stored.featureModels || {},
+      });
+    }
+  }, [settings, form]);
+
+  const handleSubmit = async (values: LlmSettingsFormData) => {
+    const result = await updateSettings(values);
+    if (result.success) {
+      messageApi.success(t("saved"));
+    } else {
+      messageApi.error(result.error || t("saveError"));
+    }
+  };
+
+  return (
+    <Card
+      loading={isLoading}
+      title={
+        <Space>
+          <RobotOutlined />
+          <span>{t("title")}</span>
+        </Space>
+      }
+    >
+      {contextHolder}
+      <Text type="secondary" className="block mb-4">
+        {t("description")}
+      </Text>
+
+      {settings && !settings.effective.apiKeyConfigured && (
+        <Alert
+          type="warning"
+          showIcon
+          className="!mb-4"
+          message={t("apiKeyMissing", { provider: t(`providers.${settings.effective.provider}`) })}
+        />
+      )}
+
+      <Form form={form} layout="vertical" onFinish={handleSubmit}>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+          <Form.Item name="provider" label={t("provider")}>
+            <Select
+              allowClear
+              placeholder={settings && t("fromEnv", { value: t(`providers.${settings.env.provider}`) })}
+              options={llmProviderNames.map((name) => ({
+                value: name,
+                label: t(`providers.${name}`),
+              }))}
+            />
+          </Form.Item>
+          <Form.Item name="baseUrl" label={t("baseUrl")} extra={t("baseUrlHelp")}>
+            <Input
+              allowClear
+              placeholder={settings?.env.baseUrl ? t("fromEnv", { value: settings.env.baseUrl }) : undefined}
+            />
+          </Form.Item>
+          <Form.Item name="model" label={t("model")}>
+            <Input
+              allowClear
+              placeholder={settings?.env.model ? t("fromEnv", { value: settings.env.model }) : undefined}
+            />
+          </Form.Item>
+        </div>
+
+        <Text strong className="block mb-2">
+          {t("featureModels")}
+        </Text>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+          {llmFeatures.map((feature) => (
+            <Form.Item key={feature} name={["featureModels", feature]} label={t(`features.${feature}`)}>
+              <Input allowClear placeholder={settings?.effective.models[feature]} />
+            </Form.Item>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="primary" htmlType="submit" loading={isSaving}>
+            {t("save")}
+          </Button>
+        </div>
+      </Form>
+    </Card>
+  );
+}
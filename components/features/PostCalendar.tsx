@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Calendar,
+  Card,
+  DatePicker,
+  Empty,
+  Modal,
+  Tag,
+  Tooltip,
+  Typography,
+  Button,
+} from "antd";
+import { CloseOutlined, HolderOutlined } from "@ant-design/icons";
+import { useTranslations } from "next-intl";
+import dayjs, { Dayjs } from "dayjs";
+import { Post } from "@/types/post";
+
+const { Text } = Typography;
+
+const DEFAULT_SLOT_HOUR = 9;
+const DRAG_DATA_TYPE = "text/post-id";
+
+interface PostCalendarProps {
+  posts: Post[];
+  onSchedule: (postId: string, scheduledFor: string | null) => Promise<boolean>;
+}
+
+/**
+ * Calendar of explicitly scheduled posts.
+ * Ready posts can be dragged from the sidebar (or between days) onto a date.
+ */
+export function PostCalendar({ posts, onSchedule }: PostCalendarProps) {
+  const t = useTranslations("schedule.calendar");
+  const tCommon = useTranslations("common");
+  const [pendingPost, setPendingPost] = useState<Post | null>(null);
+  const [pendingDate, setPendingDate] = useState<Dayjs | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const scheduledPosts = posts.filter(
+    (post) => post.status !== "published" && post.scheduledFor
+  );
+  const unscheduledReadyPosts = posts.filter(
+    (post) => post.status === "ready" && !post.scheduledFor
+  );
+
+  const postsForDay = (date: Dayjs) =>
+    scheduledPosts
+      .filter((post) => dayjs(post.scheduledFor).isSame(date, "day"))
+      .sort((a, b) => dayjs(a.scheduledFor).diff(dayjs(b.scheduledFor)));
+
+  const handleDrop = (event: React.DragEvent, date: Dayjs) => {
+    event.preventDefault();
+    const postId = event.dataTransfer.getData(DRAG_DATA_TYPE);
+    const post = posts.find((item) => item.id === postId);
+    if (!post) return;
+
+    // Keep the existing time when moving between days, default to 09:00 otherwise
+    const previous = post.scheduledFor ? dayjs(post.scheduledFor) : null;
+    const slot = date
+      .hour(previous ? previous.hour() : DEFAULT_SLOT_HOUR)
+      .minute(previous ? previous.minute() : 0)
+      .second(0)
+      .millisecond(0);
+
+    setPendingPost(post);
+    setPendingDate(slot);
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingPost || !pendingDate) return;
+    setIsSaving(true);
+    const success = await onSchedule(pendingPost.id, pendingDate.toISOString());
+    setIsSaving(false);
+    if (success) {
+      setPendingPost(null);
+      setPendingDate(null);
+    }
+  };
+
+  const renderDraggablePost = (post: Post, compact = false) => (
+    <div
+      key={post.id}
+      draggable
+      onDragStart={(event) => event.dataTransfer.setData(DRAG_DATA_TYPE, post.id)}
+      className="flex items-center gap-1 rounded px-1.5 py-0.5 mb-1 cursor-grab text-xs"
+      style={{
+        background: post.status === "ready" ? "#e6f4ff" : "#f5f5f5",
+        border: "1px solid #bae0ff",
+      }}
+    >
+      <HolderOutlined className="text-gray-400" />
+      {post.scheduledFor && (
+        <Text strong className="text-[11px]!">
+          {dayjs(post.scheduledFor).format("HH:mm")}
+        </Text>
+      )}
+      <Tooltip title={post.title}>
+        <Text ellipsis className="text-[11px]!" style={{ maxWidth: compact ? 90 : 200 }}>
+          {post.title}
+        </Text>
+      </Tooltip>
+      {post.scheduledFor && (
+        <Tooltip title={t("unschedule")}>
+          <CloseOutlined
+            className="ml-auto text-gray-400 hover:text-red-500"
+            onClick={(event) => {
+              event.stopPropagation();
+              void onSchedule(post.id, null);
+            }}
+          />
+        </Tooltip>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+      <Card size="small" title={t("unscheduledTitle")} className="lg:col-span-1">
+        <Text type="secondary" className="text-xs block mb-2">
+          {t("unscheduledHelp")}
+        </Text>
+        {unscheduledReadyPosts.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t("noReadyPosts")} />
+        ) : (
+          <div className="max-h-[480px] overflow-y-auto">
+            {unscheduledReadyPosts.map((post) => renderDraggablePost(post))}
+          </div>
+        )}
+      </Card>
+
+      <Card size="small" className="lg:col-span-3">
+        <Calendar
+          cellRender={(date, info) => {
+            if (info.type !== "date") return info.originNode;
+            const dayPosts = postsForDay(date);
+            return (
+              <div
+                className="h-full min-h-[60px]"
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => handleDrop(event, date)}
+              >
+                {dayPosts.map((post) => renderDraggablePost(post, true))}
+              </div>
+            );
+          }}
+        />
+      </Card>
+
+      <Modal
+        title={t("confirmTitle")}
+        open={Boolean(pendingPost)}
+        onCancel={() => {
+          setPendingPost(null);
+          setPendingDate(null);
+        }}
+        footer={[
+          <Button
+            key="cancel"
+            onClick={() => {
+              setPendingPost(null);
+              setPendingDate(null);
+            }}
+          >
+            {tCommon("cancel")}
+          </Button>,
+          <Button
+            key="confirm"
+            type="primary"
+            loading={isSaving}
+            disabled={!pendingDate || pendingDate.isBefore(dayjs())}
+            onClick={handleConfirm}
+          >
+            {tCommon("save")}
+          </Button>,
+        ]}
+      >
+        {pendingPost && (
+          <div className="space-y-3">
+            <Tag color="blue">{pendingPost.title}</Tag>
+            <DatePicker
+              showTime={{ format: "HH:mm" }}
+              format="YYYY-MM-DD HH:mm"
+              value={pendingDate}
+              onChange={(value) => setPendingDate(value)}
+              disabledDate={(current) => current.isBefore(dayjs(), "day")}
+              style={{ width: "100%" }}
+            />
+            {pendingDate?.isBefore(dayjs()) && (
+              <Text type="danger" className="text-xs">
+                {t("pastDate")}
+              </Text>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
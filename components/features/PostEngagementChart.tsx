@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dynamic from "next/dynamic";
+import { Empty, Spin, Statistic, Typography } from "antd";
+import { useTranslations } from "next-intl";
+import { apiClient } from "@/lib/api-client";
+import { PostAnalyticsSnapshot } from "@/types/post";
+
+// G2 needs the browser (canvas), skip it during SSR
+const Line = dynamic(() => import("@ant-design/charts").then((mod) => mod.Line), {
+  ssr: false,
+});
+
+const { Text } = Typography;
+
+const METRICS = ["impressions", "reactions", "comments", "reshares"] as const;
+
+interface PostEngagementChartProps {
+  postId: string;
+}
+
+/**
+ * Engagement curves of a published post, built from the analytics snapshots
+ */
+export function PostEngagementChart({ postId }: PostEngagementChartProps) {
+  const t = useTranslations("posts.analytics");
+  const [snapshots, setSnapshots] = useState<PostAnalyticsSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadSnapshots = async () => {
+      setIsLoading(true);
+      try {
+        const data = await apiClient.get<PostAnalyticsSnapshot[]>(
+          `/api/posts/${postId}/analytics`
+        );
+        if (!cancelled) setSnapshots(data);
+      } catch (error) {
+        console.error("Error fetching post analytics:", error);
+        if (!cancelled) setSnapshots([]);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadSnapshots();
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Spin />
+      </div>
+    );
+  }
+
+  if (snapshots.length === 0) {
+    return (
+      <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t("empty")} />
+    );
+  }
+
+  const latest = snapshots[snapshots.length - 1];
+  const chartData = snapshots.flatMap((snapshot) =>
+    METRICS.map((metric) => ({
+      date: new Date(snapshot.capturedAt).toLocaleString(),
+      metric: t(`metrics.${metric}`),
+      value: snapshot[metric],
+    }))
+  );
+
+  return (
+    <div>
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        {METRICS.map((metric) => (
+          <Statistic
+            key={metric}
+            title={<Text type="secondary" className="text-xs">{t(`metrics.${metric}`)}</Text>}
+            value={latest[metric]}
+            valueStyle={{ fontSize: 18 }}
+          />
+        ))}
+      </div>
+      <Line
+        data={chartData}
+        xField="date"
+        yField="value"
+        colorField="metric"
+        height={220}
+        axis={{ x: { labelAutoHide: true } }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useMemo } from "react";
+import { Alert, Typography, theme } from "antd";
+import {
+  CheckCircleOutlined,
+  CloseCircleFilled,
+  ExclamationCircleFilled,
+  InfoCircleFilled,
+} from "@ant-design/icons";
+import { useTranslations } from "next-intl";
+import { LintSeverity, hasLintErrors, lintPost } from "@/lib/post-linter";
+
+const { Text } = Typography;
+
+interface PostLintPanelProps {
+  content: string;
+  /** Hashtags of the post, linted as appended to the content */
+  hashtags?: string[];
+  /** Status selected in the editor: errors block a "ready" post */
+  status?: string;
+  className?: string;
+}
+
+/**
+ * Live quality findings of the post being edited, errors first
+ */
+export function PostLintPanel({ content, hashtags, status, className }: PostLintPanelProps) {
+  const t = useTranslations("posts.lint");
+  const { token } = theme.useToken();
+  const findings = useMemo(() => lintPost(content || "", { hashtags }), [content, hashtags]);
+
+  if (!content?.trim()) return null;
+
+  const severityIcons: Record<LintSeverity, React.ReactNode> = {
+    error: <CloseCircleFilled style={{ color: token.colorError }} />,
+    warning: <ExclamationCircleFilled style={{ color: token.colorWarning }} />,
+    info: <InfoCircleFilled style={{ color: token.colorInfo }} />,
+  };
+
+  return (
+    <div
+      className={className}
+      style={{
+        border: `1px solid ${token.colorBorderSecondary}`,
+        borderRadius: token.borderRadius,
+        padding: "8px 12px",
+      }}
+    >
+      <Text strong className="text-xs block mb-1">
+        {t("title")}
+      </Text>
+      {findings.length === 0 ? (
+        <Text type="success" className="text-xs">
+          <CheckCircleOutlined /> {t("clean")}
+        </Text>
+      ) : (
+        <ul className="flex flex-col gap-1 text-xs">
+          {findings.map((finding, index) => (
+            <li key={`${finding.rule}-${index}`} className="flex items-start gap-2">
+              <span className="shrink-0">{severityIcons[finding.severity]}</span>
+              <Text className="text-xs">{t(`rules.${finding.rule}`, finding.params)}</Text>
+            </li>
+          ))}
+        </ul>
+      )}
+      {status === "ready" && hasLintErrors(findings) && (
+        <Alert type="error" showIcon className="!mt-2" message={t("blocksReady")} />
+      )}
+    </div>
+  );
+}
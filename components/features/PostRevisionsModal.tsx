@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button, Empty, List, Modal, Popconfirm, Tag, Typography, theme } from "antd";
+import { RollbackOutlined } from "@ant-design/icons";
+import { useLocale, useTranslations } from "next-intl";
+import { usePostRevisions } from "@/hooks/usePostRevisions";
+import { buildSideBySideDiff, DiffLine } from "@/lib/text-diff";
+import { PostRevision, PostRevisionSource } from "@/types/post";
+
+const { Text } = Typography;
+
+const sourceColors: Record<PostRevisionSource, string> = {
+  manual: "default",
+  assist_edit: "purple",
+  generation: "blue",
+  generation_rewrite: "geekblue",
+  restore: "orange",
+};
+
+interface PostRevisionsModalProps {
+  open: boolean;
+  onClose: () => void;
+  postId: string | null;
+  /** Text currently in the editor, compared with the selected version */
+  currentTitle: string;
+  currentContent: string;
+  /** Save the revision as the post text. Returns false on failure. */
+  onRestore: (revision: PostRevision) => Promise<boolean>;
+  isMobile?: boolean;
+}
+
+/**
+ * Version history of a post: saved versions, a side-by-side diff of the
+ * selected one against the editor text, and a one-click restore
+ */
+export function PostRevisionsModal({
+  open,
+  onClose,
+  postId,
+  currentTitle,
+  currentContent,
+  onRestore,
+  isMobile = false,
+}: PostRevisionsModalProps) {
+  const t = useTranslations("posts.revisions");
+  const locale = useLocale();
+  const { token } = theme.useToken();
+  const { revisions, isLoading, fetchRevisions } = usePostRevisions();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (open && postId) {
+      setSelectedId(null);
+      void fetchRevisions(postId);
+    }
+  }, [open, postId, fetchRevisions]);
+
+  const selected = revisions.find((revision) => revision.id === selectedId) || revisions[0] || null;
+
+  const rows = useMemo(
+    () => (selected ? buildSideBySideDiff(selected.content, currentContent) : []),
+    [selected, currentContent]
+  );
+  const hasChanges = Boolean(
+    selected && (selected.title !== currentTitle || selected.content !== currentContent)
+  );
+
+  const handleRestore = async () => {
+    if (!selected || !postId) return;
+    setIsRestoring(true);
+    try {
+      if (await onRestore(selected)) {
+        await fetchRevisions(postId);
+        setSelectedId(null);
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const lineStyle = (line: DiffLine | null): React.CSSProperties => ({
+    padding: "0 8px",
+    minHeight: 20,
+    whiteSpace: "pre-wrap",
+    wordBreak: "break-word",
+    background: !line
+      ? token.colorFillQuaternary
+      : line.type === "removed"
+        ? token.colorErrorBg
+        : line.type === "added"
+          ? token.colorSuccessBg
+          : undefined,
+  });
+
+  return (
+    <Modal
+      title={t("title")}
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      width={isMobile ? "95%" : 1000}
+      centered={isMobile}
+    >
+      {!isLoading && revisions.length === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t("empty")} />
+      ) : (
+        <div className="flex flex-col md:flex-row gap-4">
+          <List
+            className="md:w-64 shrink-0"
+            loading={isLoading}
+            dataSource={revisions}
+            style={{ maxHeight: isMobile ? 200 : 520, overflowY: "auto" }}
+            renderItem={(revision) => (
+              <List.Item
+                onClick={() => setSelectedId(revision.id)}
+                className="cursor-pointer"
+                style={{
+                  padding: "8px",
+                  borderRadius: token.borderRadius,
+                  background: revision.id === selected?.id ? token.colorPrimaryBg : undefined,
+                }}
+              >
+                <div className="min-w-0">
+                  <Text className="text-xs block">
+                    {new Date(revision.createdAt).toLocaleString(locale, {
+                      dateStyle: "medium",
+                      timeStyle: "short",
+                    })}
+                  </Text>
+                  <Tag color={sourceColors[revision.source]} className="!mt-1">
+                    {t(`sources.${revision.source}`)}
+                  </Tag>
+                </div>
+              </List.Item>
+            )}
+          />
+
+          {selected && (
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <Text type="secondary" className="text-xs">
+                  {hasChanges ? t("diffHelp") : t("identical")}
+                </Text>
+                <Popconfirm
+                  title={t("restoreConfirm")}
+                  onConfirm={handleRestore}
+                  disabled={!hasChanges}
+                >
+                  <Button
+                    icon={<RollbackOutlined />}
+                    loading={isRestoring}
+                    disabled={!hasChanges}
+                  >
+                    {t("restore")}
+                  </Button>
+                </Popconfirm>
+              </div>
+
+              {selected.title !== currentTitle && (
+                <div className="grid grid-cols-2 mb-2 text-sm">
+                  <div style={lineStyle({ type: "removed", text: selected.title })}>
+                    <Text strong>{selected.title}</Text>
+                  </div>
+                  <div style={lineStyle({ type: "added", text: currentTitle })}>
+                    <Text strong>{currentTitle}</Text>
+                  </div>
+                </div>
+              )}
+
+              <div
+                className="text-sm"
+                style={{
+                  border: `1px solid ${token.colorBorderSecondary}`,
+                  borderRadius: token.borderRadius,
+                  maxHeight: 480,
+                  overflowY: "auto",
+                }}
+              >
+                <div
+                  className="grid grid-cols-2 sticky top-0"
+                  style={{ background: token.colorBgContainer, zIndex: 1 }}
+                >
+                  <Text strong className="px-2 py-1">{t("selectedVersion")}</Text>
+                  <Text strong className="px-2 py-1">{t("currentVersion")}</Text>
+                </div>
+                {rows.map((row, index) => (
+                  <div key={index} className="grid grid-cols-2">
+                    <div style={lineStyle(row.left)}>{row.left?.text}</div>
+                    <div style={lineStyle(row.right)}>{row.right?.text}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect } from "react";
+import { Drawer, Table, Tag, Typography, Tooltip, Button, Empty } from "antd";
+import { ReloadOutlined, PictureOutlined } from "@ant-design/icons";
+import type { ColumnsType } from "antd/es/table";
+import { useTranslations } from "next-intl";
+import { usePublishAttempts } from "@/hooks/usePublishAttempts";
+import { PublishAttempt, PublishAttemptOutcome } from "@/types/post";
+
+const { Text } = Typography;
+
+const outcomeColors: Record<PublishAttemptOutcome, string> = {
+  success: "green",
+  retrying: "orange",
+  failed: "red",
+};
+
+interface PublishHistoryPanelProps {
+  open: boolean;
+  onClose: () => void;
+  /** Restrict the history to a single post */
+  postId?: string | null;
+  isMobile?: boolean;
+}
+
+/**
+ * Drawer listing automatic publication attempts (schedule runs, calendar slots and retries)
+ */
+export function PublishHistoryPanel({
+  open,
+  onClose,
+  postId,
+  isMobile = false,
+}: PublishHistoryPanelProps) {
+  const t = useTranslations("posts.history");
+  const { attempts, isLoading, fetchAttempts } = usePublishAttempts();
+
+  useEffect(() => {
+    if (open) {
+      void fetchAttempts(postId || undefined);
+    }
+  }, [open, postId, fetchAttempts]);
+
+  const columns: ColumnsType<PublishAttempt> = [
+    {
+      title: t("date"),
+      dataIndex: "createdAt",
+      key: "createdAt",
+      width: 150,
+      render: (date: string) => (
+        <Text type="secondary" className="text-xs">
+          {new Date(date).toLocaleString()}
+        </Text>
+      ),
+    },
+    ...(!postId
+      ? [
+          {
+            title: t("post"),
+            key: "post",
+            ellipsis: true,
+            render: (_: unknown, record: PublishAttempt) => (
+              <Text ellipsis={{ tooltip: record.post?.title }}>
+                {record.post?.title || "-"}
+              </Text>
+            ),
+          },
+        ]
+      : []),
+    {
+      title: t("source"),
+      key: "source",
+      width: 150,
+      render: (_, record) => (
+        <div>
+          <Text className="text-xs">
+            {record.trigger === "schedule"
+              ? record.scheduleName || t("deletedSchedule")
+              : t("calendarSlot")}
+          </Text>
+          {record.attempt > 1 && (
+            <Text type="secondary" className="text-xs block">
+              {t("retry", { attempt: record.attempt })}
+            </Text>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: t("outcome"),
+      key: "outcome",
+      render: (_, record) => (
+        <div className="space-y-1">
+          <div className="flex items-center gap-1 flex-wrap">
+            <Tag color={outcomeColors[record.outcome]}>
+              {t(`outcomes.${record.outcome}`)}
+            </Tag>
+            {record.imagesDropped && (
+              <Tooltip title={t("imagesDroppedHelp")}>
+                <Tag icon={<PictureOutlined />} color="warning">
+                  {t("imagesDropped")}
+                </Tag>
+              </Tooltip>
+            )}
+          </div>
+          {record.errorMessage && (
+            <Text type="danger" className="text-xs block">
+              {record.errorStatus ? `${record.errorStatus} · ` : ""}
+              {record.errorMessage}
+            </Text>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Drawer
+      title={t("title")}
+      open={open}
+      onClose={onClose}
+      width={isMobile ? "100%" : 720}
+      extra={
+        <Button
+          size="small"
+          icon={<ReloadOutlined />}
+          loading={isLoading}
+          onClick={() => void fetchAttempts(postId || undefined)}
+        />
+      }
+    >
+      <Text type="secondary" className="text-xs block mb-3">
+        {t("description")}
+      </Text>
+      <Table
+        columns={columns}
+        dataSource={attempts}
+        rowKey="id"
+        loading={isLoading}
+        size="small"
+        pagination={{ pageSize: 20, showSizeChanger: false }}
+        locale={{
+          emptyText: (
+            <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t("empty")} />
+          ),
+        }}
+      />
+    </Drawer>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  List,
+  Button,
+  Modal,
+  Form,
+  Input,
+  Select,
+  Space,
+  Tag,
+  Tooltip,
+  Popconfirm,
+  Typography,
+  message,
+} from "antd";
+import {
+  SendOutlined,
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  UserOutlined,
+  BankOutlined,
+} from "@ant-design/icons";
+import { useTranslations } from "next-intl";
+import { usePublishingTargets } from "@/hooks/usePublishingTargets";
+import {
+  PublishingTarget,
+  PublishingTargetFormData,
+  PublishingTargetType,
+} from "@/types/publishing-target";
+
+const { Text } = Typography;
+
+/**
+ * Settings card managing the profiles and company pages posts can be published to
+ */
+export function PublishingTargetsCard() {
+  const t = useTranslations("publishingTargets");
+  const [form] = Form.useForm<PublishingTargetFormData>();
+  const [messageApi, contextHolder] = message.useMessage();
+  const { targets, isLoading, isSaving, createTarget, updateTarget, deleteTarget } =
+    usePublishingTargets();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTarget, setEditingTarget] = useState<PublishingTarget | null>(null);
+  const selectedType = Form.useWatch("type", form);
+
+  const openModal = (target?: PublishingTarget) => {
+    setEditingTarget(target || null);
+    form.setFieldsValue(
+      target
+        ? {
+            name: target.name,
+            type: target.type,
+            organization: target.organizationUrn || undefined,
+            visibility: target.visibility,
+          }
+        : { name: "", type: "organization", organization: undefined, visibility: "PUBLIC" }
+    );
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingTarget(null);
+    form.resetFields();
+  };
+
+  const handleTypeChange = (type: PublishingTargetType) => {
+    // Company pages only accept public posts
+    if (type === "organization") {
+      form.setFieldValue("visibility", "PUBLIC");
+    }
+  };
+
+  const handleSubmit = async (values: PublishingTargetFormData) => {
+    const result = editingTarget
+      ? await updateTarget(editingTarget.id, values)
+      : await createTarget(values);
+
+    if (result.success) {
+      messageApi.success(editingTarget ? t("updated") : t("created"));
+      closeModal();
+    } else {
+      messageApi.error(result.error || t("saveError"));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteTarget(id);
+    if (result.success) {
+      messageApi.success(t("deleted"));
+    } else {
+      messageApi.error(result.error || t("deleteError"));
+    }
+  };
+
+  return (
+    <Card
+      title={
+        <Space>
+          <SendOutlined />
+          <span>{t("title")}</span>
+        </Space>
+      }
+      extra={
+        <Button icon={<PlusOutlined />} onClick={() => openModal()}>
+          {t("add")}
+        </Button>
+      }
+    >
+      {contextHolder}
+      <Text type="secondary" className="block mb-4">
+        {t("description")}
+      </Text>
+
+      <List
+        loading={isLoading}
+        dataSource={targets}
+        locale={{ emptyText: t("empty") }}
+        renderItem={(target) => (
+          <List.Item
+            actions={[
+              <Tooltip key="edit" title={t("edit")}>
+                <Button
+                  type="text"
+                  size="small"
+                  icon={<EditOutlined />}
+                  onClick={() => openModal(target)}
+                />
+              </Tooltip>,
+              <Popconfirm
+                key="delete"
+                title={t("deleteConfirm")}
+                onConfirm={() => handleDelete(target.id)}
+                okText={t("delete")}
+                cancelText={t("cancel")}
+                okButtonProps={{ danger: true }}
+              >
+                <Button type="text" size="small" icon={<DeleteOutlined />} danger />
+              </Popconfirm>,
+            ]}
+          >
+            <List.Item.Meta
+              avatar={target.type === "organization" ? <BankOutlined /> : <UserOutlined />}
+              title={
+                <Space wrap>
+                  <span>{target.name}</span>
+                  <Tag>{t(`types.${target.type}`)}</Tag>
+                  <Tag color={target.visibility === "PUBLIC" ? "blue" : "default"}>
+                    {t(`visibilities.${target.visibility}`)}
+                  </Tag>
+                </Space>
+              }
+              description={target.organizationUrn || undefined}
+            />
+          </List.Item>
+        )}
+      />
+
+      <Modal
+        title={editingTarget ? t("editTitle") : t("addTitle")}
+        open={isModalOpen}
+        onCancel={closeModal}
+        onOk={() => form.submit()}
+        okText={t("save")}
+        cancelText={t("cancel")}
+        confirmLoading={isSaving}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item
+            name="name"
+            label={t("name")}
+            rules={[{ required: true, whitespace: true, message: t("nameRequired") }]}
+          >
+            <Input placeholder={t("namePlaceholder")} />
+          </Form.Item>
+
+          <Form.Item name="type" label={t("type")} rules={[{ required: true }]}>
+            <Select
+              onChange={handleTypeChange}
+              options={[
+                { value: "organization", label: t("types.organization") },
+                { value: "person", label: t("types.person") },
+              ]}
+            />
+          </Form.Item>
+
+          {selectedType === "organization" && (
+            <Form.Item
+              name="organization"
+              label={t("organization")}
+              extra={t("organizationHelp")}
+              rules={[{ required: true, whitespace: true, message: t("organizationRequired") }]}
+            >
+              <Input placeholder="urn:li:organization:12345678" />
+            </Form.Item>
+          )}
+
+          <Form.Item name="visibility" label={t("visibility")} rules={[{ required: true }]}>
+            <Select
+              options={[
+                { value: "PUBLIC", label: t("visibilities.PUBLIC") },
+                {
+                  value: "CONNECTIONS",
+                  label: t("visibilities.CONNECTIONS"),
+                  disabled: selectedType === "organization",
+                },
+              ]}
+            />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Card>
+  );
+}
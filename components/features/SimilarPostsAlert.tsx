@@ -0,0 +1,54 @@
+"use client";
+
+import { Alert, Typography } from "antd";
+import { useTranslations } from "next-intl";
+import { SimilarPost } from "@/types/post";
+
+const { Text } = Typography;
+
+interface SimilarPostsAlertProps {
+  similarPosts: SimilarPost[];
+  className?: string;
+}
+
+/**
+ * Existing posts a text is too close to, with the passage each one shares
+ */
+export function SimilarPostsAlert({ similarPosts, className }: SimilarPostsAlertProps) {
+  const t = useTranslations("posts.similarity");
+  const tStatus = useTranslations("postStatus");
+
+  if (similarPosts.length === 0) return null;
+
+  return (
+    <Alert
+      type="warning"
+      showIcon
+      className={className}
+      message={t("title", { count: similarPosts.length })}
+      description={
+        <div className="flex flex-col gap-2">
+          {similarPosts.map((post) => (
+            <div key={post.id}>
+              <Text strong>{post.title}</Text>{" "}
+              <Text type="secondary">
+                {t("match", {
+                  status: tStatus(post.status),
+                  percent: Math.round(post.similarity * 100),
+                })}
+              </Text>
+              {post.sharedPassage && (
+                <Text type="secondary" className="block text-xs">
+                  {t("sharedPassage", { passage: post.sharedPassage })}
+                </Text>
+              )}
+            </div>
+          ))}
+          <Text type="secondary" className="text-xs">
+            {t("saveAnyway")}
+          </Text>
+        </div>
+      }
+    />
+  );
+}
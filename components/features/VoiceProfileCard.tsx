@@ -0,0 +1,123 @@
+"use client";
+
+import { Button, Card, Descriptions, Empty, Space, Tag, Typography, message } from "antd";
+import { ReloadOutlined, SoundOutlined } from "@ant-design/icons";
+import { useLocale, useTranslations } from "next-intl";
+import { useVoiceProfile } from "@/hooks/useVoiceProfile";
+
+const { Text } = Typography;
+
+/**
+ * Settings card of the writing voice learned from the user's published posts,
+ * used by generation and AI edits
+ */
+export function VoiceProfileCard() {
+  const t = useTranslations("voiceProfile");
+  const locale = useLocale();
+  const [messageApi, contextHolder] = message.useMessage();
+  const { status, isLoading, isRefreshing, refreshProfile } = useVoiceProfile();
+  const profile = status?.profile ?? null;
+  const canRefresh = Boolean(status && status.publishedPostCount >= status.minPosts);
+
+  const handleRefresh = async () => {
+    const result = await refreshProfile();
+    if (result.success) {
+      messageApi.success(t("refreshed"));
+    } else {
+      messageApi.error(result.error || t("refreshError"));
+    }
+  };
+
+  const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+  return (
+    <Card
+      loading={isLoading}
+      title={
+        <Space>
+          <SoundOutlined />
+          <span>{t("title")}</span>
+        </Space>
+      }
+    >
+      {contextHolder}
+      <Text type="secondary" className="block mb-4">
+        {t("description")}
+      </Text>
+
+      {profile ? (
+        <Descriptions column={{ xs: 1, md: 2 }} size="small" className="mb-4">
+          <Descriptions.Item label={t("postLength")}>
+            {t("words", { count: profile.avgWordsPerPost })}
+          </Descriptions.Item>
+          <Descriptions.Item label={t("sentenceLength")}>
+            {t("words", { count: profile.avgWordsPerSentence })}
+          </Descriptions.Item>
+          <Descriptions.Item label={t("emojis")}>
+            {t("emojisPerPost", { count: profile.emojisPerPost })}
+            {profile.topEmojis.length > 0 && ` ${profile.topEmojis.join(" ")}`}
+          </Descriptions.Item>
+          <Descriptions.Item label={t("questionEndings")}>
+            {percent(profile.questionEndingRatio)}
+          </Descriptions.Item>
+          <Descriptions.Item label={t("lists")}>{percent(profile.listRatio)}</Descriptions.Item>
+          <Descriptions.Item label={t("hooks")}>
+            <Space size={[0, 4]} wrap>
+              {profile.hookPatterns.slice(0, 3).map(({ pattern, share }) => (
+                <Tag key={pattern}>
+                  {t(`hookPatterns.${pattern}`)} {percent(share)}
+                </Tag>
+              ))}
+            </Space>
+          </Descriptions.Item>
+          <Descriptions.Item label={t("signaturePhrases")} span={2}>
+            {profile.signaturePhrases.length > 0 ? (
+              <Space size={[0, 4]} wrap>
+                {profile.signaturePhrases.map((phrase) => (
+                  <Tag key={phrase} color="blue">
+                    {phrase}
+                  </Tag>
+                ))}
+              </Space>
+            ) : (
+              <Text type="secondary">{t("noSignaturePhrases")}</Text>
+            )}
+          </Descriptions.Item>
+        </Descriptions>
+      ) : (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          className="!mb-4"
+          description={
+            canRefresh
+              ? t("notBuilt")
+              : t("notEnoughPosts", {
+                  count: status?.publishedPostCount ?? 0,
+                  min: status?.minPosts ?? 0,
+                })
+          }
+        />
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <Text type="secondary">
+          {status?.updatedAt
+            ? t("lastRefresh", {
+                date: new Date(status.updatedAt).toLocaleString(locale),
+                count: profile?.postCount ?? 0,
+              })
+            : t("neverRefreshed")}
+        </Text>
+        <Button
+          type="primary"
+          icon={<ReloadOutlined />}
+          loading={isRefreshing}
+          disabled={!canRefresh}
+          onClick={handleRefresh}
+        >
+          {profile ? t("refresh") : t("build")}
+        </Button>
+      </div>
+    </Card>
+  );
+}
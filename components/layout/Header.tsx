@@ -12,6 +12,7 @@ import {
 import type { MenuProps } from "antd";
 import { Link } from "@/i18n/routing";
 import { LanguageSwitcher } from "@/components/ui/LanguageSwitcher";
+import { NotificationBell } from "./NotificationBell";
 
 const { Header: AntHeader } = Layout;
 
@@ -74,6 +75,7 @@ export function Header({ onMenuClick, showMenuButton = false }: HeaderProps) {
 
       <Space size="middle">
         <LanguageSwitcher />
+        {session?.user && <NotificationBell />}
         {session?.user && (
           <Dropdown
             menu={{ items: userMenuItems }}
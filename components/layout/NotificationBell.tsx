@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { Badge, Button, Empty, List, Popover, Typography, theme } from "antd";
+import {
+  BellOutlined,
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  PauseCircleOutlined,
+  RobotOutlined,
+  SearchOutlined,
+  ClockCircleOutlined,
+  MailOutlined,
+} from "@ant-design/icons";
+import { useRouter } from "@/i18n/routing";
+import { useNotifications } from "@/hooks/useNotifications";
+import type { AppNotification, NotificationType } from "@/types/notification";
+
+const { Text } = Typography;
+
+const typeIcons: Record<NotificationType, React.ReactNode> = {
+  post_published: <CheckCircleOutlined style={{ color: "#10b981" }} />,
+  post_failed: <CloseCircleOutlined style={{ color: "#ef4444" }} />,
+  schedule_skipped: <PauseCircleOutlined style={{ color: "#f59e0b" }} />,
+  drafts_to_review: <RobotOutlined style={{ color: "#722ed1" }} />,
+  job_matches: <SearchOutlined style={{ color: "#6366f1" }} />,
+  followups_due: <ClockCircleOutlined style={{ color: "#f59e0b" }} />,
+  hunter_quota_low: <MailOutlined style={{ color: "#ef4444" }} />,
+};
+
+/**
+ * Header bell listing background events, with the unread count as a badge
+ */
+export function NotificationBell() {
+  const t = useTranslations("notifications");
+  const locale = useLocale();
+  const router = useRouter();
+  const { token } = theme.useToken();
+  const { notifications, unreadCount, isLoading, markAsRead, markAllAsRead } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleClick = async (notification: AppNotification) => {
+    if (!notification.readAt) {
+      await markAsRead(notification.id);
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  const content = (
+    <div style={{ width: 340, maxWidth: "85vw" }}>
+      <div className="flex items-center justify-between mb-2">
+        <Text strong>{t("title")}</Text>
+        <Button type="link" size="small" disabled={unreadCount === 0} onClick={markAllAsRead}>
+          {t("markAllRead")}
+        </Button>
+      </div>
+      <List
+        loading={isLoading}
+        dataSource={notifications}
+        locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t("empty")} /> }}
+        style={{ maxHeight: 400, overflowY: "auto" }}
+        renderItem={(notification) => (
+          <List.Item
+            onClick={() => handleClick(notification)}
+            className="cursor-pointer"
+            style={{
+              padding: "8px",
+              background: notification.readAt ? undefined : token.colorPrimaryBg,
+              borderRadius: token.borderRadius,
+            }}
+          >
+            <List.Item.Meta
+              avatar={typeIcons[notification.type]}
+              title={
+                <Text style={{ fontWeight: notification.readAt ? 400 : 600, fontSize: 13 }}>
+                  {t(`types.${notification.type}`, notification.data)}
+                </Text>
+              }
+              description={
+                <Text type="secondary" style={{ fontSize: 12 }}>
+                  {new Date(notification.createdAt).toLocaleString(locale, {
+                    dateStyle: "medium",
+                    timeStyle: "short",
+                  })}
+                </Text>
+              }
+            />
+          </List.Item>
+        )}
+      />
+    </div>
+  );
+
+  return (
+    <Popover
+      content={content}
+      trigger="click"
+      placement="bottomRight"
+      open={isOpen}
+      onOpenChange={setIsOpen}
+    >
+      <Badge count={unreadCount} size="small" overflowCount={99}>
+        <Button type="text" icon={<BellOutlined />} aria-label={t("title")} />
+      </Badge>
+    </Popover>
+  );
+}
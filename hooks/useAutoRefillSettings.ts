@@ -0,0 +1,57 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { AutoRefillSettings } from "@/types/profile";
+
+export type AutoRefillFormData = Omit<AutoRefillSettings, "lastAutoRefillAt">;
+
+export function useAutoRefillSettings() {
+  const [settings, setSettings] = useState<AutoRefillSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await apiClient.get<AutoRefillSettings>("/api/profile/auto-refill");
+      setSettings(data);
+    } catch (err) {
+      setError("Failed to fetch auto-refill settings");
+      console.error("Error fetching auto-refill settings:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateSettings = async (data: AutoRefillFormData): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await apiClient.put<AutoRefillSettings>("/api/profile/auto-refill", data);
+      setSettings(updated);
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update auto-refill settings";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    settings,
+    isLoading,
+    isSaving,
+    error,
+    fetchSettings,
+    updateSettings,
+  };
+}
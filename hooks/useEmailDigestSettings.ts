@@ -0,0 +1,57 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { EmailDigestSettings } from "@/types/profile";
+
+export type EmailDigestFormData = Pick<EmailDigestSettings, "enabled" | "time" | "timezone">;
+
+export function useEmailDigestSettings() {
+  const [settings, setSettings] = useState<EmailDigestSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await apiClient.get<EmailDigestSettings>("/api/profile/email-digest");
+      setSettings(data);
+    } catch (err) {
+      setError("Failed to fetch email digest settings");
+      console.error("Error fetching email digest settings:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateSettings = async (data: EmailDigestFormData): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await apiClient.put<EmailDigestSettings>("/api/profile/email-digest", data);
+      setSettings(updated);
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update email digest settings";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    settings,
+    isLoading,
+    isSaving,
+    error,
+    fetchSettings,
+    updateSettings,
+  };
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { GenerationPreset, GenerationPresetFormData } from "@/types/generation-preset";
+
+export function useGenerationPresets() {
+  const [presets, setPresets] = useState<GenerationPreset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPresets = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await apiClient.get<GenerationPreset[]>("/api/generation-presets");
+      setPresets(data);
+    } catch (err) {
+      setError("Failed to fetch generation presets");
+      console.error("Error fetching generation presets:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const createPreset = async (
+    data: GenerationPresetFormData
+  ): Promise<{ success: boolean; preset?: GenerationPreset; error?: string }> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const preset = await apiClient.post<GenerationPreset>("/api/generation-presets", data);
+      setPresets((prev) => [...prev, preset].sort((a, b) => a.name.localeCompare(b.name)));
+      return { success: true, preset };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to create generation preset";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updatePreset = async (
+    id: string,
+    data: GenerationPresetFormData
+  ): Promise<{ success: boolean; preset?: GenerationPreset; error?: string }> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await apiClient.put<GenerationPreset>(`/api/generation-presets/${id}`, data);
+      setPresets((prev) => prev.map((preset) => (preset.id === id ? updated : preset)));
+      return { success: true, preset: updated };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update generation preset";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePreset = async (id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await apiClient.delete(`/api/generation-presets/${id}`);
+      setPresets((prev) => prev.filter((preset) => preset.id !== id));
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to delete generation preset";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    presets,
+    isLoading,
+    isSaving,
+    error,
+    fetchPresets,
+    createPreset,
+    updatePreset,
+    deletePreset,
+  };
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { HashtagLibraryEntry } from "@/types/hashtag";
+
+export function useHashtagLibrary() {
+  const [hashtags, setHashtags] = useState<HashtagLibraryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHashtags = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await apiClient.get<HashtagLibraryEntry[]>("/api/hashtags");
+      setHashtags(data);
+    } catch (err) {
+      setError("Failed to fetch hashtag library");
+      console.error("Error fetching hashtag library:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHashtags();
+  }, [fetchHashtags]);
+
+  const refreshLibrary = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsRefreshing(true);
+      setError(null);
+      const data = await apiClient.post<HashtagLibraryEntry[]>("/api/hashtags");
+      setHashtags(data);
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to refresh hashtag library";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return {
+    hashtags,
+    isLoading,
+    isRefreshing,
+    error,
+    fetchHashtags,
+    refreshLibrary,
+  };
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+
+export interface LinkedInTokenStatus {
+  connected: boolean;
+  expiresAt: string | null;
+  canRefresh: boolean;
+  needsReauth: boolean;
+  showWarning: boolean;
+  affectedSchedules: { id: string; name: string; nextRunAt: string | null }[];
+  affectedScheduledPosts: number;
+}
+
+export function useLinkedInTokenStatus() {
+  const [status, setStatus] = useState<LinkedInTokenStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await apiClient.get<LinkedInTokenStatus>("/api/linkedin/token-status");
+      setStatus(data);
+    } catch (err) {
+      console.error("Error fetching LinkedIn token status:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  return {
+    status,
+    isLoading,
+    refetch: fetchStatus,
+  };
+}
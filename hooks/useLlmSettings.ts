@@ -0,0 +1,57 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { LlmSettingsConfig, LlmSettingsResponse } from "@/types/llm";
+
+export type LlmSettingsFormData = Partial<LlmSettingsConfig>;
+
+export function useLlmSettings() {
+  const [settings, setSettings] = useState<LlmSettingsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await apiClient.get<LlmSettingsResponse>("/api/admin/llm-settings");
+      setSettings(data);
+    } catch (err) {
+      setError("Failed to fetch AI settings");
+      console.error("Error fetching AI settings:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateSettings = async (data: LlmSettingsFormData): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await apiClient.put<LlmSettingsResponse>("/api/admin/llm-settings", data);
+      setSettings(updated);
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update AI settings";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    settings,
+    isLoading,
+    isSaving,
+    error,
+    fetchSettings,
+    updateSettings,
+  };
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { AppNotification, NotificationsResponse } from "@/types/notification";
+
+/** Background events are picked up without reloading the page */
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export function useNotifications() {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      setError(null);
+      const data = await apiClient.get<NotificationsResponse>("/api/notifications");
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch (err) {
+      setError("Failed to fetch notifications");
+      console.error("Error fetching notifications:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const markAsRead = async (id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await apiClient.post(`/api/notifications/${id}/read`);
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((notification) =>
+          notification.id === id && !notification.readAt ? { ...notification, readAt } : notification
+        )
+      );
+      setUnreadCount((prev) =>
+        notifications.some((notification) => notification.id === id && !notification.readAt)
+          ? Math.max(0, prev - 1)
+          : prev
+      );
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to mark notification as read";
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const markAllAsRead = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await apiClient.post("/api/notifications/read-all");
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((notification) => (notification.readAt ? notification : { ...notification, readAt }))
+      );
+      setUnreadCount(0);
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to mark notifications as read";
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount,
+    isLoading,
+    error,
+    fetchNotifications,
+    markAsRead,
+    markAllAsRead,
+  };
+}
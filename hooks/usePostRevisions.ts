@@ -0,0 +1,32 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { PostRevision } from "@/types/post";
+
+export function usePostRevisions() {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async (postId: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await apiClient.get<PostRevision[]>(`/api/posts/${postId}/revisions`);
+      setRevisions(data);
+    } catch (err) {
+      setError("Failed to fetch post revisions");
+      console.error("Error fetching post revisions:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    revisions,
+    isLoading,
+    error,
+    fetchRevisions,
+  };
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { Post, PostStats, PostStatus, PostFormData } from "@/types/post";
+import { Post, PostStats, PostStatus, PostFormData, PostRevisionSource } from "@/types/post";
 import { apiClient } from "@/lib/api-client";
 
 interface PublishResult {
@@ -11,6 +11,12 @@ interface PublishResult {
   warnings?: string[];
 }
 
+interface SyncResult {
+  success: boolean;
+  error?: string;
+  warnings?: string[];
+}
+
 interface PublishResponse {
   success: boolean;
   linkedInPostId?: string;
@@ -57,7 +63,12 @@ export function usePosts() {
 
   // Update a post
   const updatePost = useCallback(
-    async (id: string, updates: Partial<Omit<Post, "id" | "createdAt" | "userId">>): Promise<boolean> => {
+    async (
+      id: string,
+      updates: Partial<Omit<Post, "id" | "createdAt" | "userId">> & {
+        revisionSource?: PostRevisionSource;
+      }
+    ): Promise<boolean> => {
       try {
         const updatedPost = await apiClient.put<Post>(`/api/posts/${id}`, updates);
         setPosts((prev) => prev.map((post) => (post.id === id ? updatedPost : post)));
@@ -88,21 +99,9 @@ export function usePosts() {
       setIsPublishing(true);
 
       try {
-        // Always fetch latest server version to avoid publishing stale local edits.
-        const latestPost = await apiClient.get<Post>(`/api/posts/${id}`);
-        if (!latestPost) {
-          return { success: false, error: "Post not found" };
-        }
-
-        const primaryImageUrl =
-          latestPost.imageUrls && latestPost.imageUrls.length > 0
-            ? latestPost.imageUrls[0]
-            : latestPost.imageUrl || null;
+        // The server publishes its stored version of the post, never stale local edits.
         const data = await apiClient.post<PublishResponse>("/api/linkedin/publish", {
-          content: latestPost.content,
           postId: id,
-          imageUrl: primaryImageUrl,
-          imageUrls: latestPost.imageUrls || [],
         });
 
         // Refetch posts to get updated status and linkedInUrn from server
@@ -123,6 +122,23 @@ export function usePosts() {
     [fetchPosts]
   );
 
+  // Push local edits of a published post to LinkedIn
+  const syncPostToLinkedIn = useCallback(
+    async (id: string): Promise<SyncResult> => {
+      try {
+        const data = await apiClient.post<{ warnings: string[] }>(
+          `/api/posts/${id}/sync-linkedin`
+        );
+        await fetchPosts();
+        return { success: true, warnings: data.warnings || [] };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Network error. Please try again.";
+        return { success: false, error: message };
+      }
+    },
+    [fetchPosts]
+  );
+
   // Get post by ID
   const getPost = useCallback(
     (id: string) => posts.find((post) => post.id === id),
@@ -141,10 +157,12 @@ export function usePosts() {
   // Calculate stats (memoized for performance)
   const stats = useMemo<PostStats>(() => {
     const draft = posts.filter((p) => p.status === "draft").length;
+    const needs_review = posts.filter((p) => p.status === "needs_review").length;
     const ready = posts.filter((p) => p.status === "ready").length;
     const published = posts.filter((p) => p.status === "published").length;
+    const failed = posts.filter((p) => p.status === "failed").length;
 
-    return { total: posts.length, draft, ready, published };
+    return { total: posts.length, draft, needs_review, ready, published, failed };
   }, [posts]);
 
   return {
@@ -156,6 +174,7 @@ export function usePosts() {
     updatePost,
     deletePost,
     publishPost,
+    syncPostToLinkedIn,
     getPost,
     filterByStatus,
     refetch: fetchPosts,
@@ -0,0 +1,35 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { PublishAttempt } from "@/types/post";
+
+export function usePublishAttempts() {
+  const [attempts, setAttempts] = useState<PublishAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAttempts = useCallback(async (postId?: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const query = postId ? `?postId=${encodeURIComponent(postId)}` : "";
+      const data = await apiClient.get<PublishAttempt[]>(
+        `/api/posts/publish-attempts${query}`
+      );
+      setAttempts(data);
+    } catch (err) {
+      setError("Failed to fetch publication history");
+      console.error("Error fetching publish attempts:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    attempts,
+    isLoading,
+    error,
+    fetchAttempts,
+  };
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { PublishingTarget, PublishingTargetFormData } from "@/types/publishing-target";
+
+export function usePublishingTargets() {
+  const [targets, setTargets] = useState<PublishingTarget[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTargets = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await apiClient.get<PublishingTarget[]>("/api/publishing-targets");
+      setTargets(data);
+    } catch (err) {
+      setError("Failed to fetch publishing targets");
+      console.error("Error fetching publishing targets:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTargets();
+  }, [fetchTargets]);
+
+  const createTarget = async (data: PublishingTargetFormData): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const target = await apiClient.post<PublishingTarget>("/api/publishing-targets", data);
+      setTargets((prev) => [...prev, target]);
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to create publishing target";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateTarget = async (id: string, data: PublishingTargetFormData): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await apiClient.put<PublishingTarget>(`/api/publishing-targets/${id}`, data);
+      setTargets((prev) => prev.map((target) => (target.id === id ? updated : target)));
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update publishing target";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteTarget = async (id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await apiClient.delete(`/api/publishing-targets/${id}`);
+      setTargets((prev) => prev.filter((target) => target.id !== id));
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to delete publishing target";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    targets,
+    isLoading,
+    isSaving,
+    error,
+    fetchTargets,
+    createTarget,
+    updateTarget,
+    deleteTarget,
+  };
+}
@@ -8,31 +8,53 @@ export interface Schedule {
   name: string;
   isActive: boolean;
   isRecurring: boolean;
+  /** First of daysOfWeek */
   dayOfWeek: number;
+  daysOfWeek: number[];
   times: string[];
   timezone: string;
+  intervalWeeks: number;
+  intervalAnchor: string | null;
+  excludedDates: string[];
+  targetId: string | null;
+  /** Post queue the schedule publishes from; null = any ready post */
+  queue: string | null;
   userId: string;
   createdAt: string;
   updatedAt: string;
   lastRunAt: string | null;
   nextRunAt: string | null;
+  /** Next fire times across all rules (computed by the API) */
+  upcomingRuns: string[];
+  /** Posts the schedule can currently pick (list endpoint only) */
+  queueDepth?: number;
+  /** First upcoming run that will find the queue empty (list endpoint only) */
+  runsDryAt?: string | null;
 }
 
 export interface CreateScheduleData {
   name: string;
-  dayOfWeek: number;
+  daysOfWeek: number[];
   times: string[];
   timezone: string;
   isRecurring?: boolean;
+  intervalWeeks?: number;
+  excludedDates?: string[];
+  targetId?: string | null;
+  queue?: string | null;
 }
 
 export interface UpdateScheduleData {
   name?: string;
-  dayOfWeek?: number;
+  daysOfWeek?: number[];
   times?: string[];
   timezone?: string;
   isRecurring?: boolean;
   isActive?: boolean;
+  intervalWeeks?: number;
+  excludedDates?: string[];
+  targetId?: string | null;
+  queue?: string | null;
 }
 
 export function useSchedules() {
@@ -41,9 +63,10 @@ export function useSchedules() {
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchSchedules = useCallback(async () => {
+  // silent: refresh without the loading state (queue forecasts after a change)
+  const fetchSchedules = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
     try {
-      setIsLoading(true);
+      if (!silent) setIsLoading(true);
       setError(null);
       const data = await apiClient.get<Schedule[]>("/api/schedules");
       setSchedules(data);
@@ -65,6 +88,7 @@ export function useSchedules() {
       setError(null);
       const schedule = await apiClient.post<Schedule>("/api/schedules", data);
       setSchedules((prev) => [...prev, schedule]);
+      void fetchSchedules({ silent: true });
       return { success: true, schedule };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to create schedule";
@@ -83,6 +107,7 @@ export function useSchedules() {
       setSchedules((prev) =>
         prev.map((schedule) => (schedule.id === id ? updatedSchedule : schedule))
       );
+      void fetchSchedules({ silent: true });
       return { success: true };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to update schedule";
@@ -99,6 +124,7 @@ export function useSchedules() {
       setError(null);
       await apiClient.delete(`/api/schedules/${id}`);
       setSchedules((prev) => prev.filter((schedule) => schedule.id !== id));
+      void fetchSchedules({ silent: true });
       return { success: true };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to delete schedule";
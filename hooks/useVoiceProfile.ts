@@ -0,0 +1,55 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiClient } from "@/lib/api-client";
+import { VoiceProfileStatus } from "@/types/profile";
+
+export function useVoiceProfile() {
+  const [status, setStatus] = useState<VoiceProfileStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await apiClient.get<VoiceProfileStatus>("/api/profile/voice-profile");
+      setStatus(data);
+    } catch (err) {
+      setError("Failed to fetch voice profile");
+      console.error("Error fetching voice profile:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const refreshProfile = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      setIsRefreshing(true);
+      setError(null);
+      const updated = await apiClient.post<VoiceProfileStatus>("/api/profile/voice-profile");
+      setStatus(updated);
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to refresh voice profile";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return {
+    status,
+    isLoading,
+    isRefreshing,
+    error,
+    fetchStatus,
+    refreshProfile,
+  };
+}
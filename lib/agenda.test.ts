@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Fields = { [key: string]: unknown };
+
+const { prismaMock, handlers, agendaSchedule, publishPost, notify } = vi.hoisted(() => ({
+  prismaMock: {
+    schedule: { findUnique: vi.fn(), update: vi.fn() },
+    post: { count: vi.fn(), findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    publishAttempt: { create: vi.fn() },
+  },
+  handlers: new Map<string, (job: { attrs: { data: unknown } }) => Promise<void>>(),
+  agendaSchedule: vi.fn(),
+  publishPost: vi.fn(),
+  notify: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+vi.mock("@/lib/notifications", () => ({ notify }));
+vi.mock("@/lib/auto-refill", () => ({ refillUserQueues: vi.fn().mockResolvedValue(undefined) }));
+vi.mock("@/lib/linkedin", () => ({
+  publishPost,
+  handleLinkedInError: (error: { message: string; status: number }) => ({
+    message: error.message,
+    status: error.status,
+  }),
+}));
+vi.mock("@hokify/agenda", () => ({
+  Agenda: class {
+    define(name: string, handler: (job: { attrs: { data: unknown } }) => Promise<void>) {
+      handlers.set(name, handler);
+    }
+    on(event: string, listener: () => void) {
+      if (event === "ready") listener();
+    }
+    schedule = agendaSchedule;
+  },
+}));
+
+import { getAgenda } from "@/lib/agenda";
+
+/**
+ * Minimal evaluation of the Prisma filters the queue uses (equality, null,
+ * isSet, AND / OR) over in-memory posts
+ */
+function matches(record: Fields, where: Fields): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "AND") return (condition as Fields[]).every((item) => matches(record, item));
+    if (key === "OR") return (condition as Fields[]).some((item) => matches(record, item));
+    if (condition === null) return record[key] == null;
+    if (typeof condition === "object" && condition && "isSet" in condition) {
+      return (record[key] !== undefined) === (condition as { isSet: boolean }).isSet;
+    }
+    return record[key] === condition;
+  });
+}
+
+function storedPost(id: string, overrides: Fields = {}): Fields {
+  return {
+    id,
+    userId: "user-1",
+    title: `Post ${id}`,
+    status: "ready",
+    scheduledFor: null,
+    publishRetryAt: null,
+    queue: null,
+    createdAt: new Date("2026-10-01T08:00:00Z"),
+    ...overrides,
+  };
+}
+
+async function runScheduleSlot() {
+  await getAgenda();
+  await handlers.get("publish-linkedin-post")!({
+    attrs: { data: { userId: "user-1", scheduleId: "schedule-1" } },
+  });
+}
+
+describe("publish-linkedin-post", () => {
+  let posts: Fields[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("DATABASE_URL", "mongodb://localhost/test");
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    prismaMock.schedule.findUnique.mockResolvedValue({
+      id: "schedule-1",
+      name: "Every day",
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      dayOfWeek: 0,
+      times: ["09:00"],
+      timezone: "Europe/Paris",
+      intervalWeeks: 1,
+      intervalAnchor: null,
+      excludedDates: [],
+      targetId: null,
+      queue: null,
+    });
+    prismaMock.post.count.mockImplementation(
+      async ({ where }: { where: Fields }) => posts.filter((post) => matches(post, where)).length
+    );
+    prismaMock.post.findFirst.mockImplementation(
+      async ({ where }: { where: Fields }) => posts.find((post) => matches(post, where)) ?? null
+    );
+    prismaMock.post.updateMany.mockResolvedValue({ count: 1 });
+    publishPost.mockResolvedValue({ warnings: [], droppedImages: [], linkedInUrn: "urn:li:share:1" });
+  });
+
+  it("skips a post waiting for a publish retry", async () => {
+    posts = [
+      storedPost("retrying", { publishRetryAt: new Date("2026-10-19T10:00:00Z") }),
+      storedPost("next", { createdAt: new Date("2026-10-02T08:00:00Z") }),
+    ];
+
+    await runScheduleSlot();
+
+    expect(publishPost).toHaveBeenCalledTimes(1);
+    expect(publishPost).toHaveBeenCalledWith("next", "user-1", expect.anything());
+  });
+
+  it("publishes nothing when the only ready post has a pending retry", async () => {
+    posts = [storedPost("retrying", { publishRetryAt: new Date("2026-10-19T10:00:00Z") })];
+
+    await runScheduleSlot();
+
+    expect(publishPost).not.toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledWith(
+      "user-1",
+      "schedule_skipped",
+      expect.objectContaining({ dedupeKey: expect.stringMatching(/^schedule_skipped:schedule-1:\d{4}-\d{2}-\d{2}$/) })
+    );
+  });
+
+  it("flags the post while a retry is pending", async () => {
+    posts = [storedPost("post-1")];
+    publishPost.mockRejectedValue({ message: "LinkedIn is down", status: 503 });
+
+    await runScheduleSlot();
+
+    const retryAt = agendaSchedule.mock.calls[0][0] as Date;
+    expect(agendaSchedule).toHaveBeenCalledWith(
+      retryAt,
+      "retry-publish-post",
+      expect.objectContaining({ postId: "post-1", attempt: 2 })
+    );
+    expect(prismaMock.post.update).toHaveBeenCalledWith({
+      where: { id: "post-1" },
+      data: { publishRetryAt: retryAt },
+    });
+  });
+
+  it("marks the post failed and notifies on a permanent error", async () => {
+    posts = [storedPost("post-1")];
+    publishPost.mockRejectedValue({ message: "Duplicate content", status: 409 });
+
+    await runScheduleSlot();
+
+    expect(prismaMock.post.updateMany).toHaveBeenCalledWith({
+      where: { id: "post-1", status: "ready" },
+      data: { status: "failed", scheduledFor: null, publishRetryAt: null },
+    });
+    expect(notify).toHaveBeenCalledWith("user-1", "post_failed", expect.anything());
+  });
+
+  it("does not notify a failure when the post changed meanwhile", async () => {
+    posts = [storedPost("post-1")];
+    publishPost.mockRejectedValue({ message: "Duplicate content", status: 409 });
+    prismaMock.post.updateMany.mockResolvedValue({ count: 0 });
+
+    await runScheduleSlot();
+
+    expect(notify).not.toHaveBeenCalledWith("user-1", "post_failed", expect.anything());
+  });
+});
@@ -1,41 +1,159 @@
 import { Agenda, Job } from "@hokify/agenda";
+import { Post } from "@prisma/client";
 import { prisma } from "./prisma";
+import {
+  ScheduleRule,
+  getOneTimeRuns,
+  getUpcomingRuns,
+  isScheduledOccurrence,
+  toScheduleRule,
+  toZonedDateKey,
+} from "./schedule-rules";
+import { buildQueueWhere } from "./post-queues";
+import { notify } from "./notifications";
+
+const PUBLISH_MAX_ATTEMPTS = 4;
+const PUBLISH_RETRY_BASE_DELAY_MS = 2 * 60 * 1000; // 2 min, then 4, 8...
+
+type PublishTrigger = "schedule" | "scheduled-post";
+
+interface PublishContext {
+  trigger: PublishTrigger;
+  scheduleId?: string | null;
+  attempt: number;
+}
 
-const LINKEDIN_MAX_COMMENTARY_LENGTH = 3000;
-
-function sanitizeLinkedInCommentary(content: string): string {
-  let normalized = content;
-  normalized = normalized.replace(
-    /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g,
-    "$1: $2"
-  );
-  normalized = normalized.replace(/^\s*\*\s+/gm, "- ");
-  normalized = normalized.replace(/([\\\[\]\(\)])/g, "\\$1");
-  return normalized;
+/**
+ * Rate limits, LinkedIn 5xx and network errors are worth retrying;
+ * anything else (auth, validation, duplicate content) will fail again.
+ */
+function isRetryablePublishError(status: number): boolean {
+  return status === 429 || status >= 500;
 }
 
-function normalizeLinkedInCommentary(content: string): {
-  commentary: string;
-  wasShortened: boolean;
-} {
-  const trimmed = sanitizeLinkedInCommentary(content).trim();
-  if (trimmed.length <= LINKEDIN_MAX_COMMENTARY_LENGTH) {
-    return { commentary: trimmed, wasShortened: false };
-  }
-  return {
-    commentary: `${trimmed.slice(0, LINKEDIN_MAX_COMMENTARY_LENGTH - 3)}...`,
-    wasShortened: true,
+/**
+ * Try to publish a post and record a PublishAttempt.
+ * Retryable failures are re-queued with exponential backoff, the post being
+ * flagged with publishRetryAt so that no schedule picks it meanwhile; once
+ * retries are exhausted (or on a permanent error) the post is marked as "failed".
+ * Returns true when the post was published.
+ */
+async function attemptPublication(
+  post: Post,
+  userId: string,
+  context: PublishContext
+): Promise<boolean> {
+  const schedule = context.scheduleId
+    ? await prisma.schedule.findUnique({
+        where: { id: context.scheduleId },
+        select: { name: true, targetId: true },
+      })
+    : null;
+
+  const attemptData = {
+    userId,
+    postId: post.id,
+    scheduleId: context.scheduleId || null,
+    scheduleName: schedule?.name || null,
+    trigger: context.trigger,
+    attempt: context.attempt,
   };
+
+  const { publishPost, handleLinkedInError } = await import("./linkedin");
+
+  try {
+    const result = await publishPost(post.id, userId, {
+      allowedStatuses: ["ready"],
+      fallbackTargetId: schedule?.targetId,
+    });
+    for (const warning of result.warnings) {
+      console.warn(`[Agenda] Post ${post.id}: ${warning}`);
+    }
+
+    await prisma.publishAttempt.create({
+      data: {
+        ...attemptData,
+        outcome: "success",
+        imagesDropped: result.droppedImages.length > 0,
+        linkedInUrn: result.linkedInUrn,
+      },
+    });
+    await notify(userId, "post_published", {
+      data: { title: post.title },
+      link: "/posts",
+    });
+    return true;
+  } catch (error) {
+    const { message, status } = handleLinkedInError(error);
+
+    const willRetry =
+      isRetryablePublishError(status) && context.attempt < PUBLISH_MAX_ATTEMPTS;
+
+    await prisma.publishAttempt.create({
+      data: {
+        ...attemptData,
+        outcome: willRetry ? "retrying" : "failed",
+        errorMessage: message,
+        errorStatus: status,
+      },
+    });
+
+    if (willRetry) {
+      const delay = PUBLISH_RETRY_BASE_DELAY_MS * 2 ** (context.attempt - 1);
+      const retryAt = new Date(Date.now() + delay);
+      await prisma.post.update({
+        where: { id: post.id },
+        data: { publishRetryAt: retryAt },
+      });
+      const agenda = await getAgenda();
+      await agenda.schedule(retryAt, "retry-publish-post", {
+        userId,
+        postId: post.id,
+        scheduleId: context.scheduleId || null,
+        trigger: context.trigger,
+        attempt: context.attempt + 1,
+      });
+      console.warn(
+        `[Agenda] Publish attempt ${context.attempt} failed for post ${post.id} (${status}: ${message}). ` +
+        `Retrying in ${Math.round(delay / 1000)}s.`
+      );
+    } else {
+      // updateMany: the post may have been deleted or published manually meanwhile.
+      // Its slot is cleared too: the post stays out of the queues until the user
+      // sets it back to ready, then a schedule picks it like any undated post.
+      const { count } = await prisma.post.updateMany({
+        where: { id: post.id, status: "ready" },
+        data: { status: "failed", scheduledFor: null, publishRetryAt: null },
+      });
+      if (count === 0) {
+        await clearPublishRetry(post.id);
+        console.warn(
+          `[Agenda] Publishing post ${post.id} failed (${status}: ${message}) but it is no longer ready. Left unchanged.`
+        );
+        return false;
+      }
+      console.error(
+        `[Agenda] Publishing post ${post.id} failed after ${context.attempt} attempt(s) (${status}: ${message}). Marked as failed.`
+      );
+      await notify(userId, "post_failed", {
+        data: { title: post.title, error: message },
+        link: "/posts",
+      });
+    }
+
+    return false;
+  }
 }
 
-function getImageCandidates(imageUrl?: string | null, imageUrls?: string[]): string[] {
-  const candidates = [
-    imageUrl || "",
-    ...(Array.isArray(imageUrls) ? imageUrls : []),
-  ]
-    .map((item) => String(item || "").trim())
-    .filter(Boolean);
-  return Array.from(new Set(candidates));
+/**
+ * Put a post back in reach of the schedules once its retry chain is over
+ */
+async function clearPublishRetry(postId: string): Promise<void> {
+  // updateMany: the post may have been deleted meanwhile
+  await prisma.post.updateMany({
+    where: { id: postId, publishRetryAt: { not: null } },
+    data: { publishRetryAt: null },
+  });
 }
 
 // Agenda instance (singleton)
@@ -62,7 +180,7 @@ export async function getAgenda(): Promise<Agenda> {
       maxConcurrency: 5,
     });
 
-    // Define the publish job
+    // Define the publish job (recurring Schedule slots: FIFO queue of unscheduled posts)
     agendaInstance.define("publish-linkedin-post", async (job: Job) => {
       const { userId, scheduleId } = job.attrs.data as {
         userId: string;
@@ -72,31 +190,69 @@ export async function getAgenda(): Promise<Agenda> {
       console.log(`[Agenda] Running publish job for user ${userId}, schedule ${scheduleId}`);
 
       try {
+        const schedule = await prisma.schedule.findUnique({ where: { id: scheduleId } });
+        if (!schedule) {
+          console.warn(`[Agenda] Schedule ${scheduleId} no longer exists. Skipping.`);
+          return;
+        }
+
+        // The cron fires every week on the schedule's weekdays: skip the runs
+        // outside its week interval or on an excluded date
+        const rule = toScheduleRule(schedule);
+        const nextRunAt = calculateNextRunDate(rule);
+        if (!isScheduledOccurrence(rule)) {
+          await prisma.schedule.update({
+            where: { id: scheduleId },
+            data: { nextRunAt },
+          });
+          console.log(
+            `[Agenda] Schedule ${scheduleId} skipped: excluded date or outside its ${rule.intervalWeeks}-week interval`
+          );
+          return;
+        }
+
         // Always update lastRunAt so we know the cron fired, even if there's nothing to publish
         await prisma.schedule.update({
           where: { id: scheduleId },
-          data: { lastRunAt: new Date() },
+          data: { lastRunAt: new Date(), nextRunAt },
         });
 
+        // Posts with an explicit scheduledFor date have their own one-off job,
+        // so the recurring slots only consume the undated queue (or the
+        // schedule's named queue).
+        const queueWhere = buildQueueWhere(userId, schedule.queue);
+        const queueLabel = schedule.queue
+          ? `user ${userId} (queue "${schedule.queue}")`
+          : `user ${userId}`;
+
         // Count how many ready posts are left for this user
-        const readyCount = await prisma.post.count({
-          where: { userId, status: "ready" },
-        });
+        const readyCount = await prisma.post.count({ where: queueWhere });
 
-        // No ready posts at all — skip gracefully, do NOT attempt to create new posts
+        // No ready posts at all — skip gracefully, do NOT publish generated posts.
+        // Users who opted in to auto-refill get drafts to review for the next runs.
         if (readyCount === 0) {
           console.log(
-            `[Agenda] No ready posts for user ${userId}. Skipping publication. ` +
+            `[Agenda] No ready posts for ${queueLabel}. Skipping publication. ` +
             `The cron job remains active and will retry on the next scheduled run.`
           );
+          // One notification a day per schedule, whatever its number of times
+          await notify(userId, "schedule_skipped", {
+            data: { schedule: schedule.name },
+            link: "/schedule",
+            dedupeKey: `schedule_skipped:${scheduleId}:${toZonedDateKey(new Date(), rule.timezone)}`,
+          });
+          const { refillUserQueues } = await import("./auto-refill");
+          await refillUserQueues(userId).catch((error) =>
+            console.error(`[Agenda] Auto-refill failed for user ${userId}:`, error)
+          );
           return;
         }
 
-        console.log(`[Agenda] ${readyCount} ready post(s) remaining for user ${userId}`);
+        console.log(`[Agenda] ${readyCount} ready post(s) remaining for ${queueLabel}`);
 
         // Pick the oldest ready post (FIFO queue)
         const post = await prisma.post.findFirst({
-          where: { userId, status: "ready" },
+          where: queueWhere,
           orderBy: { createdAt: "asc" },
         });
 
@@ -106,118 +262,106 @@ export async function getAgenda(): Promise<Agenda> {
           return;
         }
 
-        // Get user's LinkedIn credentials
-        const account = await prisma.account.findFirst({
-          where: {
-            userId,
-            provider: "linkedin",
-          },
+        const published = await attemptPublication(post, userId, {
+          trigger: "schedule",
+          scheduleId,
+          attempt: 1,
         });
+        if (!published) return;
 
-        if (!account?.access_token) {
-          console.warn(`[Agenda] No LinkedIn access token for user ${userId}. Skipping.`);
-          return;
-        }
+        // Log remaining posts after this publication
+        const remainingReady = readyCount - 1;
+        console.log(
+          `[Agenda] Published post ${post.id} for user ${userId}. ` +
+          `${remainingReady} ready post(s) remaining in queue.`
+        );
+      } catch (error) {
+        console.error(`[Agenda] Error publishing post:`, error);
+      }
+    });
+
+    // One-off job created for each post that has an explicit scheduledFor date
+    agendaInstance.define("publish-scheduled-post", async (job: Job) => {
+      const { userId, postId, scheduledFor } = job.attrs.data as {
+        userId: string;
+        postId: string;
+        scheduledFor: string;
+      };
+
+      console.log(`[Agenda] Running scheduled publish for post ${postId} (user ${userId})`);
 
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { linkedInId: true },
+      try {
+        const post = await prisma.post.findFirst({
+          where: { id: postId, userId },
         });
 
-        if (!user?.linkedInId) {
-          console.warn(`[Agenda] No LinkedIn ID for user ${userId}. Skipping.`);
+        if (!post) {
+          console.warn(`[Agenda] Scheduled post ${postId} no longer exists. Skipping.`);
           return;
         }
 
-        // Publish to LinkedIn (with image support)
-        const {
-          linkedInClient,
-          buildPostBody,
-          buildPostBodyWithImage,
-          buildPostBodyWithImages,
-          prepareLinkedInImage,
-          prepareLinkedInImages,
-        } = await import("./linkedin");
-
-        const imageCandidates = getImageCandidates(
-          post.imageUrl,
-          Array.isArray((post as { imageUrls?: string[] }).imageUrls)
-            ? ((post as { imageUrls?: string[] }).imageUrls as string[])
-            : []
-        );
-        const { commentary, wasShortened } = normalizeLinkedInCommentary(post.content);
-        if (wasShortened) {
-          console.warn(
-            `[Agenda] Post ${post.id} exceeded LinkedIn's 3000-character limit and was shortened before publish.`
-          );
+        // The post may have been rescheduled after this job was created
+        if (
+          !post.scheduledFor ||
+          post.scheduledFor.toISOString() !== new Date(scheduledFor).toISOString()
+        ) {
+          console.log(`[Agenda] Post ${postId} was rescheduled or unscheduled. Skipping stale job.`);
+          return;
         }
 
-        // If post has an image, upload it to LinkedIn first
-        let postBody;
-        if (imageCandidates.length > 0) {
-          const imageAssets = await prepareLinkedInImages(
-            imageCandidates,
-            user.linkedInId,
-            account.access_token
+        if (post.status !== "ready") {
+          console.log(
+            `[Agenda] Post ${postId} has status "${post.status}" instead of "ready". Skipping.`
           );
+          return;
+        }
 
-          if (imageAssets.length >= 2) {
-            postBody = buildPostBodyWithImages(
-              user.linkedInId,
-              commentary,
-              imageAssets
-            );
-          } else if (imageAssets.length === 1) {
-            postBody = buildPostBodyWithImage(
-              user.linkedInId,
-              commentary,
-              imageAssets[0]
-            );
-            if (imageCandidates.length > 1) {
-              console.warn(
-                `[Agenda] Only one image was uploadable for post ${post.id}.`
-              );
-            }
-          } else {
-            console.warn("[Agenda] All image candidates failed, publishing text-only");
-            postBody = buildPostBody(user.linkedInId, commentary);
-          }
-        } else {
-          postBody = buildPostBody(user.linkedInId, commentary);
+        const published = await attemptPublication(post, userId, {
+          trigger: "scheduled-post",
+          attempt: 1,
+        });
+        if (published) {
+          console.log(`[Agenda] Published scheduled post ${postId} for user ${userId}`);
         }
+      } catch (error) {
+        console.error(`[Agenda] Error publishing scheduled post ${postId}:`, error);
+      }
+    });
 
-        const response = await linkedInClient.post(
-          "/posts",
-          postBody,
-          {
-            headers: {
-              Authorization: `Bearer ${account.access_token}`,
-            },
-          }
-        );
+    // Delayed retry of a publication that failed with a rate limit or server error
+    agendaInstance.define("retry-publish-post", async (job: Job) => {
+      const { userId, postId, scheduleId, trigger, attempt } = job.attrs.data as {
+        userId: string;
+        postId: string;
+        scheduleId: string | null;
+        trigger: PublishTrigger;
+        attempt: number;
+      };
+
+      console.log(`[Agenda] Retrying publication of post ${postId} (attempt ${attempt})`);
 
-        // Extract the LinkedIn URN from the response headers (201 response)
-        // The x-restli-id header contains: urn:li:share:{id} or urn:li:ugcPost:{id}
-        const linkedInUrn = response.headers["x-restli-id"] || response.data?.id || null;
-
-        // Update post status and save LinkedIn URN
-        await prisma.post.update({
-          where: { id: post.id },
-          data: {
-            status: "published",
-            publishedAt: new Date(),
-            linkedInUrn: linkedInUrn,
-          },
+      try {
+        const post = await prisma.post.findFirst({
+          where: { id: postId, userId },
         });
 
-        // Log remaining posts after this publication
-        const remainingReady = readyCount - 1;
-        console.log(
-          `[Agenda] Published post ${post.id} for user ${userId}. ` +
-          `${remainingReady} ready post(s) remaining in queue.`
-        );
+        // Published manually, edited back to draft or deleted in the meantime
+        if (!post || post.status !== "ready") {
+          if (post) await clearPublishRetry(postId);
+          console.log(`[Agenda] Post ${postId} is no longer ready. Skipping retry.`);
+          return;
+        }
+
+        const published = await attemptPublication(post, userId, {
+          trigger,
+          scheduleId,
+          attempt,
+        });
+        if (published) {
+          console.log(`[Agenda] Published post ${postId} on retry ${attempt}`);
+        }
       } catch (error) {
-        console.error(`[Agenda] Error publishing post:`, error);
+        console.error(`[Agenda] Error retrying publication of post ${postId}:`, error);
       }
     });
 
@@ -252,7 +396,7 @@ export async function getAgenda(): Promise<Agenda> {
             const result = await runFetchForAlerts(userAlerts, userId);
             for (const alertResult of result.alerts) {
               console.log(
-                `[Agenda] Alert "${alertResult.alertName}" (user ${userId}): ${alertResult.matchesSaved} new matches from ${alertResult.jobsFetched} jobs`
+                `[Agenda] Alert "${alertResult.alertName}" (user ${userId}): ${alertResult.newMatches} new of ${alertResult.matchesSaved} matches from ${alertResult.jobsFetched} jobs`
               );
             }
           } catch (error) {
@@ -266,6 +410,67 @@ export async function getAgenda(): Promise<Agenda> {
       }
     });
 
+    // ── Post analytics: periodic snapshot of impressions/reactions/comments/reshares ──
+    agendaInstance.define("fetch-post-analytics", async () => {
+      console.log("[Agenda] Running post analytics ingestion");
+
+      try {
+        const { collectPostAnalytics } = await import("./post-analytics");
+        const result = await collectPostAnalytics();
+        console.log(
+          `[Agenda] Post analytics (${result.provider}): ${result.snapshotsSaved}/${result.postsProcessed} snapshot(s) saved, ` +
+          `${result.usersSkipped} user(s) and ${result.postsSkipped} post(s) skipped`
+        );
+      } catch (error) {
+        console.error("[Agenda] Error in fetch-post-analytics:", error);
+      }
+    });
+
+    // ── Auto-refill: drafts for review when a schedule's queue runs low ──
+    agendaInstance.define("auto-refill-posts", async () => {
+      console.log("[Agenda] Running post queue auto-refill");
+
+      try {
+        const { runAutoRefill } = await import("./auto-refill");
+        const result = await runAutoRefill();
+        console.log(
+          `[Agenda] Auto-refill: ${result.draftsCreated} draft(s) generated for ${result.usersChecked} user(s)`
+        );
+      } catch (error) {
+        console.error("[Agenda] Error in auto-refill-posts:", error);
+      }
+    });
+
+    // ── Follow-up reminders: daily notification of overdue and due-today sequence steps ──
+    agendaInstance.define("followup-reminders", async () => {
+      console.log("[Agenda] Running follow-up reminders");
+
+      try {
+        const { runFollowUpReminders } = await import("./followups");
+        const result = await runFollowUpReminders();
+        console.log(
+          `[Agenda] Follow-up reminders: ${result.usersNotified} of ${result.usersChecked} user(s) notified`
+        );
+      } catch (error) {
+        console.error("[Agenda] Error in followup-reminders:", error);
+      }
+    });
+
+    // ── Email digest: job matches and due follow-ups, at each user's delivery time ──
+    agendaInstance.define("send-email-digests", async () => {
+      try {
+        const { runEmailDigests } = await import("./email-digest");
+        const result = await runEmailDigests();
+        if (result.digestsSent > 0) {
+          console.log(
+            `[Agenda] Email digests: ${result.digestsSent} sent, ${result.usersSkipped} empty (${result.usersChecked} subscriber(s))`
+          );
+        }
+      } catch (error) {
+        console.error("[Agenda] Error in send-email-digests:", error);
+      }
+    });
+
     // Wait for the MongoDB connection to be ready
     await new Promise<void>((resolve, reject) => {
       agendaInstance!.on("ready", () => resolve());
@@ -280,7 +485,9 @@ export async function getAgenda(): Promise<Agenda> {
 
 /**
  * Start the Agenda scheduler.
- * Also ensures the daily job-alerts cron is registered (08:30 Europe/Paris).
+ * Also ensures the daily job-alerts cron is registered (08:30 Europe/Paris),
+ * the daily follow-up reminders (08:00), the 6-hourly post analytics cron,
+ * the 6-hourly queue auto-refill and the 15-minute email digest check.
  * 8h30 is optimal: early enough to be the first thing users see in the morning,
  * late enough for APIs to have updated overnight listings.
  */
@@ -295,7 +502,34 @@ export async function startAgenda(): Promise<void> {
   jobAlertCron.repeatEvery("30 8 * * *", { timezone: "Europe/Paris" });
   await jobAlertCron.save();
 
-  console.log("[Agenda] Scheduler started (job-alerts cron: daily 08:30 Europe/Paris)");
+  // Post analytics every 6 hours: enough points for a curve without hammering the API
+  await agenda.cancel({ name: "fetch-post-analytics" });
+  const analyticsCron = agenda.create("fetch-post-analytics", {});
+  analyticsCron.repeatEvery("0 */6 * * *", { timezone: "Europe/Paris" });
+  await analyticsCron.save();
+
+  // Queue auto-refill every 6 hours (only users who opted in)
+  await agenda.cancel({ name: "auto-refill-posts" });
+  const autoRefillCron = agenda.create("auto-refill-posts", {});
+  autoRefillCron.repeatEvery("30 */6 * * *", { timezone: "Europe/Paris" });
+  await autoRefillCron.save();
+
+  // Follow-up reminders every morning, before the job alerts
+  await agenda.cancel({ name: "followup-reminders" });
+  const followUpCron = agenda.create("followup-reminders", {});
+  followUpCron.repeatEvery("0 8 * * *", { timezone: "Europe/Paris" });
+  await followUpCron.save();
+
+  // Email digests: checked every 15 minutes, each user gets theirs once a day at their own time
+  await agenda.cancel({ name: "send-email-digests" });
+  const digestCron = agenda.create("send-email-digests", {});
+  digestCron.repeatEvery("*/15 * * * *", { timezone: "Europe/Paris" });
+  await digestCron.save();
+
+  console.log(
+    "[Agenda] Scheduler started (job-alerts cron: daily 08:30 Europe/Paris, follow-up reminders: daily 08:00, " +
+    "post analytics: every 6h, auto-refill: every 6h, email digests: every 15 min)"
+  );
 }
 
 /**
@@ -338,54 +572,21 @@ export const TIMEZONE_OPTIONS = [
 ];
 
 /**
- * Calculate the next run date for a schedule
+ * Calculate the next run date of a schedule across all its weekdays, times,
+ * week interval and exclusion dates. Null when no run is left.
  */
-export function calculateNextRunDate(
-  dayOfWeek: number,
-  time: string,
-  timezone: string
-): Date {
-  const [hours, minutes] = time.split(":").map(Number);
-  
-  // Get current time in the target timezone
-  const now = new Date();
-  const nowInTimezone = new Date(
-    now.toLocaleString("en-US", { timeZone: timezone })
-  );
-  
-  // Create a date for today at the target time
-  const targetDate = new Date(nowInTimezone);
-  targetDate.setHours(hours, minutes, 0, 0);
-  
-  // Calculate days until target day
-  const currentDay = nowInTimezone.getDay();
-  let daysUntilTarget = dayOfWeek - currentDay;
-  
-  // If it's the same day, check if the time has passed
-  if (daysUntilTarget === 0) {
-    if (nowInTimezone >= targetDate) {
-      // Time has passed, schedule for next week
-      daysUntilTarget = 7;
-    }
-  } else if (daysUntilTarget < 0) {
-    // Target day is earlier in the week, schedule for next week
-    daysUntilTarget += 7;
-  }
-  
-  // Add days to get the target date
-  targetDate.setDate(targetDate.getDate() + daysUntilTarget);
-  
-  return targetDate;
+export function calculateNextRunDate(rule: ScheduleRule, from: Date = new Date()): Date | null {
+  return getUpcomingRuns(rule, 1, from)[0] ?? null;
 }
 
 /**
- * Convert a time string (HH:mm) and dayOfWeek (0-6) into a cron expression.
- * Cron format: minute hour * * dayOfWeek
+ * Convert a time string (HH:mm) and weekdays (0-6) into a cron expression.
+ * Cron format: minute hour * * daysOfWeek
  * Note: cron uses 0=Sunday, 1=Monday, ..., 6=Saturday (same as JS)
  */
-function toCronExpression(time: string, dayOfWeek: number): string {
+function toCronExpression(time: string, daysOfWeek: number[]): string {
   const [hours, minutes] = time.split(":").map(Number);
-  return `${minutes} ${hours} * * ${dayOfWeek}`;
+  return `${minutes} ${hours} * * ${daysOfWeek.join(",")}`;
 }
 
 /**
@@ -403,8 +604,8 @@ export async function syncScheduleJobs(scheduleId: string): Promise<void> {
     return;
   }
 
-  // Cancel existing jobs for this schedule
-  await agenda.cancel({ "data.scheduleId": scheduleId });
+  // Cancel existing jobs for this schedule; pending retries of its posts keep running
+  await agenda.cancel({ name: "publish-linkedin-post", "data.scheduleId": scheduleId });
 
   // If schedule is not active, don't create new jobs
   if (!schedule.isActive) {
@@ -412,8 +613,11 @@ export async function syncScheduleJobs(scheduleId: string): Promise<void> {
     return;
   }
 
+  const rule = toScheduleRule(schedule);
+  const dayNames = rule.daysOfWeek.map((day) => DAY_NAMES[day]).join(", ");
+
   // Create jobs for each time slot
-  for (const time of schedule.times) {
+  for (const time of rule.times) {
     const jobName = "publish-linkedin-post";
     const jobData = {
       userId: schedule.userId,
@@ -423,8 +627,9 @@ export async function syncScheduleJobs(scheduleId: string): Promise<void> {
 
     if (schedule.isRecurring) {
       // Create recurring job using cron expression
-      // Example: "15 13 * * 1" = every Monday at 13:15
-      const cronExpression = toCronExpression(time, schedule.dayOfWeek);
+      // Example: "15 13 * * 1,3,5" = every Monday, Wednesday and Friday at 13:15.
+      // Week intervals and exclusion dates are checked when the job runs.
+      const cronExpression = toCronExpression(time, rule.daysOfWeek);
       
       // Use agenda.create() + repeatEvery() instead of agenda.every()
       // agenda.every() uses the job name as unique key and overwrites previous jobs,
@@ -435,45 +640,94 @@ export async function syncScheduleJobs(scheduleId: string): Promise<void> {
       await job.save();
       
       console.log(
-        `[Agenda] Created recurring job for schedule ${scheduleId}: cron "${cronExpression}" (${DAY_NAMES[schedule.dayOfWeek]} at ${time}, tz: ${schedule.timezone})`
+        `[Agenda] Created recurring job for schedule ${scheduleId}: cron "${cronExpression}" (${dayNames} at ${time}, every ${rule.intervalWeeks} week(s), tz: ${schedule.timezone})`
       );
     } else {
-      // Create one-time job
-      const nextRunDate = calculateNextRunDate(
-        schedule.dayOfWeek,
-        time,
-        schedule.timezone
-      );
-      
-      await agenda.schedule(nextRunDate, jobName, jobData);
-      
-      console.log(
-        `[Agenda] Created one-time job for schedule ${scheduleId}: ${DAY_NAMES[schedule.dayOfWeek]} at ${time} -> ${nextRunDate.toISOString()}`
-      );
+      // Create one-time jobs: the next occurrence of each weekday at this time
+      for (const nextRunDate of getOneTimeRuns({ ...rule, times: [time] })) {
+        await agenda.schedule(nextRunDate, jobName, jobData);
+
+        console.log(
+          `[Agenda] Created one-time job for schedule ${scheduleId}: ${time} -> ${nextRunDate.toISOString()}`
+        );
+      }
     }
   }
 
   // Update nextRunAt in the schedule
-  const earliestTime = schedule.times.sort()[0];
-  const nextRunAt = calculateNextRunDate(
-    schedule.dayOfWeek,
-    earliestTime,
-    schedule.timezone
-  );
+  const nextRunAt = schedule.isRecurring
+    ? calculateNextRunDate(rule)
+    : (getOneTimeRuns(rule)[0] ?? null);
 
   await prisma.schedule.update({
     where: { id: scheduleId },
     data: { nextRunAt },
   });
   
-  console.log(`[Agenda] Schedule ${scheduleId} synced, next run at ${nextRunAt.toISOString()}`);
+  console.log(
+    `[Agenda] Schedule ${scheduleId} synced, next run at ${nextRunAt ? nextRunAt.toISOString() : "none"}`
+  );
 }
 
 /**
- * Delete all jobs for a schedule
+ * Delete the publish jobs of a schedule. Pending retries of posts it already
+ * picked are kept: they carry the scheduleId only for the attempt history.
  */
 export async function deleteScheduleJobs(scheduleId: string): Promise<void> {
   const agenda = await getAgenda();
-  await agenda.cancel({ "data.scheduleId": scheduleId });
+  await agenda.cancel({ name: "publish-linkedin-post", "data.scheduleId": scheduleId });
   console.log(`[Agenda] Deleted all jobs for schedule ${scheduleId}`);
 }
+
+
+/**
+ * Create, move or cancel the one-off publish job of a post.
+ * A job is only kept for ready posts with a future scheduledFor date; a ready
+ * post whose slot has passed loses it and waits in the queue instead.
+ */
+export async function syncPostScheduleJob(postId: string): Promise<void> {
+  const agenda = await getAgenda();
+
+  await agenda.cancel({ name: "publish-scheduled-post", "data.postId": postId });
+
+  const post = await prisma.post.findUnique({
+    where: { id: postId },
+    select: { id: true, userId: true, status: true, scheduledFor: true },
+  });
+
+  if (!post?.scheduledFor || post.status !== "ready") {
+    console.log(`[Agenda] Post ${postId} has no pending publication slot, no job created`);
+    return;
+  }
+
+  if (post.scheduledFor.getTime() <= Date.now()) {
+    await prisma.post.update({
+      where: { id: postId },
+      data: { scheduledFor: null },
+    });
+    console.warn(
+      `[Agenda] Post ${postId} missed its slot (${post.scheduledFor.toISOString()}), returned to the queue`
+    );
+    return;
+  }
+
+  await agenda.schedule(post.scheduledFor, "publish-scheduled-post", {
+    userId: post.userId,
+    postId: post.id,
+    scheduledFor: post.scheduledFor.toISOString(),
+  });
+
+  console.log(
+    `[Agenda] Scheduled post ${postId} for ${post.scheduledFor.toISOString()}`
+  );
+}
+
+/**
+ * Delete the one-off publish job and any pending retry of a post
+ */
+export async function deletePostScheduleJob(postId: string): Promise<void> {
+  const agenda = await getAgenda();
+  await agenda.cancel({ name: "publish-scheduled-post", "data.postId": postId });
+  await agenda.cancel({ name: "retry-publish-post", "data.postId": postId });
+  console.log(`[Agenda] Deleted scheduled publish jobs for post ${postId}`);
+}
@@ -3,18 +3,30 @@ import LinkedInProvider from "next-auth/providers/linkedin";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import { prisma } from "./prisma";
 
+// OpenID Connect configuration (required by LinkedIn)
+// w_member_social is required for posting to LinkedIn
+// w_organization_social is required to publish as a company page (requires
+// "Community Management API" product), opt-in via LINKEDIN_ORGANIZATION_PUBLISHING
+// r_member_postAnalytics is required for post analytics (requires "Advertising API"
+// product), opt-in via LINKEDIN_POST_ANALYTICS
+const LINKEDIN_SCOPES = [
+  "openid",
+  "profile",
+  "email",
+  "w_member_social",
+  ...(process.env.LINKEDIN_ORGANIZATION_PUBLISHING === "true" ? ["w_organization_social"] : []),
+  ...(process.env.LINKEDIN_POST_ANALYTICS === "true" ? ["r_member_postAnalytics"] : []),
+];
+
 export const authOptions: NextAuthOptions = {
   adapter: PrismaAdapter(prisma),
   providers: [
     LinkedInProvider({
       clientId: process.env.LINKEDIN_CLIENT_ID!,
       clientSecret: process.env.LINKEDIN_CLIENT_SECRET!,
-      // OpenID Connect configuration (required by LinkedIn)
-      // w_member_social is required for posting to LinkedIn
-      // r_member_postAnalytics is required for post analytics (requires "Advertising API" product)
       authorization: {
         params: {
-          scope: "openid profile email w_member_social",
+          scope: LINKEDIN_SCOPES.join(" "),
         },
       },
       issuer: "https://www.linkedin.com/oauth",
@@ -50,6 +62,28 @@ export const authOptions: NextAuthOptions = {
       };
     },
   },
+  events: {
+    // The adapter only stores tokens when the account is first linked:
+    // keep them fresh on every sign-in so an expired connection can be repaired.
+    async signIn({ account }) {
+      if (account?.provider !== "linkedin" || !account.access_token) return;
+
+      await prisma.account.updateMany({
+        where: {
+          provider: account.provider,
+          providerAccountId: account.providerAccountId,
+        },
+        data: {
+          access_token: account.access_token,
+          expires_at: account.expires_at ?? null,
+          refresh_token: account.refresh_token ?? null,
+          scope: account.scope ?? null,
+          id_token: account.id_token ?? null,
+          reauthRequiredAt: null,
+        },
+      });
+    },
+  },
   pages: {
     signIn: "/login",
     error: "/login",
@@ -0,0 +1,149 @@
+import { prisma } from "@/lib/prisma";
+import { buildQueueWhere } from "@/lib/post-queues";
+import { generatePostDrafts, saveGeneratedPosts } from "@/lib/post-generation";
+import { presetToGenerationRequest, toGenerationPreset } from "@/lib/generation-presets";
+import { notify } from "@/lib/notifications";
+
+/** Status of generated drafts waiting for the user's approval */
+export const NEEDS_REVIEW_STATUS = "needs_review";
+
+export const AUTO_REFILL_DEFAULTS = {
+  threshold: 2,
+  leadDays: 3,
+  count: 3,
+};
+export const AUTO_REFILL_LIMITS = {
+  threshold: { min: 1, max: 10 },
+  leadDays: { min: 1, max: 14 },
+  count: { min: 1, max: 5 },
+};
+
+/** Minimum delay between two refills of the same user */
+const REFILL_COOLDOWN_MS = 12 * 60 * 60 * 1000;
+
+export interface AutoRefillRunResult {
+  usersChecked: number;
+  draftsCreated: number;
+}
+
+/**
+ * Generate drafts for a user when the queue of one of their schedules falls
+ * below the threshold within `leadDays` of its next run. Only the schedule
+ * running first is refilled per call, and nothing is generated while earlier
+ * drafts still wait for review. Returns the number of drafts created.
+ */
+export async function refillUserQueues(userId: string): Promise<number> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      autoRefillEnabledAt: true,
+      autoRefillThreshold: true,
+      autoRefillLeadDays: true,
+      autoRefillCount: true,
+      autoRefillPresetId: true,
+      lastAutoRefillAt: true,
+    },
+  });
+  if (!user?.autoRefillEnabledAt) return 0;
+
+  if (
+    user.lastAutoRefillAt &&
+    Date.now() - user.lastAutoRefillAt.getTime() < REFILL_COOLDOWN_MS
+  ) {
+    return 0;
+  }
+
+  const pendingReview = await prisma.post.count({
+    where: { userId, status: NEEDS_REVIEW_STATUS },
+  });
+  if (pendingReview > 0) {
+    console.log(
+      `[AutoRefill] User ${userId}: ${pendingReview} draft(s) still need review, skipping`
+    );
+    return 0;
+  }
+
+  const threshold = user.autoRefillThreshold ?? AUTO_REFILL_DEFAULTS.threshold;
+  const leadDays = user.autoRefillLeadDays ?? AUTO_REFILL_DEFAULTS.leadDays;
+  const horizon = new Date(Date.now() + leadDays * 24 * 60 * 60 * 1000);
+
+  const schedules = await prisma.schedule.findMany({
+    where: { userId, isActive: true, nextRunAt: { not: null, lte: horizon } },
+    orderBy: { nextRunAt: "asc" },
+    select: { id: true, name: true, queue: true },
+  });
+
+  for (const schedule of schedules) {
+    const readyCount = await prisma.post.count({
+      where: buildQueueWhere(userId, schedule.queue),
+    });
+    if (readyCount >= threshold) continue;
+
+    const count = user.autoRefillCount ?? AUTO_REFILL_DEFAULTS.count;
+    // Same options as the generate dialog with this preset; profile defaults without one
+    const preset = user.autoRefillPresetId
+      ? await prisma.generationPreset.findFirst({
+          where: { id: user.autoRefillPresetId, userId },
+        })
+      : null;
+    const request = preset
+      ? presetToGenerationRequest(toGenerationPreset(preset), count)
+      : { count };
+
+    // Set before generating so a failing generation is not retried on every run
+    await prisma.user.update({
+      where: { id: userId },
+      data: { lastAutoRefillAt: new Date() },
+    });
+
+    const generated = await generatePostDrafts(userId, request);
+    // Nobody reviews them before they are saved: near-duplicates are dropped
+    const drafts = generated.filter((draft) => !draft.similarTo);
+    if (drafts.length < generated.length) {
+      console.log(
+        `[AutoRefill] User ${userId}: ${generated.length - drafts.length} draft(s) too similar ` +
+        `to existing posts dropped`
+      );
+    }
+    const saved = await saveGeneratedPosts(userId, drafts, request, {
+      status: NEEDS_REVIEW_STATUS,
+      queue: schedule.queue,
+    });
+
+    console.log(
+      `[AutoRefill] User ${userId}: schedule "${schedule.name}" had ${readyCount} ready post(s), ` +
+      `${saved.length} draft(s) generated for review`
+    );
+    if (saved.length === 0) return 0;
+    await notify(userId, "drafts_to_review", {
+      data: { count: saved.length, schedule: schedule.name },
+      link: "/posts",
+    });
+    return saved.length;
+  }
+
+  return 0;
+}
+
+/**
+ * Check the queues of every user who opted in. Used by the periodic Agenda job;
+ * a failing user is logged and skipped.
+ */
+export async function runAutoRefill(): Promise<AutoRefillRunResult> {
+  const users = await prisma.user.findMany({
+    where: { autoRefillEnabledAt: { not: null } },
+    select: { id: true },
+  });
+
+  const result: AutoRefillRunResult = { usersChecked: users.length, draftsCreated: 0 };
+
+  for (const user of users) {
+    try {
+      result.draftsCreated += await refillUserQueues(user.id);
+    } catch (error) {
+      console.error(`[AutoRefill] Failed to refill queues of user ${user.id}:`, error);
+    }
+  }
+
+  return result;
+}
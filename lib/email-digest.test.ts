@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MailMessage, MailTransport } from "@/lib/mailer";
+
+const { prismaMock, getFollowUpsDue } = vi.hoisted(() => ({
+  prismaMock: {
+    user: { findMany: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+    jobAlertMatch: { findMany: vi.fn(), count: vi.fn() },
+  },
+  getFollowUpsDue: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+vi.mock("@/lib/followups", () => ({ getFollowUpsDue }));
+
+import { runEmailDigests, unsubscribeFromDigest } from "@/lib/email-digest";
+
+// 10:00 in Paris, after the default 09:00 delivery time
+const NOW = new Date("2026-10-19T08:00:00Z");
+
+/**
+ * Transport keeping the messages instead of sending them
+ */
+function createStubTransport(): MailTransport & { sent: (MailMessage & { from: string })[] } {
+  const sent: (MailMessage & { from: string })[] = [];
+  return {
+    sent,
+    async sendMail(message) {
+      sent.push(message);
+    },
+  };
+}
+
+function digestUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "user-1",
+    name: "Jane",
+    email: "jane@example.com",
+    preferredLanguage: "en",
+    digestTime: "09:00",
+    digestTimezone: "Europe/Paris",
+    digestUnsubscribeToken: "token-1",
+    lastDigestSentAt: new Date("2026-10-18T07:00:00Z"),
+    ...overrides,
+  };
+}
+
+function followUpStep(actionType: string, dueDate: string) {
+  return {
+    id: `step-${actionType}`,
+    order: 1,
+    actionType,
+    content: null,
+    status: "pending",
+    dueDate: new Date(dueDate),
+    notes: null,
+    sequenceId: "sequence-1",
+    sequenceName: "Outreach",
+    prospect: {
+      id: "prospect-1",
+      name: "John Smith",
+      company: "Acme",
+      email: null,
+      linkedinUrl: null,
+      status: "contacted",
+    },
+  };
+}
+
+describe("runEmailDigests", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("NEXTAUTH_URL", "https://app.example.com");
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    prismaMock.user.findMany.mockResolvedValue([digestUser()]);
+    prismaMock.user.update.mockResolvedValue({});
+    prismaMock.jobAlertMatch.findMany.mockResolvedValue([
+      {
+        jobListing: { title: "Frontend developer", company: "Globex", url: "https://jobs.example.com/1" },
+        alert: { name: "React jobs" },
+      },
+    ]);
+    prismaMock.jobAlertMatch.count.mockResolvedValue(1);
+    getFollowUpsDue.mockResolvedValue({
+      overdue: [followUpStep("email", "2026-10-17T09:00:00Z")],
+      today: [followUpStep("call", "2026-10-19T12:00:00Z")],
+      upcoming: [],
+      totalDue: 2,
+    });
+  });
+
+  it("sends the job matches and due follow-ups in one email", async () => {
+    const transport = createStubTransport();
+
+    const result = await runEmailDigests(NOW, transport);
+
+    expect(result).toEqual({ usersChecked: 1, digestsSent: 1, usersSkipped: 0 });
+    expect(getFollowUpsDue).toHaveBeenCalledWith("user-1", NOW, "Europe/Paris");
+    expect(transport.sent).toHaveLength(1);
+    const [email] = transport.sent;
+    expect(email.to).toBe("jane@example.com");
+    expect(email.subject).toBe("Your daily digest: 3 item(s) to look at");
+    expect(email.text).toContain("Hello Jane,");
+    expect(email.text).toContain("- Frontend developer — Globex (React jobs): https://jobs.example.com/1");
+    expect(email.text).toContain("Follow-ups: 1 overdue, 1 due today");
+    expect(email.text).toContain("- Email — John Smith (Acme) 2026-10-17");
+    expect(email.text).toContain("- Call — John Smith (Acme) 2026-10-19");
+    expect(email.html).toContain('<a href="https://jobs.example.com/1">');
+    expect(prismaMock.user.update).toHaveBeenCalledWith({
+      where: { id: "user-1" },
+      data: { lastDigestSentAt: NOW },
+    });
+  });
+
+  it("links to the unsubscribe page with the user's token", async () => {
+    const transport = createStubTransport();
+
+    await runEmailDigests(NOW, transport);
+
+    const unsubscribeUrl = "https://app.example.com/api/email-digest/unsubscribe?token=token-1";
+    const [email] = transport.sent;
+    expect(email.text).toContain(`Unsubscribe: ${unsubscribeUrl}`);
+    expect(email.html).toContain(`href="${unsubscribeUrl}"`);
+    expect(email.headers).toEqual({
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    });
+  });
+
+  it("creates the unsubscribe token of a user who has none", async () => {
+    prismaMock.user.findMany.mockResolvedValue([digestUser({ digestUnsubscribeToken: null })]);
+    const transport = createStubTransport();
+
+    await runEmailDigests(NOW, transport);
+
+    const tokenUpdate = prismaMock.user.update.mock.calls.find(
+      ([args]) => args.data.digestUnsubscribeToken
+    );
+    const token = tokenUpdate?.[0].data.digestUnsubscribeToken;
+    expect(token).toMatch(/^[0-9a-f]{48}$/);
+    expect(transport.sent[0].text).toContain(`unsubscribe?token=${token}`);
+  });
+
+  it("skips an empty digest but marks the day as done", async () => {
+    prismaMock.jobAlertMatch.findMany.mockResolvedValue([]);
+    prismaMock.jobAlertMatch.count.mockResolvedValue(0);
+    getFollowUpsDue.mockResolvedValue({ overdue: [], today: [], upcoming: [], totalDue: 0 });
+    const transport = createStubTransport();
+
+    const result = await runEmailDigests(NOW, transport);
+
+    expect(result).toEqual({ usersChecked: 1, digestsSent: 0, usersSkipped: 1 });
+    expect(transport.sent).toHaveLength(0);
+    expect(prismaMock.user.update).toHaveBeenCalledWith({
+      where: { id: "user-1" },
+      data: { lastDigestSentAt: NOW },
+    });
+  });
+
+  it("waits for the delivery time and sends once a day", async () => {
+    prismaMock.user.findMany.mockResolvedValue([
+      digestUser({ id: "early", digestTime: "11:00" }),
+      digestUser({ id: "done", lastDigestSentAt: new Date("2026-10-19T07:05:00Z") }),
+    ]);
+    const transport = createStubTransport();
+
+    const result = await runEmailDigests(NOW, transport);
+
+    expect(result.digestsSent).toBe(0);
+    expect(transport.sent).toHaveLength(0);
+    expect(prismaMock.jobAlertMatch.findMany).not.toHaveBeenCalled();
+  });
+
+  it("keeps the digest pending when the email cannot be sent", async () => {
+    const transport: MailTransport = {
+      sendMail: vi.fn().mockRejectedValue(new Error("Connection refused")),
+    };
+
+    const result = await runEmailDigests(NOW, transport);
+
+    expect(result.digestsSent).toBe(0);
+    expect(prismaMock.user.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: { lastDigestSentAt: NOW } })
+    );
+  });
+});
+
+describe("unsubscribeFromDigest", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  it("opts out the owner of the token", async () => {
+    prismaMock.user.findFirst.mockResolvedValue({ id: "user-1", preferredLanguage: "fr" });
+
+    await expect(unsubscribeFromDigest("token-1")).resolves.toBe("fr");
+    expect(prismaMock.user.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { digestUnsubscribeToken: "token-1" } })
+    );
+    expect(prismaMock.user.update).toHaveBeenCalledWith({
+      where: { id: "user-1" },
+      data: { digestEnabledAt: null },
+    });
+  });
+
+  it("ignores an unknown token", async () => {
+    prismaMock.user.findFirst.mockResolvedValue(null);
+
+    await expect(unsubscribeFromDigest("unknown")).resolves.toBeNull();
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,330 @@
+import { randomBytes } from "crypto";
+import { createTranslator, hasLocale } from "next-intl";
+import { prisma } from "@/lib/prisma";
+import { getFollowUpsDue, FollowUpStep } from "@/lib/followups";
+import { MailMessage, MailTransport, getMailTransport, isMailConfigured, sendMail } from "@/lib/mailer";
+import { toZonedDateKey, zonedTimeToUtc } from "@/lib/schedule-rules";
+import { defaultLocale, locales, type Locale } from "@/i18n/config";
+
+export const DIGEST_DEFAULTS = {
+  /** After the 08:30 Europe/Paris job alerts fetch */
+  time: "09:00",
+  timezone: "Europe/Paris",
+};
+
+/** Job matches listed in the email, the rest is summed up */
+const MAX_LISTED_MATCHES = 10;
+/** Matches of the first digest: last day only */
+const FIRST_DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface DigestJobMatch {
+  title: string;
+  company: string | null;
+  url: string;
+  alertName: string;
+}
+
+export interface DigestContent {
+  jobMatches: DigestJobMatch[];
+  /** All new matches, including those not listed */
+  jobMatchCount: number;
+  overdue: FollowUpStep[];
+  today: FollowUpStep[];
+}
+
+export interface DigestRunResult {
+  usersChecked: number;
+  digestsSent: number;
+  usersSkipped: number;
+}
+
+export function isValidDigestTime(time: unknown): time is string {
+  return typeof time === "string" && TIME_PATTERN.test(time);
+}
+
+export function createUnsubscribeToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/**
+ * Base URL of the app used in email links (NEXTAUTH_URL)
+ */
+function getAppUrl(): string {
+  return (process.env.NEXTAUTH_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+export function getUnsubscribeUrl(token: string): string {
+  return `${getAppUrl()}/api/email-digest/unsubscribe?token=${token}`;
+}
+
+/**
+ * Instant of today's delivery in the user's timezone
+ */
+export function getDigestDueAt(time: string, timezone: string, now: Date = new Date()): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const today = Date.parse(`${toZonedDateKey(now, timezone)}T00:00:00Z`);
+  return zonedTimeToUtc(today + (hours * 60 + minutes) * 60 * 1000, timezone);
+}
+
+/**
+ * New job matches since the previous digest and follow-ups overdue or due today
+ * (in the user's timezone)
+ */
+export async function buildDigestContent(
+  userId: string,
+  since: Date,
+  now: Date = new Date(),
+  timezone: string = DIGEST_DEFAULTS.timezone
+): Promise<DigestContent> {
+  const matchWhere = { userId, status: "new", createdAt: { gt: since } };
+  const [matches, jobMatchCount, followUps] = await Promise.all([
+    prisma.jobAlertMatch.findMany({
+      where: matchWhere,
+      include: {
+        jobListing: { select: { title: true, company: true, url: true } },
+        alert: { select: { name: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: MAX_LISTED_MATCHES,
+    }),
+    prisma.jobAlertMatch.count({ where: matchWhere }),
+    getFollowUpsDue(userId, now, timezone),
+  ]);
+
+  return {
+    jobMatches: matches.map((match) => ({
+      title: match.jobListing.title,
+      company: match.jobListing.company,
+      url: match.jobListing.url,
+      alertName: match.alert.name,
+    })),
+    jobMatchCount,
+    overdue: followUps.overdue,
+    today: followUps.today,
+  };
+}
+
+function toLocale(preferredLanguage: string | null): Locale {
+  return hasLocale(locales, preferredLanguage) ? preferredLanguage : defaultLocale;
+}
+
+/**
+ * Translator of the email texts ("emailDigest.*")
+ */
+export async function getDigestTranslator(locale: Locale) {
+  const messages = (await import(`../messages/${locale}.json`)).default;
+  return createTranslator({ locale, messages, namespace: "emailDigest" });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Subject, HTML and plain-text bodies of a digest, in the user's language
+ */
+export async function renderDigestEmail(
+  content: DigestContent,
+  options: { locale: Locale; name: string | null; unsubscribeUrl: string }
+): Promise<Omit<MailMessage, "to">> {
+  const { locale, name, unsubscribeUrl } = options;
+  const t = await getDigestTranslator(locale);
+  const appUrl = `${getAppUrl()}/${locale}`;
+
+  const followUps = [...content.overdue, ...content.today];
+  const html: string[] = [];
+  const text: string[] = [];
+
+  const greeting = name ? t("greetingName", { name }) : t("greeting");
+  html.push(`<p>${escapeHtml(greeting)}</p>`);
+  text.push(greeting, "");
+
+  if (content.jobMatchCount > 0) {
+    const heading = t("jobMatches.title", { count: content.jobMatchCount });
+    html.push(`<h2 style="font-size:16px;margin:24px 0 8px">${escapeHtml(heading)}</h2><ul>`);
+    text.push(heading);
+    for (const match of content.jobMatches) {
+      const label = match.company ? `${match.title} — ${match.company}` : match.title;
+      html.push(
+        `<li><a href="${escapeHtml(match.url)}">${escapeHtml(label)}</a> ` +
+        `<span style="color:#6b7280">(${escapeHtml(match.alertName)})</span></li>`
+      );
+      text.push(`- ${label} (${match.alertName}): ${match.url}`);
+    }
+    html.push("</ul>");
+    const more = content.jobMatchCount - content.jobMatches.length;
+    const link = more > 0 ? t("jobMatches.more", { count: more }) : t("jobMatches.open");
+    html.push(`<p><a href="${appUrl}/jobs">${escapeHtml(link)}</a></p>`);
+    text.push(`${link}: ${appUrl}/jobs`, "");
+  }
+
+  if (followUps.length > 0) {
+    const heading = t("followUps.title", {
+      overdue: content.overdue.length,
+      today: content.today.length,
+    });
+    html.push(`<h2 style="font-size:16px;margin:24px 0 8px">${escapeHtml(heading)}</h2><ul>`);
+    text.push(heading);
+    for (const step of followUps) {
+      const action = t(`followUps.actions.${step.actionType}`);
+      const prospect = step.prospect.company
+        ? `${step.prospect.name} (${step.prospect.company})`
+        : step.prospect.name;
+      const due = step.dueDate ? step.dueDate.toISOString().slice(0, 10) : "";
+      html.push(`<li>${escapeHtml(`${action} — ${prospect}`)} <span style="color:#6b7280">${due}</span></li>`);
+      text.push(`- ${action} — ${prospect} ${due}`);
+    }
+    html.push(`</ul><p><a href="${appUrl}/crm">${escapeHtml(t("followUps.open"))}</a></p>`);
+    text.push(`${t("followUps.open")}: ${appUrl}/crm`, "");
+  }
+
+  const footer = t("footer");
+  html.push(
+    `<p style="color:#9ca3af;font-size:12px;margin-top:32px">${escapeHtml(footer)} ` +
+    `<a href="${escapeHtml(unsubscribeUrl)}" style="color:#9ca3af">${escapeHtml(t("unsubscribe"))}</a></p>`
+  );
+  text.push("--", footer, `${t("unsubscribe")}: ${unsubscribeUrl}`);
+
+  return {
+    subject: t("subject", { count: content.jobMatchCount + followUps.length }),
+    html: `<div style="font-family:Arial,sans-serif;font-size:14px;color:#111827">${html.join("\n")}</div>`,
+    text: text.join("\n"),
+    headers: {
+      // One-click unsubscribe from the mail client (RFC 8058)
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  };
+}
+
+async function findUnsubscribeTokenOwner(token: string) {
+  if (!token) return null;
+  return prisma.user.findFirst({
+    where: { digestUnsubscribeToken: token },
+    select: { id: true, preferredLanguage: true },
+  });
+}
+
+/**
+ * Locale of the owner of an unsubscribe token, without opting them out.
+ * Null when the token is unknown.
+ */
+export async function getUnsubscribeTokenLocale(token: string): Promise<Locale | null> {
+  const user = await findUnsubscribeTokenOwner(token);
+  return user ? toLocale(user.preferredLanguage) : null;
+}
+
+/**
+ * Opt out the owner of an unsubscribe token. Returns the user's locale, or
+ * null when the token is unknown.
+ */
+export async function unsubscribeFromDigest(token: string): Promise<Locale | null> {
+  const user = await findUnsubscribeTokenOwner(token);
+  if (!user) return null;
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { digestEnabledAt: null },
+  });
+  console.log(`[Digest] User ${user.id} unsubscribed`);
+
+  return toLocale(user.preferredLanguage);
+}
+
+/**
+ * Send the daily digest to every opted-in user whose delivery time has passed
+ * today (in their timezone) and who has not received it yet. Days without new
+ * matches or due follow-ups are skipped silently.
+ *
+ * Used by the periodic Agenda job. Errors on a single user are logged and skipped;
+ * a digest that failed to send is tried again on the next run.
+ *
+ * @param transport - Mail transport (defaults to the SMTP transport from the environment)
+ */
+export async function runEmailDigests(
+  now: Date = new Date(),
+  transport?: MailTransport
+): Promise<DigestRunResult> {
+  const result: DigestRunResult = { usersChecked: 0, digestsSent: 0, usersSkipped: 0 };
+
+  if (!transport && !isMailConfigured()) {
+    console.warn("[Digest] SMTP_HOST is not configured, no digest sent");
+    return result;
+  }
+  const mailTransport = transport || getMailTransport();
+
+  const users = await prisma.user.findMany({
+    where: { digestEnabledAt: { not: null }, email: { not: null } },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      preferredLanguage: true,
+      digestTime: true,
+      digestTimezone: true,
+      digestUnsubscribeToken: true,
+      lastDigestSentAt: true,
+    },
+  });
+  result.usersChecked = users.length;
+
+  for (const user of users) {
+    try {
+      const timezone = user.digestTimezone || DIGEST_DEFAULTS.timezone;
+      const dueAt = getDigestDueAt(user.digestTime || DIGEST_DEFAULTS.time, timezone, now);
+      if (now < dueAt || (user.lastDigestSentAt && user.lastDigestSentAt >= dueAt)) {
+        continue;
+      }
+
+      const since = user.lastDigestSentAt || new Date(now.getTime() - FIRST_DIGEST_WINDOW_MS);
+      const content = await buildDigestContent(user.id, since, now, timezone);
+
+      // Marked as done even when empty: matches are counted from this point
+      if (content.jobMatchCount === 0 && content.overdue.length + content.today.length === 0) {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { lastDigestSentAt: now },
+        });
+        result.usersSkipped++;
+        continue;
+      }
+
+      let token = user.digestUnsubscribeToken;
+      if (!token) {
+        token = createUnsubscribeToken();
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { digestUnsubscribeToken: token },
+        });
+      }
+
+      const locale = toLocale(user.preferredLanguage);
+      const email = await renderDigestEmail(content, {
+        locale,
+        name: user.name,
+        unsubscribeUrl: getUnsubscribeUrl(token),
+      });
+      await sendMail({ to: user.email!, ...email }, mailTransport);
+
+      // Only once sent: a failed send is retried on the next run
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { lastDigestSentAt: now },
+      });
+      result.digestsSent++;
+      console.log(
+        `[Digest] Sent to user ${user.id}: ${content.jobMatchCount} match(es), ` +
+        `${content.overdue.length + content.today.length} follow-up(s)`
+      );
+    } catch (error) {
+      console.error(`[Digest] Failed to send the digest of user ${user.id}:`, error);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock } = vi.hoisted(() => ({
+  prismaMock: { sequenceStep: { findMany: vi.fn() } },
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+vi.mock("@/lib/notifications", () => ({ notify: vi.fn() }));
+
+import { getFollowUpsDue } from "@/lib/followups";
+
+function step(id: string, dueDate: string) {
+  return {
+    id,
+    order: 1,
+    actionType: "message",
+    content: null,
+    status: "pending",
+    dueDate: new Date(dueDate),
+    notes: null,
+    sequence: {
+      id: "sequence-1",
+      name: "Sequence",
+      prospect: {
+        id: "prospect-1",
+        name: "Prospect",
+        company: null,
+        email: null,
+        linkedinUrl: null,
+        status: "contacted",
+      },
+    },
+  };
+}
+
+describe("getFollowUpsDue", () => {
+  beforeEach(() => {
+    prismaMock.sequenceStep.findMany.mockResolvedValue([
+      step("yesterday", "2026-03-09T03:00:00Z"),
+      step("evening", "2026-03-09T20:00:00Z"),
+      step("next-morning", "2026-03-10T14:00:00Z"),
+    ]);
+  });
+
+  it("splits overdue and today at midnight in the given timezone", async () => {
+    // 23:00 on March 9 in New York, already March 10 in UTC
+    const due = await getFollowUpsDue("user-1", new Date("2026-03-10T03:00:00Z"), "America/New_York");
+
+    expect(due.overdue.map((s) => s.id)).toEqual(["yesterday"]);
+    expect(due.today.map((s) => s.id)).toEqual(["evening"]);
+    expect(due.upcoming.map((s) => s.id)).toEqual(["next-morning"]);
+  });
+
+  it("counts the same steps by the UTC day in UTC", async () => {
+    const due = await getFollowUpsDue("user-1", new Date("2026-03-10T03:00:00Z"), "UTC");
+
+    expect(due.overdue.map((s) => s.id)).toEqual(["yesterday", "evening"]);
+    expect(due.today.map((s) => s.id)).toEqual(["next-morning"]);
+  });
+});
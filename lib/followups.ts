@@ -0,0 +1,146 @@
+import { prisma } from "@/lib/prisma";
+import { notify } from "@/lib/notifications";
+import { toZonedDateKey, zonedTimeToUtc } from "@/lib/schedule-rules";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Upcoming follow-ups are listed this many days ahead */
+const UPCOMING_DAYS = 3;
+
+const followUpInclude = {
+  sequence: {
+    include: {
+      prospect: {
+        select: {
+          id: true,
+          name: true,
+          company: true,
+          email: true,
+          linkedinUrl: true,
+          status: true,
+        },
+      },
+    },
+  },
+} as const;
+
+function formatStep(step: {
+  id: string;
+  order: number;
+  actionType: string;
+  content: string | null;
+  status: string;
+  dueDate: Date | null;
+  notes: string | null;
+  sequence: {
+    id: string;
+    name: string;
+    prospect: {
+      id: string;
+      name: string;
+      company: string | null;
+      email: string | null;
+      linkedinUrl: string | null;
+      status: string;
+    };
+  };
+}) {
+  return {
+    id: step.id,
+    order: step.order,
+    actionType: step.actionType,
+    content: step.content,
+    status: step.status,
+    dueDate: step.dueDate,
+    notes: step.notes,
+    sequenceId: step.sequence.id,
+    sequenceName: step.sequence.name,
+    prospect: step.sequence.prospect,
+  };
+}
+
+export type FollowUpStep = ReturnType<typeof formatStep>;
+
+export interface FollowUpsDue {
+  overdue: FollowUpStep[];
+  today: FollowUpStep[];
+  upcoming: FollowUpStep[];
+  totalDue: number;
+}
+
+/**
+ * Pending sequence steps of a user that are overdue, due today or due within
+ * the next few days. Days start at midnight in `timezone` (the server's by default).
+ */
+export async function getFollowUpsDue(
+  userId: string,
+  now: Date = new Date(),
+  timezone: string = Intl.DateTimeFormat().resolvedOptions().timeZone
+): Promise<FollowUpsDue> {
+  const midnight = Date.parse(`${toZonedDateKey(now, timezone)}T00:00:00Z`);
+  const today = zonedTimeToUtc(midnight, timezone);
+  const tomorrow = zonedTimeToUtc(midnight + DAY_MS, timezone);
+  const soon = zonedTimeToUtc(midnight + UPCOMING_DAYS * DAY_MS, timezone);
+
+  const dueSteps = await prisma.sequenceStep.findMany({
+    where: {
+      status: "pending",
+      dueDate: {
+        lte: soon,
+      },
+      sequence: {
+        userId,
+      },
+    },
+    include: followUpInclude,
+    orderBy: { dueDate: "asc" },
+  });
+
+  const overdue = dueSteps.filter((s) => s.dueDate && s.dueDate < today);
+  const dueToday = dueSteps.filter((s) => s.dueDate && s.dueDate >= today && s.dueDate < tomorrow);
+  const upcoming = dueSteps.filter((s) => s.dueDate && s.dueDate >= tomorrow && s.dueDate <= soon);
+
+  return {
+    overdue: overdue.map(formatStep),
+    today: dueToday.map(formatStep),
+    upcoming: upcoming.map(formatStep),
+    totalDue: dueSteps.length,
+  };
+}
+
+export interface FollowUpRemindersResult {
+  usersChecked: number;
+  usersNotified: number;
+}
+
+/**
+ * Daily reminder: notify every user with overdue or due-today follow-ups.
+ * Used by the periodic Agenda job; at most one reminder per user and day.
+ */
+export async function runFollowUpReminders(now: Date = new Date()): Promise<FollowUpRemindersResult> {
+  const sequences = await prisma.sequence.findMany({
+    where: { steps: { some: { status: "pending", dueDate: { not: null } } } },
+    select: { userId: true },
+    distinct: ["userId"],
+  });
+
+  const result: FollowUpRemindersResult = { usersChecked: sequences.length, usersNotified: 0 };
+  const dateKey = now.toISOString().slice(0, 10);
+
+  for (const { userId } of sequences) {
+    try {
+      const { overdue, today } = await getFollowUpsDue(userId, now);
+      if (overdue.length === 0 && today.length === 0) continue;
+
+      await notify(userId, "followups_due", {
+        data: { overdue: overdue.length, today: today.length },
+        link: "/crm",
+        dedupeKey: `followups:${dateKey}`,
+      });
+      result.usersNotified++;
+    } catch (error) {
+      console.error(`[Followups] Failed to check follow-ups of user ${userId}:`, error);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,114 @@
+import type { GenerationPreset as GenerationPresetRecord } from "@prisma/client";
+import type { PostGenerationRequest } from "@/lib/post-generation";
+import { generationStyleKeys } from "@/types/post";
+import type {
+  ContactCtaPlacement,
+  GenerationPreset,
+  GenerationPresetFormData,
+  GenerationPresetSettings,
+  GenerationTopicSource,
+} from "@/types/generation-preset";
+
+const TOPIC_SOURCES: GenerationTopicSource[] = ["auto", "common"];
+const CONTACT_CTA_PLACEMENTS: ContactCtaPlacement[] = ["content", "firstComment"];
+
+export const PRESET_LIMITS = {
+  name: 80,
+  topic: 300,
+  tone: 50,
+  themes: 10,
+};
+
+function optionalString(value: unknown, maxLength: number): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, maxLength) : null;
+}
+
+/**
+ * Check and normalize the options of a preset. Returns the data to store, or
+ * an error message.
+ */
+export function validateGenerationPreset(
+  input: Record<string, unknown>
+): { value: GenerationPresetFormData } | { error: string } {
+  const { name, topicSource = "auto", style, contactCtaPlacement = "content" } = input;
+
+  if (typeof name !== "string" || !name.trim()) {
+    return { error: "Name is required" };
+  }
+  if (!TOPIC_SOURCES.includes(topicSource as GenerationTopicSource)) {
+    return { error: "Invalid topic source" };
+  }
+  if (style && !(generationStyleKeys as readonly string[]).includes(style as string)) {
+    return { error: "Invalid style" };
+  }
+  if (!CONTACT_CTA_PLACEMENTS.includes(contactCtaPlacement as ContactCtaPlacement)) {
+    return { error: "Invalid contact CTA placement" };
+  }
+  if (input.selectedThemes !== undefined && !Array.isArray(input.selectedThemes)) {
+    return { error: "selectedThemes must be an array" };
+  }
+
+  const selectedThemes = ((input.selectedThemes as unknown[] | undefined) || [])
+    .map((theme) => optionalString(theme, PRESET_LIMITS.topic))
+    .filter((theme): theme is string => Boolean(theme))
+    .slice(0, PRESET_LIMITS.themes);
+
+  if (topicSource === "common" && selectedThemes.length === 0) {
+    return { error: "Select at least one theme" };
+  }
+
+  return {
+    value: {
+      name: name.trim().slice(0, PRESET_LIMITS.name),
+      topicSource: topicSource as GenerationTopicSource,
+      topic: optionalString(input.topic, PRESET_LIMITS.topic),
+      selectedThemes,
+      toneOverride: optionalString(input.toneOverride, PRESET_LIMITS.tone),
+      style: style && style !== "auto" ? (style as string) : null,
+      includeImage: input.includeImage === true,
+      realisticImage: input.realisticImage !== false,
+      includeContactCta: input.includeContactCta === true,
+      contactCtaPlacement: contactCtaPlacement as ContactCtaPlacement,
+    },
+  };
+}
+
+export function toGenerationPreset(record: GenerationPresetRecord): GenerationPreset {
+  return {
+    id: record.id,
+    name: record.name,
+    topicSource: record.topicSource === "common" ? "common" : "auto",
+    topic: record.topic,
+    selectedThemes: record.selectedThemes,
+    toneOverride: record.toneOverride,
+    style: record.style,
+    includeImage: record.includeImage,
+    realisticImage: record.realisticImage,
+    includeContactCta: record.includeContactCta,
+    contactCtaPlacement: record.contactCtaPlacement === "firstComment" ? "firstComment" : "content",
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Generation request of `count` posts with the options of a preset
+ */
+export function presetToGenerationRequest(
+  preset: GenerationPresetSettings,
+  count: number
+): PostGenerationRequest {
+  const themes = preset.topicSource === "common" ? preset.selectedThemes : [];
+  return {
+    count,
+    topicSource: preset.topicSource,
+    ...(preset.topic && { topic: preset.topic }),
+    ...(themes.length > 0 && { selectedTheme: themes[0], selectedThemes: themes }),
+    ...(preset.toneOverride && { toneOverride: preset.toneOverride }),
+    ...(preset.style && { style: preset.style }),
+    includeImage: preset.includeImage,
+    realisticImage: preset.realisticImage,
+    includeContactCta: preset.includeContactCta,
+    contactCtaPlacement: preset.contactCtaPlacement,
+  };
+}
@@ -1,21 +1,15 @@
-import OpenAI from "openai";
-
-// Groq API client (compatible with OpenAI SDK)
-// Lazy initialization to avoid build-time errors when env vars are not set
-let _groq: OpenAI | null = null;
-
-export function getGroqClient(): OpenAI {
-  if (!_groq) {
-    _groq = new OpenAI({
-      apiKey: process.env.GROQ_API_KEY,
-      baseURL: "https://api.groq.com/openai/v1",
-    });
-  }
-  return _groq;
-}
-
-// Model to use (Llama 3.3 70B - best for content generation)
-export const GROQ_MODEL = "llama-3.3-70b-versatile";
+import {
+  normalizePoll,
+  POLL_DURATIONS,
+  POLL_MAX_OPTIONS,
+  POLL_MIN_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+  POLL_QUESTION_MAX_LENGTH,
+} from "@/lib/post-poll";
+import type { ResponseSchema } from "@/lib/llm-json";
+import { formatVoiceProfileSection } from "@/lib/voice-profile";
+import type { PostPoll } from "@/types/post";
+import type { VoiceProfile } from "@/types/profile";
 
 /**
  * Build a prompt for generating LinkedIn posts
@@ -111,12 +105,23 @@ For this mode, strictly follow these rules:
     question_driven: "Open with a thought-provoking question that stops the scroll. Build the post around answering that question with insights.",
     case_study: "Write about a specific example, project, or situation. Include context, actions taken, and results/lessons.",
     myth_busting: "Identify and debunk a common misconception in the industry. Present the myth, then reveal the truth with evidence.",
+    poll: "Write a short post (4-8 lines) that sets up a LinkedIn poll: give context on a debated choice in the industry, explain why the answer matters and invite people to vote and explain their choice in the comments. Do NOT list the poll options in the content.",
   };
 
   const styleSection = options?.style && postStyleDescriptions[options.style]
     ? `\n## POST STYLE\n${postStyleDescriptions[options.style]}\n`
     : "";
 
+  // Learned from the author's published posts, when built
+  const voiceSection = profile.voiceProfile
+    ? `${formatVoiceProfileSection(profile.voiceProfile)}\n`
+    : "";
+
+  const pollOutputSection = options?.style === "poll"
+    ? `- "poll": An object with "question" (max ${POLL_QUESTION_MAX_LENGTH} characters), "options" (${POLL_MIN_OPTIONS} to ${POLL_MAX_OPTIONS} distinct answers, each max ${POLL_OPTION_MAX_LENGTH} characters) and "duration" (one of ${POLL_DURATIONS.join(", ")})
+`
+    : "";
+
   return `You are an expert LinkedIn content strategist who creates viral, engaging posts.
 ${avoidTopicsSection}
 ## AUTHOR PROFILE
@@ -139,7 +144,7 @@ ${avoidTopicsSection}
 - Language: ${language}
 - Time context: ${currentYear} (prefer recent and up-to-date references)
 
-${topicSection}${commonThemeSection}${styleSection}## YOUR TASK
+${voiceSection}${topicSection}${commonThemeSection}${styleSection}## YOUR TASK
 Generate ${count} unique, high-engagement LinkedIn post(s) that:
 
 1. **Hook**: Start with a powerful hook (question, bold statement, or surprising fact) in the very first line
@@ -193,7 +198,7 @@ Return a JSON array with exactly ${count} object(s), each containing:
 - "title": A short internal title for the post (not displayed on LinkedIn)
 - "content": The full post content ready to publish (use \\n for line breaks in JSON). Do NOT include hashtags in the content.
 - "hashtags": An array of exactly 5 relevant hashtags as strings (include the # symbol, e.g., "#freelance")
-
+${pollOutputSection}
 IMPORTANT: In the JSON content field, use \\n for line breaks, NOT actual newlines. Hashtags MUST be in the separate "hashtags" array only, NOT in the content.
 
 Example format:
@@ -230,6 +235,7 @@ export interface ProfileData {
   githubUrl?: string;
   portfolioUrl?: string;
   linkedInProfileUrl?: string;
+  voiceProfile?: VoiceProfile;
 }
 
 /**
@@ -257,31 +263,41 @@ export interface ParsedPost {
   title: string;
   content: string;
   hashtags: string[];
+  /** Only for the poll style */
+  poll?: PostPoll | null;
 }
 
 /**
- * Parse generated posts from Groq response
+ * Generated posts: a JSON array of posts with a non-empty content
  */
-export function parseGeneratedPosts(content: string): ParsedPost[] {
-  try {
-    // Try to extract JSON from the response
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      // Ensure each post has the expected structure including hashtags
-      return parsed.map((post: { title?: string; content?: string; hashtags?: string[] }) => ({
-        title: post.title || "Generated Post",
-        content: post.content || "",
-        hashtags: Array.isArray(post.hashtags) ? post.hashtags : [],
-      }));
+export const generatedPostsSchema: ResponseSchema<ParsedPost[]> = {
+  name: "generate.posts",
+  root: "array",
+  shape: '[{"title":"...","content":"...","hashtags":["#...","#..."]}]',
+  validate(value) {
+    if (!Array.isArray(value) || value.length === 0) {
+      return { error: "expected a non-empty array of posts" };
     }
-    throw new Error("No JSON array found in response");
-  } catch {
-    // If parsing fails, create a single post from the content
-    return [{
-      title: "Generated Post",
-      content: content.trim(),
-      hashtags: [],
-    }];
-  }
-}
+    const posts = value.filter(
+      (post): post is { title?: unknown; content: string; hashtags?: unknown; poll?: unknown } =>
+        typeof post === "object" &&
+        post !== null &&
+        typeof post.content === "string" &&
+        post.content.trim().length > 0
+    );
+    if (posts.length === 0) {
+      return { error: "every post needs a non-empty \"content\" string" };
+    }
+    // Ensure each post has the expected structure including hashtags
+    return {
+      value: posts.map((post) => ({
+        title: typeof post.title === "string" && post.title.trim() ? post.title : "Generated Post",
+        content: post.content,
+        hashtags: Array.isArray(post.hashtags)
+          ? post.hashtags.filter((tag): tag is string => typeof tag === "string")
+          : [],
+        poll: normalizePoll(post.poll, { fitLimits: true }),
+      })),
+    };
+  },
+};
@@ -0,0 +1,222 @@
+import type { Hashtag } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { extractHashtags, hashtagKey, normalizeHashtag, normalizeHashtags } from "@/lib/hashtags";
+import { tokenizeForSimilarity } from "@/lib/post-similarity";
+import type { HashtagLibraryEntry, HashtagSuggestion, HashtagSuggestionSource } from "@/types/hashtag";
+
+const MAX_SUGGESTIONS = 8;
+/** Keywords of the text become suggestions when repeated this often */
+const MIN_KEYWORD_OCCURRENCES = 2;
+const MIN_KEYWORD_LENGTH = 5;
+/** Hashtags this short only match whole words ("#ai" is not in "paid") */
+const MIN_COMPACT_MATCH_LENGTH = 4;
+
+/** Frequent long words that make poor hashtags (accents removed, as tokenized) */
+const KEYWORD_STOPWORDS = new Set([
+  "about", "after", "again", "always", "because", "before", "being", "could", "every",
+  "first", "never", "other", "people", "really", "should", "something", "still", "their",
+  "there", "these", "thing", "things", "those", "today", "where", "which", "while", "would",
+  "years", "aujourd", "autre", "autres", "avant", "avoir", "cette", "comme", "depuis",
+  "encore", "entre", "faire", "jamais", "leurs", "notre", "parce", "quand", "toujours",
+  "toutes", "votre", "vraiment",
+]);
+
+function toLibraryEntry(record: Hashtag): HashtagLibraryEntry {
+  return {
+    id: record.id,
+    tag: record.tag,
+    usageCount: record.usageCount,
+    lastUsedAt: record.lastUsedAt?.toISOString() ?? null,
+    engagedPostCount: record.engagedPostCount,
+    avgImpressions: record.avgImpressions,
+    avgInteractions: record.avgInteractions,
+  };
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+export async function getHashtagLibrary(userId: string): Promise<HashtagLibraryEntry[]> {
+  const hashtags = await prisma.hashtag.findMany({
+    where: { userId },
+    orderBy: [{ usageCount: "desc" }, { lastUsedAt: "desc" }],
+  });
+  return hashtags.map(toLibraryEntry);
+}
+
+/**
+ * Rebuild the hashtag library of a user from their published posts: usage
+ * counts, and average engagement from the latest analytics snapshot of each
+ * post. Hashtags written in the text of older posts are counted too.
+ */
+export async function refreshHashtagLibrary(userId: string): Promise<HashtagLibraryEntry[]> {
+  const posts = await prisma.post.findMany({
+    where: { userId, status: "published" },
+    orderBy: { publishedAt: "desc" },
+    select: { id: true, content: true, hashtags: true, publishedAt: true },
+  });
+
+  const snapshots = await prisma.postAnalyticsSnapshot.findMany({
+    where: { postId: { in: posts.map((post) => post.id) } },
+    orderBy: { capturedAt: "desc" },
+    select: { postId: true, impressions: true, reactions: true, comments: true, reshares: true },
+  });
+  const latestSnapshots = new Map<string, (typeof snapshots)[number]>();
+  for (const snapshot of snapshots) {
+    if (!latestSnapshots.has(snapshot.postId)) latestSnapshots.set(snapshot.postId, snapshot);
+  }
+
+  // Posts are most recent first: the first form seen is the latest one
+  const usage = new Map<
+    string,
+    { tag: string; count: number; lastUsedAt: Date | null; impressions: number[]; interactions: number[] }
+  >();
+  for (const post of posts) {
+    const tags = normalizeHashtags([...post.hashtags, ...extractHashtags(post.content)]);
+    const snapshot = latestSnapshots.get(post.id);
+    for (const tag of tags) {
+      const key = hashtagKey(tag);
+      const entry = usage.get(key) ?? {
+        tag,
+        count: 0,
+        lastUsedAt: post.publishedAt,
+        impressions: [],
+        interactions: [],
+      };
+      entry.count++;
+      if (snapshot) {
+        entry.impressions.push(snapshot.impressions);
+        entry.interactions.push(snapshot.reactions + snapshot.comments + snapshot.reshares);
+      }
+      usage.set(key, entry);
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.hashtag.deleteMany({ where: { userId, key: { notIn: Array.from(usage.keys()) } } }),
+    ...Array.from(usage.entries()).map(([key, entry]) => {
+      const data = {
+        tag: entry.tag,
+        usageCount: entry.count,
+        lastUsedAt: entry.lastUsedAt,
+        engagedPostCount: entry.impressions.length,
+        avgImpressions: average(entry.impressions),
+        avgInteractions: average(entry.interactions),
+      };
+      return prisma.hashtag.upsert({
+        where: { userId_key: { userId, key } },
+        create: { userId, key, ...data },
+        update: data,
+      });
+    }),
+  ]);
+  console.log(`[Hashtags] Library of user ${userId} rebuilt: ${usage.size} hashtag(s)`);
+
+  return getHashtagLibrary(userId);
+}
+
+/**
+ * Lowercase words of a hashtag, accents removed: "#RemoteWork" -> ["remote", "work"]
+ */
+function hashtagWords(tag: string): string[] {
+  return tokenizeForSimilarity(
+    tag.replace(/^#+/, "").replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2").replace(/_/g, " ")
+  );
+}
+
+/**
+ * Hashtags for a post, from its text, the profile's content topics and the
+ * hashtags already used in published posts. Library hashtags that match the
+ * text rank first, boosted by their usage and engagement.
+ *
+ * @param options.exclude - Hashtags already on the post
+ */
+export async function suggestHashtags(
+  userId: string,
+  content: string,
+  options: { exclude?: string[]; limit?: number } = {}
+): Promise<HashtagSuggestion[]> {
+  const [library, user] = await Promise.all([
+    prisma.hashtag.findMany({ where: { userId } }),
+    prisma.user.findUnique({ where: { id: userId }, select: { contentTopics: true } }),
+  ]);
+
+  const words = tokenizeForSimilarity(content);
+  const wordSet = new Set(words);
+  const compactText = words.join("");
+  const matchesText = (tag: string) => {
+    const tagWords = hashtagWords(tag);
+    const compactTag = tagWords.join("");
+    return (
+      tagWords.length > 0 &&
+      (tagWords.every((word) => wordSet.has(word)) ||
+        (compactTag.length >= MIN_COMPACT_MATCH_LENGTH && compactText.includes(compactTag)))
+    );
+  };
+
+  const excluded = new Set(
+    [...(options.exclude ?? []), ...extractHashtags(content)].map(hashtagKey)
+  );
+  const candidates = new Map<
+    string,
+    { tag: string; source: HashtagSuggestionSource; score: number; usageCount: number; avgInteractions: number | null }
+  >();
+  const addCandidate = (tag: string, source: HashtagSuggestionSource, score: number) => {
+    const key = hashtagKey(tag);
+    if (excluded.has(key)) return;
+    const existing = candidates.get(key);
+    if (existing) {
+      existing.score += score;
+      return;
+    }
+    candidates.set(key, { tag, source, score, usageCount: 0, avgInteractions: null });
+  };
+
+  // Library first so that a topic or keyword already used keeps its stats
+  const maxInteractions = Math.max(0, ...library.map((entry) => entry.avgInteractions ?? 0));
+  const topicKeys = new Set(
+    (user?.contentTopics ?? [])
+      .map((topic) => normalizeHashtag(topic))
+      .filter((tag): tag is string => Boolean(tag))
+      .map(hashtagKey)
+  );
+  for (const entry of library) {
+    if (!matchesText(entry.tag) && !topicKeys.has(entry.key)) continue;
+    const engagement = maxInteractions > 0 ? (entry.avgInteractions ?? 0) / maxInteractions : 0;
+    addCandidate(entry.tag, "library", 1 + Math.min(entry.usageCount, 10) * 0.1 + engagement);
+    const candidate = candidates.get(entry.key);
+    if (candidate) {
+      candidate.usageCount = entry.usageCount;
+      candidate.avgInteractions = entry.avgInteractions;
+    }
+  }
+
+  for (const topic of user?.contentTopics ?? []) {
+    const tag = normalizeHashtag(topic);
+    if (tag) addCandidate(tag, "topic", matchesText(tag) ? 2.5 : 1);
+  }
+
+  const occurrences = new Map<string, number>();
+  for (const word of words) {
+    if (word.length < MIN_KEYWORD_LENGTH || KEYWORD_STOPWORDS.has(word) || /^\d+$/.test(word)) {
+      continue;
+    }
+    occurrences.set(word, (occurrences.get(word) ?? 0) + 1);
+  }
+  for (const [word, count] of occurrences) {
+    const tag = count >= MIN_KEYWORD_OCCURRENCES ? normalizeHashtag(word) : null;
+    if (tag) addCandidate(tag, "content", Math.min(1 + (count - MIN_KEYWORD_OCCURRENCES) * 0.25, 2));
+  }
+
+  return Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? MAX_SUGGESTIONS)
+    .map(({ tag, source, usageCount, avgInteractions }) => ({
+      tag,
+      source,
+      usageCount,
+      avgInteractions,
+    }));
+}
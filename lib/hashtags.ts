@@ -0,0 +1,76 @@
+/**
+ * Hashtags of a post, stored apart from its text and appended to the
+ * commentary at publish time. No server dependency: also used by the editor.
+ */
+
+/** Hashtags kept on a post */
+export const MAX_POST_HASHTAGS = 10;
+const MAX_HASHTAG_LENGTH = 60;
+
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+
+/**
+ * "#RemoteWork" form of a hashtag typed with or without "#". Several words
+ * ("remote work") are joined with a capital on each. Null when nothing is left.
+ */
+export function normalizeHashtag(raw: string): string | null {
+  const parts = raw
+    .replace(/^#+/, "")
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const body = (
+    parts.length === 1
+      ? parts[0]
+      : parts.map((part) => part.charAt(0).toUpperCase() + part.slice(1)).join("")
+  ).slice(0, MAX_HASHTAG_LENGTH);
+  // LinkedIn does not link hashtags made only of digits
+  if (/^[\p{N}_]+$/u.test(body)) return null;
+
+  return `#${body}`;
+}
+
+/**
+ * Case-insensitive identity of a hashtag ("#RemoteWork" and "#remotework" are one)
+ */
+export function hashtagKey(tag: string): string {
+  return tag.replace(/^#+/, "").toLowerCase();
+}
+
+/**
+ * Valid hashtags of a request body, without duplicates
+ */
+export function normalizeHashtags(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+
+  const hashtags: string[] = [];
+  const keys = new Set<string>();
+  for (const item of input) {
+    const tag = typeof item === "string" ? normalizeHashtag(item) : null;
+    if (!tag || keys.has(hashtagKey(tag))) continue;
+    keys.add(hashtagKey(tag));
+    hashtags.push(tag);
+    if (hashtags.length >= MAX_POST_HASHTAGS) break;
+  }
+  return hashtags;
+}
+
+/**
+ * Hashtags written in a text, e.g. in posts saved before hashtags had their own field
+ */
+export function extractHashtags(text: string): string[] {
+  return normalizeHashtags(text.match(HASHTAG_PATTERN) ?? []);
+}
+
+/**
+ * Text sent to LinkedIn: the content followed by its hashtags on a line of
+ * their own. Hashtags already written in the content are not repeated.
+ */
+export function composePostText(content: string, hashtags: string[] = []): string {
+  const inline = new Set(extractHashtags(content).map(hashtagKey));
+  const appended = normalizeHashtags(hashtags).filter((tag) => !inline.has(hashtagKey(tag)));
+  if (appended.length === 0) return content;
+
+  return `${content.trimEnd()}\n\n${appended.join(" ")}`;
+}
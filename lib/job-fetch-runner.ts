@@ -1,6 +1,7 @@
 import { prisma } from "@/lib/prisma";
 import { fetchAllJobs, ALL_SOURCES, NormalizedJob } from "@/lib/job-sources";
 import { matchJobs } from "@/lib/job-matcher";
+import { notify } from "@/lib/notifications";
 import { JobAlert } from "@prisma/client";
 
 export interface AlertFetchResult {
@@ -10,6 +11,8 @@ export interface AlertFetchResult {
   jobsFetched: number;
   jobsMatched: number;
   matchesSaved: number;
+  /** Matches the user had not seen before this run */
+  newMatches: number;
   matchedJobs: {
     title: string;
     company: string | null;
@@ -63,6 +66,20 @@ export async function runFetchForAlerts(
     alertResults.push(result);
   }
 
+  const newMatches = alertResults.reduce((sum, result) => sum + result.newMatches, 0);
+  if (newMatches > 0) {
+    await notify(userId, "job_matches", {
+      data: {
+        count: newMatches,
+        alerts: alertResults
+          .filter((result) => result.newMatches > 0)
+          .map((result) => result.alertName)
+          .join(", "),
+      },
+      link: "/jobs",
+    });
+  }
+
   return {
     totalSourcesFetched: Array.from(neededSources),
     totalJobsFetched: allJobs.length,
@@ -127,6 +144,7 @@ async function matchAndSaveForAlert(
   );
 
   let matchCount = 0;
+  let newMatchCount = 0;
   for (const mJob of matched) {
     try {
       const dbListing = await prisma.jobListing.findUnique({
@@ -134,21 +152,24 @@ async function matchAndSaveForAlert(
       });
       if (!dbListing) continue;
 
-      await prisma.jobAlertMatch.upsert({
-        where: {
-          userId_jobListingId: {
-            userId,
-            jobListingId: dbListing.id,
-          },
-        },
-        update: {},
-        create: {
+      const where = {
+        userId_jobListingId: {
           userId,
-          alertId: alert.id,
           jobListingId: dbListing.id,
-          status: "new",
         },
-      });
+      };
+      const existing = await prisma.jobAlertMatch.findUnique({ where, select: { id: true } });
+      if (!existing) {
+        await prisma.jobAlertMatch.create({
+          data: {
+            userId,
+            alertId: alert.id,
+            jobListingId: dbListing.id,
+            status: "new",
+          },
+        });
+        newMatchCount++;
+      }
       matchCount++;
     } catch {
       // Skip duplicates
@@ -168,6 +189,7 @@ async function matchAndSaveForAlert(
     jobsFetched: jobsForAlert.length,
     jobsMatched: matched.length,
     matchesSaved: matchCount,
+    newMatches: newMatchCount,
     matchedJobs: matched.map((j) => ({
       title: j.title,
       company: j.company,
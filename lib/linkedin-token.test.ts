@@ -0,0 +1,79 @@
+import { AxiosError, AxiosHeaders } from "axios";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock, axiosPost } = vi.hoisted(() => ({
+  prismaMock: {
+    account: { findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    user: { findUnique: vi.fn() },
+  },
+  axiosPost: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+vi.mock("axios", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("axios")>();
+  return { ...actual, default: { ...actual.default, post: axiosPost } };
+});
+
+import {
+  getLinkedInCredentials,
+  LinkedInReauthRequiredError,
+  LinkedInTokenRefreshError,
+} from "@/lib/linkedin-token";
+
+function httpError(status: number): AxiosError {
+  return new AxiosError("Request failed", "ERR_BAD_RESPONSE", undefined, undefined, {
+    status,
+    statusText: "",
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+    data: {},
+  });
+}
+
+describe("getLinkedInCredentials", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    prismaMock.user.findUnique.mockResolvedValue({ linkedInId: "member-1" });
+    prismaMock.account.findFirst.mockResolvedValue({
+      id: "account-1",
+      access_token: "expired-token",
+      refresh_token: "refresh-token",
+      expires_at: Math.floor(Date.now() / 1000) - 60,
+      reauthRequiredAt: null,
+    });
+  });
+
+  it("returns the refreshed token", async () => {
+    axiosPost.mockResolvedValue({ data: { access_token: "new-token", expires_in: 3600 } });
+
+    await expect(getLinkedInCredentials("user-1")).resolves.toEqual({
+      accessToken: "new-token",
+      linkedInId: "member-1",
+    });
+    expect(prismaMock.account.updateMany).not.toHaveBeenCalled();
+  });
+
+  it.each([400, 401])("flags the account when LinkedIn refuses the refresh (%i)", async (status) => {
+    axiosPost.mockRejectedValue(httpError(status));
+
+    await expect(getLinkedInCredentials("user-1")).rejects.toBeInstanceOf(LinkedInReauthRequiredError);
+    expect(prismaMock.account.updateMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", provider: "linkedin" },
+      data: { reauthRequiredAt: expect.any(Date) },
+    });
+  });
+
+  it.each([
+    ["a LinkedIn 5xx", httpError(502)],
+    ["a timeout", new AxiosError("timeout", "ECONNABORTED")],
+    ["a DNS failure", new AxiosError("getaddrinfo ENOTFOUND", "ENOTFOUND")],
+  ])("keeps the account connected on %s", async (_label, error) => {
+    axiosPost.mockRejectedValue(error);
+
+    await expect(getLinkedInCredentials("user-1")).rejects.toBeInstanceOf(LinkedInTokenRefreshError);
+    expect(prismaMock.account.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import axios from "axios";
+import { prisma } from "@/lib/prisma";
+
+const LINKEDIN_TOKEN_URL = "https://www.linkedin.com/oauth/v2/accessToken";
+// Refresh a bit before the real expiry so a long image upload can't cross it
+const EXPIRY_MARGIN_SECONDS = 5 * 60;
+// How far ahead the UI starts warning about an expiring connection
+export const TOKEN_EXPIRY_WARNING_DAYS = 14;
+
+/**
+ * Thrown when no usable LinkedIn token exists and the user must sign in again
+ */
+export class LinkedInReauthRequiredError extends Error {
+  constructor(message = "Your LinkedIn connection has expired. Please sign in with LinkedIn again.") {
+    super(message);
+    this.name = "LinkedInReauthRequiredError";
+  }
+}
+
+/**
+ * Thrown when the token could not be refreshed for a transient reason (timeout,
+ * DNS, LinkedIn 5xx): the stored tokens are kept and the call can be retried
+ */
+export class LinkedInTokenRefreshError extends Error {
+  constructor(message = "LinkedIn is temporarily unavailable. Please try again later.") {
+    super(message);
+    this.name = "LinkedInTokenRefreshError";
+  }
+}
+
+export interface LinkedInCredentials {
+  accessToken: string;
+  linkedInId: string;
+}
+
+export interface LinkedInTokenStatus {
+  connected: boolean;
+  expiresAt: string | null;
+  canRefresh: boolean;
+  needsReauth: boolean;
+}
+
+interface RefreshTokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
+}
+
+function isExpired(expiresAt: number | null | undefined): boolean {
+  if (!expiresAt) return false;
+  return expiresAt - EXPIRY_MARGIN_SECONDS <= Math.floor(Date.now() / 1000);
+}
+
+function findLinkedInAccount(userId: string) {
+  return prisma.account.findFirst({
+    where: { userId, provider: "linkedin" },
+  });
+}
+
+/**
+ * Flag the user's LinkedIn account as needing a new sign-in
+ * (expired without refresh token, refresh rejected, or 401 from the API).
+ */
+export async function markLinkedInReauthRequired(userId: string): Promise<void> {
+  await prisma.account.updateMany({
+    where: { userId, provider: "linkedin" },
+    data: { reauthRequiredAt: new Date() },
+  });
+  console.warn(`[LinkedIn Token] Account of user ${userId} needs re-authentication`);
+}
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ * Returns the new access token, or null when LinkedIn refused the refresh
+ * (400/401: the refresh token is revoked or expired). Other failures throw
+ * LinkedInTokenRefreshError.
+ */
+async function refreshAccessToken(
+  accountId: string,
+  refreshToken: string
+): Promise<string | null> {
+  let response;
+  try {
+    response = await axios.post<RefreshTokenResponse>(
+      LINKEDIN_TOKEN_URL,
+      new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+        client_id: process.env.LINKEDIN_CLIENT_ID || "",
+        client_secret: process.env.LINKEDIN_CLIENT_SECRET || "",
+      }).toString(),
+      {
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        timeout: 15000,
+      }
+    );
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    console.error(
+      `[LinkedIn Token] Failed to refresh access token for account ${accountId} (status ${status ?? "n/a"})`
+    );
+    if (status === 400 || status === 401) return null;
+    throw new LinkedInTokenRefreshError();
+  }
+
+  const { access_token, expires_in, refresh_token, refresh_token_expires_in } = response.data;
+
+  await prisma.account.update({
+    where: { id: accountId },
+    data: {
+      access_token,
+      expires_at: Math.floor(Date.now() / 1000) + expires_in,
+      // LinkedIn may rotate the refresh token
+      ...(refresh_token && { refresh_token }),
+      ...(refresh_token_expires_in && { refresh_token_expires_in }),
+      reauthRequiredAt: null,
+    },
+  });
+
+  console.log(`[LinkedIn Token] Refreshed access token for account ${accountId}`);
+  return access_token;
+}
+
+/**
+ * Get a valid LinkedIn access token and member ID for a user.
+ * Refreshes the token when it is expired and a refresh token is available,
+ * otherwise flags the account and throws LinkedInReauthRequiredError.
+ * Throws LinkedInTokenRefreshError when LinkedIn could not be reached.
+ */
+export async function getLinkedInCredentials(userId: string): Promise<LinkedInCredentials> {
+  const [account, user] = await Promise.all([
+    findLinkedInAccount(userId),
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { linkedInId: true },
+    }),
+  ]);
+
+  if (!account?.access_token || !user?.linkedInId) {
+    throw new LinkedInReauthRequiredError(
+      "No LinkedIn connection found. Please sign in with LinkedIn again."
+    );
+  }
+
+  if (account.reauthRequiredAt) {
+    throw new LinkedInReauthRequiredError();
+  }
+
+  if (!isExpired(account.expires_at)) {
+    return { accessToken: account.access_token, linkedInId: user.linkedInId };
+  }
+
+  if (account.refresh_token) {
+    const refreshed = await refreshAccessToken(account.id, account.refresh_token);
+    if (refreshed) {
+      return { accessToken: refreshed, linkedInId: user.linkedInId };
+    }
+  }
+
+  await markLinkedInReauthRequired(userId);
+  throw new LinkedInReauthRequiredError();
+}
+
+/**
+ * Connection health shown in the UI (no refresh attempt, read-only)
+ */
+export async function getLinkedInTokenStatus(userId: string): Promise<LinkedInTokenStatus> {
+  const account = await findLinkedInAccount(userId);
+
+  if (!account?.access_token) {
+    return { connected: false, expiresAt: null, canRefresh: false, needsReauth: true };
+  }
+
+  const canRefresh = Boolean(account.refresh_token);
+
+  return {
+    connected: true,
+    expiresAt: account.expires_at ? new Date(account.expires_at * 1000).toISOString() : null,
+    canRefresh,
+    needsReauth:
+      Boolean(account.reauthRequiredAt) || (isExpired(account.expires_at) && !canRefresh),
+  };
+}
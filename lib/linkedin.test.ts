@@ -0,0 +1,226 @@
+import axios from "axios";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock, refreshVoiceProfile } = vi.hoisted(() => ({
+  prismaMock: {
+    post: { findFirst: vi.fn(), update: vi.fn() },
+  },
+  refreshVoiceProfile: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+vi.mock("@/lib/linkedin-token", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/linkedin-token")>()),
+  getLinkedInCredentials: vi.fn().mockResolvedValue({ accessToken: "token", linkedInId: "member-1" }),
+  markLinkedInReauthRequired: vi.fn(),
+}));
+vi.mock("@/lib/publishing-targets", () => ({
+  resolveLinkedInAuthor: vi.fn().mockResolvedValue({
+    authorUrn: "urn:li:person:member-1",
+    visibility: "PUBLIC",
+  }),
+}));
+vi.mock("@/lib/post-similarity", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/post-similarity")>()),
+  findSimilarPosts: vi.fn().mockResolvedValue([]),
+}));
+vi.mock("@/lib/hashtag-library", () => ({ refreshHashtagLibrary: vi.fn() }));
+vi.mock("@/lib/voice-profile", () => ({ refreshVoiceProfile }));
+vi.mock("@/lib/post-document", () => ({ renderSlidesToPdf: vi.fn() }));
+
+import { linkedInClient, publishPost } from "@/lib/linkedin";
+
+const FAILING_IMAGE = "https://cdn.example.com/broken.jpg";
+
+function storedPost(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "post-1",
+    userId: "user-1",
+    status: "ready",
+    title: "Post",
+    content: "Hello LinkedIn",
+    hashtags: [],
+    imageUrl: null,
+    imageUrls: [],
+    format: "text",
+    slides: [],
+    poll: null,
+    firstComment: null,
+    targetId: null,
+    ...overrides,
+  };
+}
+
+/** Body sent to POST /posts */
+function publishedBody() {
+  const call = vi.mocked(linkedInClient.post).mock.calls.find(([url]) => url === "/posts");
+  return call?.[1] as Record<string, unknown> & { content?: Record<string, unknown> };
+}
+
+describe("publishPost", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    let uploadCount = 0;
+    vi.spyOn(linkedInClient, "post").mockImplementation(async (url: string) => {
+      if (url === "/images?action=initializeUpload") {
+        uploadCount++;
+        return {
+          data: {
+            value: { uploadUrl: `https://upload.example.com/${uploadCount}`, image: `urn:li:image:${uploadCount}` },
+          },
+        };
+      }
+      return { headers: { "x-restli-id": "urn:li:share:42" }, data: {} };
+    });
+    vi.spyOn(linkedInClient, "get").mockResolvedValue({ data: { status: "AVAILABLE" } });
+    vi.spyOn(axios, "get").mockImplementation(async (url: string) => {
+      if (url === FAILING_IMAGE) throw new Error("Image not found");
+      return { data: new ArrayBuffer(8), headers: { "content-type": "image/png" } };
+    });
+    vi.spyOn(axios, "put").mockResolvedValue({});
+    prismaMock.post.update.mockResolvedValue({});
+  });
+
+  it("publishes a text post and marks it as published", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(storedPost({ hashtags: ["#Remote"] }));
+
+    const result = await publishPost("post-1", "user-1");
+
+    expect(result).toMatchObject({
+      linkedInUrn: "urn:li:share:42",
+      warnings: [],
+      droppedImages: [],
+      wasShortened: false,
+    });
+    const body = publishedBody();
+    expect(body.commentary).toBe("Hello LinkedIn\n\n#Remote");
+    expect(body.author).toBe("urn:li:person:member-1");
+    expect(body.content).toBeUndefined();
+    expect(prismaMock.post.update).toHaveBeenCalledWith({
+      where: { id: "post-1" },
+      data: expect.objectContaining({ status: "published", linkedInUrn: "urn:li:share:42" }),
+    });
+  });
+
+  it("refreshes the writing voice once published", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(storedPost());
+    refreshVoiceProfile.mockRejectedValue(new Error("Database unavailable"));
+
+    const result = await publishPost("post-1", "user-1");
+
+    expect(refreshVoiceProfile).toHaveBeenCalledWith("user-1");
+    expect(result.linkedInUrn).toBe("urn:li:share:42");
+  });
+
+  it("records the schedule's target as the target of a post without one", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(storedPost());
+
+    await publishPost("post-1", "user-1", { fallbackTargetId: "target-1" });
+
+    expect(prismaMock.post.update).toHaveBeenCalledWith({
+      where: { id: "post-1" },
+      data: expect.objectContaining({ status: "published", targetId: "target-1" }),
+    });
+  });
+
+  it("shortens a text over LinkedIn's limit and warns about it", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(storedPost({ content: "a".repeat(3100) }));
+
+    const result = await publishPost("post-1", "user-1");
+
+    expect(result.wasShortened).toBe(true);
+    expect(result.warnings).toEqual([expect.stringContaining("3000-character limit")]);
+    expect(publishedBody().commentary).toHaveLength(3000);
+  });
+
+  it("keeps the hashtags when a long text is shortened", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(
+      storedPost({ content: "a".repeat(3100), hashtags: ["#Remote", "#Hiring"] })
+    );
+
+    const result = await publishPost("post-1", "user-1");
+
+    expect(result.wasShortened).toBe(true);
+    const commentary = publishedBody().commentary as string;
+    expect(commentary).toHaveLength(3000);
+    expect(commentary.endsWith("...\n\n#Remote #Hiring")).toBe(true);
+  });
+
+  it("publishes a single image as media", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(
+      storedPost({ imageUrl: "https://cdn.example.com/one.png" })
+    );
+
+    const result = await publishPost("post-1", "user-1");
+
+    expect(result.warnings).toEqual([]);
+    expect(publishedBody().content).toEqual({ media: { id: "urn:li:image:1" } });
+  });
+
+  it("publishes several images as a multi-image post", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(
+      storedPost({
+        imageUrls: ["https://cdn.example.com/one.png", "https://cdn.example.com/two.png"],
+      })
+    );
+
+    const result = await publishPost("post-1", "user-1");
+
+    expect(result.warnings).toEqual([]);
+    expect(publishedBody().content).toEqual({
+      multiImage: { images: [{ id: "urn:li:image:1" }, { id: "urn:li:image:2" }] },
+    });
+  });
+
+  it("leaves out images that fail to upload", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(
+      storedPost({
+        imageUrls: [
+          "https://cdn.example.com/one.png",
+          FAILING_IMAGE,
+          "https://cdn.example.com/two.png",
+        ],
+      })
+    );
+
+    const result = await publishPost("post-1", "user-1");
+
+    expect(result.droppedImages).toEqual([FAILING_IMAGE]);
+    expect(result.warnings).toEqual([
+      "1 image(s) could not be uploaded to LinkedIn and were left out.",
+    ]);
+    expect(publishedBody().content).toEqual({
+      multiImage: { images: [{ id: "urn:li:image:1" }, { id: "urn:li:image:3" }] },
+    });
+  });
+
+  it("falls back to a single image when only one of several uploads", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(
+      storedPost({ imageUrls: ["https://cdn.example.com/one.png", FAILING_IMAGE] })
+    );
+
+    const result = await publishPost("post-1", "user-1");
+
+    expect(result.droppedImages).toEqual([FAILING_IMAGE]);
+    expect(result.warnings).toEqual([
+      "Only one image could be uploaded to LinkedIn. The post was published with one image.",
+    ]);
+    expect(publishedBody().content).toEqual({ media: { id: "urn:li:image:1" } });
+  });
+
+  it("publishes as text when no image uploads", async () => {
+    prismaMock.post.findFirst.mockResolvedValue(storedPost({ imageUrl: FAILING_IMAGE }));
+
+    const result = await publishPost("post-1", "user-1");
+
+    expect(result.droppedImages).toEqual([FAILING_IMAGE]);
+    expect(result.warnings).toEqual([
+      "No selected image could be uploaded to LinkedIn. The post was published as text-only.",
+    ]);
+    expect(publishedBody().content).toBeUndefined();
+  });
+});
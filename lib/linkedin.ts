@@ -2,6 +2,22 @@ import axios, { AxiosError } from "axios";
 import https from "https";
 import path from "path";
 import { readFile } from "fs/promises";
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import {
+  getLinkedInCredentials,
+  LinkedInReauthRequiredError,
+  LinkedInTokenRefreshError,
+  markLinkedInReauthRequired,
+} from "@/lib/linkedin-token";
+import { renderSlidesToPdf } from "@/lib/post-document";
+import { LinkedInAuthor, resolveLinkedInAuthor } from "@/lib/publishing-targets";
+import { validatePoll } from "@/lib/post-poll";
+import { findSimilarPosts, PUBLISH_SIMILARITY_THRESHOLD } from "@/lib/post-similarity";
+import { composePostText } from "@/lib/hashtags";
+import { refreshHashtagLibrary } from "@/lib/hashtag-library";
+import { refreshVoiceProfile } from "@/lib/voice-profile";
+import { FIRST_COMMENT_MAX_LENGTH, type PostPoll } from "@/types/post";
 
 // HTTPS agent that forces IPv4 to avoid connection issues
 const httpsAgent = new https.Agent({
@@ -13,6 +29,8 @@ const httpsAgent = new https.Agent({
 const LINKEDIN_API_BASE = "https://api.linkedin.com/rest";
 const LINKEDIN_VERSION = "202504";
 const REQUEST_TIMEOUT = 30000; // 30 seconds
+const LINKEDIN_MAX_COMMENTARY_LENGTH = 3000;
+const LINKEDIN_MAX_IMAGES = 20;
 const LOCAL_POST_IMAGE_PREFIX = "/uploads/posts/";
 const LOCAL_UPLOADS_ROOT = path.resolve(process.cwd(), "public", "uploads", "posts");
 const MIME_BY_EXTENSION: Record<string, string> = {
@@ -41,11 +59,11 @@ export const linkedInClient = axios.create({
 /**
  * Build the post body for LinkedIn REST Posts API (text only)
  */
-export function buildPostBody(linkedInId: string, content: string) {
+export function buildPostBody(author: LinkedInAuthor, content: string) {
   return {
-    author: `urn:li:person:${linkedInId}`,
+    author: author.authorUrn,
     commentary: content,
-    visibility: "PUBLIC",
+    visibility: author.visibility,
     distribution: {
       feedDistribution: "MAIN_FEED",
       targetEntities: [],
@@ -61,14 +79,14 @@ export function buildPostBody(linkedInId: string, content: string) {
  * Uses the new content.media.id format with an image URN from the Images API
  */
 export function buildPostBodyWithImage(
-  linkedInId: string,
+  author: LinkedInAuthor,
   content: string,
   imageUrn: string
 ) {
   return {
-    author: `urn:li:person:${linkedInId}`,
+    author: author.authorUrn,
     commentary: content,
-    visibility: "PUBLIC",
+    visibility: author.visibility,
     distribution: {
       feedDistribution: "MAIN_FEED",
       targetEntities: [],
@@ -89,14 +107,14 @@ export function buildPostBodyWithImage(
  * Uses content.multiImage.images with image URNs from the Images API.
  */
 export function buildPostBodyWithImages(
-  linkedInId: string,
+  author: LinkedInAuthor,
   content: string,
   imageUrns: string[]
 ) {
   return {
-    author: `urn:li:person:${linkedInId}`,
+    author: author.authorUrn,
     commentary: content,
-    visibility: "PUBLIC",
+    visibility: author.visibility,
     distribution: {
       feedDistribution: "MAIN_FEED",
       targetEntities: [],
@@ -114,17 +132,79 @@ export function buildPostBodyWithImages(
   };
 }
 
+/**
+ * Build a document (PDF carousel) post body.
+ * LinkedIn renders the uploaded PDF as swipeable pages titled with `title`.
+ */
+export function buildPostBodyWithDocument(
+  author: LinkedInAuthor,
+  content: string,
+  documentUrn: string,
+  title: string
+) {
+  return {
+    author: author.authorUrn,
+    commentary: content,
+    visibility: author.visibility,
+    distribution: {
+      feedDistribution: "MAIN_FEED",
+      targetEntities: [],
+      thirdPartyDistributionChannels: [],
+    },
+    content: {
+      media: {
+        title,
+        id: documentUrn,
+      },
+    },
+    lifecycleState: "PUBLISHED",
+    isReshareDisabledByAuthor: false,
+  };
+}
+
+/**
+ * Build a poll post body. The commentary introduces the poll,
+ * the question and options are rendered by LinkedIn.
+ */
+export function buildPostBodyWithPoll(
+  author: LinkedInAuthor,
+  content: string,
+  poll: { question: string; options: string[]; duration: string }
+) {
+  return {
+    author: author.authorUrn,
+    commentary: content,
+    visibility: author.visibility,
+    distribution: {
+      feedDistribution: "MAIN_FEED",
+      targetEntities: [],
+      thirdPartyDistributionChannels: [],
+    },
+    content: {
+      poll: {
+        question: poll.question,
+        options: poll.options.map((text) => ({ text })),
+        settings: {
+          duration: poll.duration,
+        },
+      },
+    },
+    lifecycleState: "PUBLISHED",
+    isReshareDisabledByAuthor: false,
+  };
+}
+
 /**
  * Initialize an image upload with LinkedIn Images API
  * Returns the upload URL and the image URN (urn:li:image:{id})
  */
 export async function registerImageUpload(
-  linkedInId: string,
+  ownerUrn: string,
   accessToken: string
 ): Promise<{ uploadUrl: string; imageUrn: string }> {
   const body = {
     initializeUploadRequest: {
-      owner: `urn:li:person:${linkedInId}`,
+      owner: ownerUrn,
     },
   };
 
@@ -194,6 +274,54 @@ export async function uploadImageToLinkedIn(
   console.log("[LinkedIn Image] Image uploaded successfully");
 }
 
+/**
+ * Upload a PDF to LinkedIn with the Documents API and return the document URN
+ * (urn:li:document:{id}). Unlike images, a failed upload is not recoverable:
+ * the error is thrown so the publication fails and can be retried.
+ */
+export async function uploadDocumentToLinkedIn(
+  pdf: Uint8Array,
+  ownerUrn: string,
+  accessToken: string
+): Promise<string> {
+  console.log("[LinkedIn Document] Initializing document upload via Documents API...");
+
+  const response = await linkedInClient.post(
+    "/documents?action=initializeUpload",
+    {
+      initializeUploadRequest: {
+        owner: ownerUrn,
+      },
+    },
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    }
+  );
+
+  const uploadUrl: string = response.data.value.uploadUrl;
+  const documentUrn: string = response.data.value.document;
+
+  console.log(
+    `[LinkedIn Document] Uploading ${pdf.length} bytes for ${documentUrn}...`
+  );
+
+  await axios.put(uploadUrl, Buffer.from(pdf), {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/pdf",
+    },
+    timeout: 60000,
+    httpsAgent,
+    maxBodyLength: Infinity,
+    maxContentLength: Infinity,
+  });
+
+  console.log("[LinkedIn Document] Document uploaded successfully");
+  return documentUrn;
+}
+
 function resolveLocalPostImagePath(imageUrl: string): string | null {
   const raw = String(imageUrl || "").trim();
   if (!raw) return null;
@@ -278,12 +406,12 @@ async function waitForImageAvailability(
  */
 export async function prepareLinkedInImage(
   imageUrl: string,
-  linkedInId: string,
+  ownerUrn: string,
   accessToken: string
 ): Promise<string | null> {
   try {
     const { uploadUrl, imageUrn } = await registerImageUpload(
-      linkedInId,
+      ownerUrn,
       accessToken
     );
     await uploadImageToLinkedIn(imageUrl, uploadUrl);
@@ -311,7 +439,7 @@ export async function prepareLinkedInImage(
  */
 export async function prepareLinkedInImages(
   imageUrls: string[],
-  linkedInId: string,
+  ownerUrn: string,
   accessToken: string
 ): Promise<string[]> {
   const uniqueUrls = Array.from(
@@ -322,7 +450,7 @@ export async function prepareLinkedInImages(
 
   const prepared: string[] = [];
   for (const imageUrl of uniqueUrls) {
-    const imageUrn = await prepareLinkedInImage(imageUrl, linkedInId, accessToken);
+    const imageUrn = await prepareLinkedInImage(imageUrl, ownerUrn, accessToken);
     if (imageUrn) {
       prepared.push(imageUrn);
     }
@@ -331,6 +459,63 @@ export async function prepareLinkedInImages(
   return prepared;
 }
 
+/**
+ * Comment on a LinkedIn post as its author (Comments API).
+ * Returns the comment URN when LinkedIn sends it back.
+ */
+export async function createLinkedInComment(
+  linkedInUrn: string,
+  actorUrn: string,
+  text: string,
+  accessToken: string
+): Promise<string | null> {
+  const response = await linkedInClient.post(
+    `/socialActions/${encodeURIComponent(linkedInUrn)}/comments`,
+    {
+      actor: actorUrn,
+      object: linkedInUrn,
+      message: {
+        text,
+      },
+    },
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    }
+  );
+
+  return response.headers["x-restli-id"] || response.data?.id || null;
+}
+
+/**
+ * Replace the commentary of an existing LinkedIn post.
+ * The REST Posts API expresses PATCH semantics as a POST with the
+ * PARTIAL_UPDATE Rest.li method and a $set patch document.
+ */
+export async function updateLinkedInPostCommentary(
+  linkedInUrn: string,
+  commentary: string,
+  accessToken: string
+): Promise<void> {
+  await linkedInClient.post(
+    `/posts/${encodeURIComponent(linkedInUrn)}`,
+    {
+      patch: {
+        $set: {
+          commentary,
+        },
+      },
+    },
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "X-RestLi-Method": "PARTIAL_UPDATE",
+      },
+    }
+  );
+}
+
 /**
  * Delete an existing LinkedIn post by URN.
  * Expected URN format: urn:li:share:{id} or urn:li:ugcPost:{id}
@@ -346,6 +531,394 @@ export async function deleteLinkedInPost(
   });
 }
 
+/**
+ * Publication refused before reaching LinkedIn (missing post, wrong status...)
+ */
+export class PublishPostError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PublishPostError";
+  }
+}
+
+export interface PublishPostOptions {
+  /** Post statuses that may be published (defaults to ready and failed) */
+  allowedStatuses?: string[];
+  /** Publishing target used when the post has none (e.g. the schedule's) */
+  fallbackTargetId?: string | null;
+}
+
+export interface PublishPostResult {
+  postId: string;
+  linkedInUrn: string | null;
+  /** User-facing notes about what was changed to get the post accepted */
+  warnings: string[];
+  /** Image URLs that could not be uploaded and were left out */
+  droppedImages: string[];
+  /** Text exceeded LinkedIn's commentary limit and was cut */
+  wasShortened: boolean;
+}
+
+function sanitizeLinkedInCommentary(content: string): string {
+  let normalized = content;
+
+  // Convert markdown links to plain text to avoid little-text parsing issues.
+  normalized = normalized.replace(
+    /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g,
+    "$1: $2"
+  );
+
+  // Convert markdown bullet style to plain bullets.
+  normalized = normalized.replace(/^\s*\*\s+/gm, "- ");
+
+  // Escape little-text reserved characters that can truncate rendering.
+  normalized = normalized.replace(/([\\\[\]\(\)])/g, "\\$1");
+
+  return normalized;
+}
+
+/**
+ * Commentary sent to LinkedIn: the content followed by its hashtags. Over the
+ * limit, the content is shortened so that the hashtags are always kept.
+ */
+function normalizeLinkedInCommentary(
+  content: string,
+  hashtags: string[] = []
+): {
+  commentary: string;
+  wasShortened: boolean;
+} {
+  const postText = composePostText(content, hashtags);
+  const hashtagSuffix = postText === content ? "" : postText.slice(content.trimEnd().length);
+  const body = sanitizeLinkedInCommentary(content).trim();
+  const maxBodyLength = LINKEDIN_MAX_COMMENTARY_LENGTH - hashtagSuffix.length;
+  if (body.length <= maxBodyLength) {
+    return { commentary: `${body}${hashtagSuffix}`, wasShortened: false };
+  }
+
+  return {
+    commentary: `${body.slice(0, maxBodyLength - 3)}...${hashtagSuffix}`,
+    wasShortened: true,
+  };
+}
+
+function getImageCandidates(imageUrl?: string | null, imageUrls?: string[]): string[] {
+  const candidates = [
+    imageUrl || "",
+    ...(Array.isArray(imageUrls) ? imageUrls : []),
+  ]
+    .map((item) => String(item || "").trim())
+    .filter(Boolean);
+  return Array.from(new Set(candidates)).slice(0, LINKEDIN_MAX_IMAGES);
+}
+
+/**
+ * Publish a stored post to LinkedIn on behalf of its owner and mark it as published.
+ * Single entry point for manual publication (API route) and the Agenda jobs:
+ * handles token refresh, hashtags, text normalization, image uploads and the
+ * text / single image / multi-image / document / poll branching.
+ */
+export async function publishPost(
+  postId: string,
+  userId: string,
+  options: PublishPostOptions = {}
+): Promise<PublishPostResult> {
+  const { allowedStatuses = ["ready", "failed"], fallbackTargetId = null } = options;
+
+  const post = await prisma.post.findFirst({
+    where: { id: postId, userId },
+  });
+
+  if (!post) {
+    throw new PublishPostError("Post not found", 404);
+  }
+
+  if (!allowedStatuses.includes(post.status)) {
+    throw new PublishPostError(
+      post.status === "draft"
+        ? "Cannot publish a draft post. Please mark it as ready first."
+        : post.status === "needs_review"
+          ? "Cannot publish a generated draft before it is reviewed. Please approve it first."
+          : `Cannot publish a post with status "${post.status}".`,
+      400
+    );
+  }
+
+  // LinkedIn refuses near-identical posts (DUPLICATE_CONTENT): fail early with the culprit
+  const [duplicate] = await findSimilarPosts(userId, post.content, {
+    excludePostId: post.id,
+    statuses: ["published"],
+    threshold: PUBLISH_SIMILARITY_THRESHOLD,
+    limit: 1,
+  });
+  if (duplicate) {
+    throw new PublishPostError(
+      `This post is ${Math.round(duplicate.similarity * 100)}% similar to "${duplicate.title}", ` +
+        `already published. Update the text, then publish again.`,
+      409
+    );
+  }
+
+  const { accessToken, linkedInId } = await getLinkedInCredentials(userId);
+
+  const author = await resolveLinkedInAuthor(
+    userId,
+    linkedInId,
+    post.targetId || fallbackTargetId
+  );
+  if (!author) {
+    throw new PublishPostError(
+      "The publishing target of this post no longer exists. Pick another target.",
+      400
+    );
+  }
+
+  const warnings: string[] = [];
+  const imageCandidates = getImageCandidates(post.imageUrl, post.imageUrls);
+  const postText = composePostText(post.content, post.hashtags);
+  const { commentary, wasShortened } = normalizeLinkedInCommentary(post.content, post.hashtags);
+  if (wasShortened) {
+    warnings.push(
+      "Your post exceeded LinkedIn's 3000-character limit and was automatically shortened."
+    );
+  }
+
+  const isDocument = post.format === "document" && post.slides.length > 0;
+  const poll = post.format === "poll" ? post.poll : null;
+  if (poll) {
+    const pollError = validatePoll(poll as PostPoll);
+    if (pollError) {
+      throw new PublishPostError(pollError, 400);
+    }
+  }
+
+  console.log(
+    isDocument
+      ? `[LinkedIn Publish] Publishing document post ${postId} (${post.slides.length} slide(s))`
+      : poll
+        ? `[LinkedIn Publish] Publishing poll post ${postId}`
+        : `[LinkedIn Publish] Publishing post ${postId} (${imageCandidates.length} image candidate(s))`
+  );
+
+  // Upload images first; failed ones are dropped instead of blocking the post.
+  // Document and poll posts cannot carry images, those are ignored.
+  const hasExclusiveContent = isDocument || Boolean(poll);
+  const imageUploads = hasExclusiveContent ? [] : imageCandidates;
+  const imageAssets: string[] = [];
+  const droppedImages: string[] = [];
+  for (const imageUrl of imageUploads) {
+    const imageUrn = await prepareLinkedInImage(imageUrl, author.authorUrn, accessToken);
+    if (imageUrn) {
+      imageAssets.push(imageUrn);
+    } else {
+      droppedImages.push(imageUrl);
+    }
+  }
+
+  let postBody;
+  if (isDocument) {
+    const pdf = await renderSlidesToPdf(post.title, post.slides);
+    const documentUrn = await uploadDocumentToLinkedIn(pdf, author.authorUrn, accessToken);
+    postBody = buildPostBodyWithDocument(author, commentary, documentUrn, post.title);
+  } else if (poll) {
+    postBody = buildPostBodyWithPoll(author, commentary, poll);
+  } else if (imageAssets.length >= 2) {
+    postBody = buildPostBodyWithImages(author, commentary, imageAssets);
+  } else if (imageAssets.length === 1) {
+    postBody = buildPostBodyWithImage(author, commentary, imageAssets[0]);
+  } else {
+    postBody = buildPostBody(author, commentary);
+  }
+
+  if (hasExclusiveContent && imageCandidates.length > 0) {
+    warnings.push(
+      isDocument
+        ? "Document posts cannot include images on LinkedIn. The images were left out."
+        : "Poll posts cannot include images on LinkedIn. The images were left out."
+    );
+  } else if (imageUploads.length > 0 && imageAssets.length === 0) {
+    warnings.push(
+      "No selected image could be uploaded to LinkedIn. The post was published as text-only."
+    );
+  } else if (imageUploads.length > 1 && imageAssets.length === 1) {
+    warnings.push(
+      "Only one image could be uploaded to LinkedIn. The post was published with one image."
+    );
+  } else if (droppedImages.length > 0) {
+    warnings.push(
+      `${droppedImages.length} image(s) could not be uploaded to LinkedIn and were left out.`
+    );
+  }
+
+  let response;
+  try {
+    response = await linkedInClient.post("/posts", postBody, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
+  } catch (error) {
+    // Token revoked or expired early: ask the user to sign in again
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      await markLinkedInReauthRequired(userId);
+    }
+    throw error;
+  }
+
+  // Extract the LinkedIn URN from the response headers (201 response)
+  // The x-restli-id header contains: urn:li:share:{id} or urn:li:ugcPost:{id}
+  const linkedInUrn: string | null =
+    response.headers["x-restli-id"] || response.data?.id || null;
+
+  if (!linkedInUrn) {
+    console.warn(`[LinkedIn Publish] No URN returned for post ${postId}`);
+  }
+
+  await prisma.post.update({
+    where: { id: postId },
+    data: {
+      status: "published",
+      publishedAt: new Date(),
+      publishRetryAt: null,
+      targetId: post.targetId || fallbackTargetId || null,
+      linkedInUrn,
+      lastSyncedAt: new Date(),
+      syncedContentHash: hashPostContent(postText),
+    },
+  });
+
+  console.log(`[LinkedIn Publish] Post ${postId} published with URN: ${linkedInUrn}`);
+
+  // Hashtag usage counts can wait for the next refresh: only logged on failure
+  try {
+    await refreshHashtagLibrary(userId);
+  } catch (error) {
+    console.error(`[LinkedIn Publish] Failed to refresh the hashtag library of user ${userId}:`, error);
+  }
+
+  // Same for the writing voice, learned from the latest published posts
+  try {
+    await refreshVoiceProfile(userId);
+  } catch (error) {
+    console.error(`[LinkedIn Publish] Failed to refresh the voice profile of user ${userId}:`, error);
+  }
+
+  // The post is live at this point: a failed first comment is only a warning
+  const firstComment = post.firstComment?.trim();
+  if (firstComment && linkedInUrn) {
+    try {
+      const firstCommentUrn = await createLinkedInComment(
+        linkedInUrn,
+        author.authorUrn,
+        firstComment.slice(0, FIRST_COMMENT_MAX_LENGTH),
+        accessToken
+      );
+      await prisma.post.update({
+        where: { id: postId },
+        data: { firstCommentUrn },
+      });
+      console.log(`[LinkedIn Publish] First comment added to post ${postId}`);
+    } catch (error) {
+      console.error(`[LinkedIn Publish] Failed to add first comment to post ${postId}:`, error);
+      warnings.push(
+        "The post was published but its first comment could not be added. Add it manually on LinkedIn."
+      );
+    }
+  }
+
+  return { postId, linkedInUrn, warnings, droppedImages, wasShortened };
+}
+
+/**
+ * Fingerprint of the post text (content and hashtags) last sent to LinkedIn
+ */
+export function hashPostContent(content: string): string {
+  return createHash("sha256").update(content.trim()).digest("hex");
+}
+
+/**
+ * Add the derived isOutOfSync flag: true when a published post was edited
+ * locally after its last publish/sync. Posts published before sync tracking
+ * existed have no hash and are never reported as drifted.
+ */
+export function withSyncState<
+  T extends {
+    status: string;
+    content: string;
+    hashtags?: string[];
+    syncedContentHash?: string | null;
+  }
+>(post: T): T & { isOutOfSync: boolean } {
+  return {
+    ...post,
+    isOutOfSync:
+      post.status === "published" &&
+      Boolean(post.syncedContentHash) &&
+      hashPostContent(composePostText(post.content, post.hashtags)) !== post.syncedContentHash,
+  };
+}
+
+export interface SyncPostResult {
+  postId: string;
+  lastSyncedAt: Date;
+  warnings: string[];
+  wasShortened: boolean;
+}
+
+/**
+ * Push the local commentary of an already-published post to LinkedIn.
+ * Only the text can be edited through the Posts API; media stays as published.
+ */
+export async function syncPostToLinkedIn(
+  postId: string,
+  userId: string
+): Promise<SyncPostResult> {
+  const post = await prisma.post.findFirst({
+    where: { id: postId, userId },
+  });
+
+  if (!post) {
+    throw new PublishPostError("Post not found", 404);
+  }
+
+  if (post.status !== "published" || !post.linkedInUrn) {
+    throw new PublishPostError("Only posts published on LinkedIn can be synced.", 400);
+  }
+
+  const { accessToken } = await getLinkedInCredentials(userId);
+
+  const warnings: string[] = [];
+  const postText = composePostText(post.content, post.hashtags);
+  const { commentary, wasShortened } = normalizeLinkedInCommentary(post.content, post.hashtags);
+  if (wasShortened) {
+    warnings.push(
+      "Your post exceeded LinkedIn's 3000-character limit and was automatically shortened."
+    );
+  }
+
+  try {
+    await updateLinkedInPostCommentary(post.linkedInUrn, commentary, accessToken);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      await markLinkedInReauthRequired(userId);
+    }
+    throw error;
+  }
+
+  const lastSyncedAt = new Date();
+  await prisma.post.update({
+    where: { id: postId },
+    data: {
+      lastSyncedAt,
+      syncedContentHash: hashPostContent(postText),
+    },
+  });
+
+  console.log(`[LinkedIn Publish] Synced edit of post ${postId} to ${post.linkedInUrn}`);
+
+  return { postId, lastSyncedAt, warnings, wasShortened };
+}
+
 /**
  * Error messages for LinkedIn API errors
  */
@@ -353,7 +926,7 @@ export const ERROR_MESSAGES = {
   UNAUTHORIZED:
     "Session expired. Please sign out and sign in again.",
   FORBIDDEN:
-    "Permission denied. Make sure 'Share on LinkedIn' product is enabled in your LinkedIn Developer app.",
+    "Permission denied. Make sure 'Share on LinkedIn' product is enabled in your LinkedIn Developer app. Publishing as a company page also requires being one of its admins and the w_organization_social permission.",
   RATE_LIMIT: "Rate limit exceeded. Please try again later.",
   DUPLICATE_CONTENT:
     "LinkedIn rejected this post because it is too similar to a previous publication. Update the text (and/or image), then publish again.",
@@ -370,6 +943,19 @@ export function handleLinkedInError(error: unknown): {
   message: string;
   status: number;
 } {
+  if (error instanceof PublishPostError) {
+    return { message: error.message, status: error.status };
+  }
+
+  if (error instanceof LinkedInReauthRequiredError) {
+    return { message: error.message, status: 401 };
+  }
+
+  // Token refresh failed for a transient reason: retryable, the user stays connected
+  if (error instanceof LinkedInTokenRefreshError) {
+    return { message: error.message, status: 503 };
+  }
+
   if (axios.isAxiosError(error)) {
     const axiosError = error as AxiosError<{ message?: string }>;
 
@@ -0,0 +1,223 @@
+import { prisma } from "@/lib/prisma";
+import { LlmCompletionParams, LlmMessage, runChatCompletion } from "@/lib/llm";
+import type { LlmFeature } from "@/types/llm";
+
+/**
+ * Expected JSON answer of a prompt
+ */
+export interface ResponseSchema<T> {
+  /** Prompt name in the parse metrics, e.g. "generate.posts" */
+  name: string;
+  /** JSON mode only applies to object answers */
+  root: "object" | "array";
+  /** Example of the expected JSON, shown to the model when repairing */
+  shape: string;
+  /** Typed value, or a short description of what is wrong */
+  validate(value: unknown): { value: T } | { error: string };
+}
+
+/**
+ * Answer still invalid after the repair attempts. `raw` is the last answer,
+ * for routes that fall back on the plain text.
+ */
+export class LlmOutputError extends Error {
+  constructor(public schema: string, public raw: string, message: string) {
+    super(message);
+    this.name = "LlmOutputError";
+  }
+}
+
+/** Repair prompts sent after an invalid answer */
+const MAX_REPAIR_ATTEMPTS = 1;
+/** Part of an invalid answer sent back to the model */
+const MAX_REPAIR_ECHO_LENGTH = 4000;
+
+/**
+ * Parse the JSON of an answer: code fences are ignored and surrounding text
+ * is trimmed to the outermost object or array
+ */
+export function extractJson(text: string, root: "object" | "array"): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, "").trim();
+  const [open, close] = root === "object" ? ["{", "}"] : ["[", "]"];
+  const start = unfenced.indexOf(open);
+  const end = unfenced.lastIndexOf(close);
+  if (start === -1 || end <= start) {
+    throw new SyntaxError(`No JSON ${root} found`);
+  }
+  return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+export function parseStructuredResponse<T>(
+  text: string,
+  schema: ResponseSchema<T>
+): { value: T } | { error: string } {
+  if (!text.trim()) return { error: "empty answer" };
+  try {
+    return schema.validate(extractJson(text, schema.root));
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "invalid JSON" };
+  }
+}
+
+function buildRepairMessage(schema: ResponseSchema<unknown>, error: string): LlmMessage {
+  return {
+    role: "user",
+    content: `Your previous answer could not be used: ${error}.
+Return only the corrected JSON ${schema.root}, with exactly this structure:
+${schema.shape}
+No markdown, no comments, no text before or after the JSON.`,
+  };
+}
+
+type ParseOutcome = "valid" | "repaired" | "failed";
+
+/**
+ * Count a structured answer in the daily metrics. Never throws.
+ */
+async function recordParseStat(
+  schema: string,
+  outcome: ParseOutcome,
+  details: { model: string; error?: string }
+): Promise<void> {
+  const day = new Date().toISOString().slice(0, 10);
+  const invalid = outcome === "valid" ? 0 : 1;
+  const counters = {
+    calls: 1,
+    invalid,
+    repaired: outcome === "repaired" ? 1 : 0,
+    failed: outcome === "failed" ? 1 : 0,
+  };
+
+  try {
+    await prisma.llmParseStat.upsert({
+      where: { prompt_day: { prompt: schema, day } },
+      create: {
+        prompt: schema,
+        day,
+        ...counters,
+        lastModel: details.model,
+        ...(details.error && { lastError: details.error.slice(0, 500) }),
+      },
+      update: {
+        calls: { increment: counters.calls },
+        invalid: { increment: counters.invalid },
+        repaired: { increment: counters.repaired },
+        failed: { increment: counters.failed },
+        lastModel: details.model,
+        ...(details.error && { lastError: details.error.slice(0, 500) }),
+      },
+    });
+  } catch (error) {
+    console.error(`[LLM] Failed to record parse metrics of ${schema}:`, error);
+  }
+}
+
+/**
+ * Chat completion whose answer must match a schema. JSON mode is used for
+ * object answers when the provider supports it; an invalid answer is sent
+ * back with a repair prompt. Every call is counted in the parse metrics.
+ *
+ * Throws LlmOutputError when the answer is still invalid.
+ */
+export async function completeStructured<T>(
+  feature: LlmFeature,
+  schema: ResponseSchema<T>,
+  params: Omit<LlmCompletionParams, "feature" | "model" | "jsonMode">
+): Promise<T> {
+  const jsonMode = schema.root === "object";
+  let { content, model } = await runChatCompletion(feature, { ...params, jsonMode });
+  let result = parseStructuredResponse(content, schema);
+  if ("value" in result) {
+    void recordParseStat(schema.name, "valid", { model });
+    return result.value;
+  }
+
+  const messages = [...params.messages];
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && "error" in result; attempt++) {
+    console.warn(`[LLM] Invalid ${schema.name} answer (${result.error}), repair attempt ${attempt}`);
+    params.signal?.throwIfAborted();
+    messages.push(
+      { role: "assistant", content: content.slice(0, MAX_REPAIR_ECHO_LENGTH) },
+      buildRepairMessage(schema, result.error)
+    );
+    ({ content, model } = await runChatCompletion(feature, {
+      ...params,
+      messages,
+      temperature: 0,
+      jsonMode,
+    }));
+    result = parseStructuredResponse(content, schema);
+  }
+
+  if ("value" in result) {
+    void recordParseStat(schema.name, "repaired", { model });
+    return result.value;
+  }
+
+  void recordParseStat(schema.name, "failed", { model, error: result.error });
+  throw new LlmOutputError(
+    schema.name,
+    content,
+    `Invalid ${schema.name} answer after ${MAX_REPAIR_ATTEMPTS} repair(s): ${result.error}`
+  );
+}
+
+/**
+ * Schema of a non-empty list of strings (blank items dropped)
+ */
+export function stringArraySchema(name: string, shape = '["...", "...", "..."]'): ResponseSchema<string[]> {
+  return {
+    name,
+    root: "array",
+    shape,
+    validate(value) {
+      if (!Array.isArray(value)) return { error: "expected an array" };
+      const items = value
+        .map((item) => (typeof item === "string" ? item.trim() : ""))
+        .filter(Boolean);
+      return items.length > 0 ? { value: items } : { error: "expected a non-empty array of strings" };
+    },
+  };
+}
+
+export interface LlmParseStatSummary {
+  prompt: string;
+  calls: number;
+  invalid: number;
+  repaired: number;
+  failed: number;
+  lastError: string | null;
+}
+
+/**
+ * Parse metrics of the last days, per prompt, flakiest first
+ */
+export async function getParseStats(days = 7): Promise<LlmParseStatSummary[]> {
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const stats = await prisma.llmParseStat.findMany({
+    where: { day: { gte: since } },
+    orderBy: { day: "asc" },
+  });
+
+  const byPrompt = new Map<string, LlmParseStatSummary>();
+  for (const stat of stats) {
+    const summary = byPrompt.get(stat.prompt) ?? {
+      prompt: stat.prompt,
+      calls: 0,
+      invalid: 0,
+      repaired: 0,
+      failed: 0,
+      lastError: null,
+    };
+    summary.calls += stat.calls;
+    summary.invalid += stat.invalid;
+    summary.repaired += stat.repaired;
+    summary.failed += stat.failed;
+    summary.lastError = stat.lastError || summary.lastError;
+    byPrompt.set(stat.prompt, summary);
+  }
+
+  return Array.from(byPrompt.values()).sort(
+    (a, b) => b.invalid / b.calls - a.invalid / a.calls || b.calls - a.calls
+  );
+}
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock, openAiOptions } = vi.hoisted(() => ({
+  prismaMock: {
+    llmSettings: { findFirst: vi.fn() },
+  },
+  openAiOptions: [] as { baseURL: string; apiKey: string }[],
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+vi.mock("openai", () => ({
+  default: class {
+    constructor(options: { baseURL: string; apiKey: string }) {
+      openAiOptions.push(options);
+    }
+    chat = {
+      completions: {
+        create: async () => ({ choices: [{ message: { content: "Hello" } }] }),
+      },
+    };
+  },
+}));
+
+import { isLlmApiKeyConfigured, runChatCompletion, validateLlmBaseUrl } from "@/lib/llm";
+import type { LlmSettingsConfig } from "@/types/llm";
+
+function config(overrides: Partial<LlmSettingsConfig>): LlmSettingsConfig {
+  return { provider: "openai_compatible", baseUrl: null, model: null, featureModels: {}, ...overrides };
+}
+
+describe("LLM API keys", () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+    vi.stubEnv("LLM_API_KEY", "secret");
+    vi.stubEnv("LLM_BASE_URL", "https://llm.example.com/v1");
+  });
+
+  it("sends the key to the endpoint configured next to it", () => {
+    expect(isLlmApiKeyConfigured(config({ baseUrl: "https://llm.example.com/v1" }))).toBe(true);
+    expect(isLlmApiKeyConfigured(config({ baseUrl: "https://llm.example.com/v2" }))).toBe(true);
+  });
+
+  it("sends no key to another host set from the admin page", () => {
+    expect(isLlmApiKeyConfigured(config({ baseUrl: "https://llm.example.org/v1" }))).toBe(false);
+    expect(isLlmApiKeyConfigured(config({ baseUrl: "http://llm.example.com/v1" }))).toBe(false);
+  });
+
+  it("keeps the default endpoint of the provider without LLM_BASE_URL", () => {
+    vi.stubEnv("LLM_BASE_URL", "");
+
+    expect(isLlmApiKeyConfigured(config({}))).toBe(true);
+    expect(isLlmApiKeyConfigured(config({ baseUrl: "https://api.openai.com/v1" }))).toBe(true);
+    expect(isLlmApiKeyConfigured(config({ baseUrl: "https://llm.example.com/v1" }))).toBe(false);
+  });
+
+  it("does not pass the server key to the client of a foreign endpoint", async () => {
+    prismaMock.llmSettings.findFirst.mockResolvedValue({
+      provider: "openai_compatible",
+      baseUrl: "https://attacker.example.net/v1",
+      model: null,
+      featureModels: null,
+    });
+
+    await runChatCompletion("editing", { messages: [{ role: "user", content: "Hi" }] });
+
+    expect(openAiOptions).toEqual([
+      expect.objectContaining({ baseURL: "https://attacker.example.net/v1", apiKey: "not-needed" }),
+    ]);
+  });
+});
+
+describe("validateLlmBaseUrl", () => {
+  it("accepts https endpoints and http on localhost", () => {
+    expect(validateLlmBaseUrl("https://api.openai.com/v1")).toBeNull();
+    expect(validateLlmBaseUrl("http://localhost:11434/v1")).toBeNull();
+    expect(validateLlmBaseUrl("http://127.0.0.1:8080/v1")).toBeNull();
+  });
+
+  it("rejects plain http to other hosts and invalid URLs", () => {
+    expect(validateLlmBaseUrl("http://llm.example.com/v1")).toMatch(/https/);
+    expect(validateLlmBaseUrl("ftp://llm.example.com")).toMatch(/https/);
+    expect(validateLlmBaseUrl("not a url")).toBe("Base URL must be an http(s) URL");
+  });
+});
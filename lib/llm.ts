@@ -0,0 +1,378 @@
+import OpenAI from "openai";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  LlmFeature,
+  LlmProviderName,
+  LlmSettingsConfig,
+  llmFeatures,
+  llmProviderNames,
+} from "@/types/llm";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmCompletionParams {
+  feature: LlmFeature;
+  model: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a JSON object answer (ignored by providers without JSON mode) */
+  jsonMode?: boolean;
+  /** Aborts the pending request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Anything able to answer a chat completion: an OpenAI-compatible endpoint
+ * (Groq, OpenAI, Ollama, llama.cpp...) or the fake provider used offline
+ */
+export interface LlmProvider {
+  name: LlmProviderName;
+  /** Accepts response_format json_object */
+  supportsJsonMode: boolean;
+  complete(params: LlmCompletionParams): Promise<string>;
+}
+
+interface ProviderDefaults {
+  baseUrl: string | null;
+  model: string;
+  /** Environment variable holding the API key */
+  apiKeyEnv: string | null;
+  supportsJsonMode: boolean;
+}
+
+const PROVIDER_DEFAULTS: Record<LlmProviderName, ProviderDefaults> = {
+  // Llama 3.3 70B - best for content generation
+  groq: {
+    baseUrl: "https://api.groq.com/openai/v1",
+    model: "llama-3.3-70b-versatile",
+    apiKeyEnv: "GROQ_API_KEY",
+    supportsJsonMode: true,
+  },
+  openai_compatible: {
+    baseUrl: "https://api.openai.com/v1",
+    model: "gpt-4o-mini",
+    apiKeyEnv: "LLM_API_KEY",
+    // Not all compatible servers implement it; LLM_JSON_MODE=false turns it off
+    supportsJsonMode: process.env.LLM_JSON_MODE !== "false",
+  },
+  ollama: {
+    baseUrl: "http://localhost:11434/v1",
+    model: "llama3.1",
+    apiKeyEnv: null,
+    supportsJsonMode: true,
+  },
+  fake: { baseUrl: null, model: "fake", apiKeyEnv: null, supportsJsonMode: false },
+};
+
+/** Admin settings are read again after this delay */
+const SETTINGS_CACHE_TTL_MS = 30 * 1000;
+
+/**
+ * Provider configured through an OpenAI-compatible chat completions API
+ */
+export function createOpenAiCompatibleProvider(
+  name: LlmProviderName,
+  options: { baseUrl: string; apiKey?: string; supportsJsonMode?: boolean }
+): LlmProvider {
+  const client = new OpenAI({
+    baseURL: options.baseUrl,
+    // Local servers (Ollama, llama.cpp) ignore the key but the SDK requires one
+    apiKey: options.apiKey || "not-needed",
+  });
+
+  const supportsJsonMode = options.supportsJsonMode ?? true;
+
+  return {
+    name,
+    supportsJsonMode,
+    async complete({ model, messages, temperature, maxTokens, jsonMode, signal }) {
+      const completion = await client.chat.completions.create(
+        {
+          model,
+          messages,
+          temperature,
+          max_tokens: maxTokens,
+          ...(jsonMode && supportsJsonMode && { response_format: { type: "json_object" } }),
+        },
+        { signal }
+      );
+      return completion.choices[0]?.message?.content || "";
+    },
+  };
+}
+
+/**
+ * Canned answers of the fake provider, in the format each feature parses
+ */
+const FAKE_RESPONSES: Record<LlmFeature, string> = {
+  generation: JSON.stringify([
+    {
+      title: "Fake generated post",
+      content: "First line of a fake post.\n\nWritten offline by the fake AI provider.",
+      hashtags: ["#fake", "#offline"],
+    },
+  ]),
+  editing: JSON.stringify({ content: "Post edited by the fake AI provider." }),
+  outreach: JSON.stringify({
+    message: "Hello, this message was written by the fake AI provider.",
+    suggestedSubject: "Fake subject",
+  }),
+  ideas: JSON.stringify([
+    {
+      hook: "Fake post idea",
+      description: "Idea suggested by the fake AI provider.",
+      type: "text",
+      hashtags: ["#fake"],
+    },
+  ]),
+  themes: JSON.stringify(["Fake theme 1", "Fake theme 2", "Fake theme 3"]),
+};
+
+/**
+ * Deterministic provider for offline runs: the same request always gets the
+ * same answer. Without a responder, the answer is a canned JSON payload in
+ * the format of the feature.
+ */
+export function createFakeLlmProvider(
+  respond?: (params: LlmCompletionParams) => string
+): LlmProvider {
+  return {
+    name: "fake",
+    supportsJsonMode: false,
+    async complete(params) {
+      params.signal?.throwIfAborted();
+      if (respond) return respond(params);
+      return FAKE_RESPONSES[params.feature];
+    },
+  };
+}
+
+function isProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === "string" && llmProviderNames.includes(value as LlmProviderName);
+}
+
+/**
+ * Configuration from the environment: LLM_PROVIDER (groq by default),
+ * LLM_BASE_URL, LLM_MODEL and LLM_MODEL_<FEATURE> (e.g. LLM_MODEL_OUTREACH)
+ */
+export function getEnvLlmConfig(): LlmSettingsConfig {
+  const featureModels: Partial<Record<LlmFeature, string>> = {};
+  for (const feature of llmFeatures) {
+    const model = process.env[`LLM_MODEL_${feature.toUpperCase()}`]?.trim();
+    if (model) featureModels[feature] = model;
+  }
+
+  return {
+    provider: isProviderName(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : "groq",
+    baseUrl: process.env.LLM_BASE_URL?.trim() || null,
+    model: process.env.LLM_MODEL?.trim() || null,
+    featureModels,
+  };
+}
+
+let settingsCache: { config: LlmSettingsConfig; expiresAt: number } | null = null;
+
+/**
+ * Admin settings stored in the database (null fields are left to the environment)
+ */
+export async function getStoredLlmSettings(): Promise<Partial<LlmSettingsConfig>> {
+  const stored = await prisma.llmSettings.findFirst();
+  if (!stored) return {};
+
+  return {
+    ...(isProviderName(stored.provider) && { provider: stored.provider }),
+    ...(stored.baseUrl && { baseUrl: stored.baseUrl }),
+    ...(stored.model && { model: stored.model }),
+    featureModels: (stored.featureModels as Partial<Record<LlmFeature, string>> | null) || {},
+  };
+}
+
+/**
+ * Effective configuration: admin settings over the environment
+ */
+export async function getLlmConfig(): Promise<LlmSettingsConfig> {
+  if (settingsCache && settingsCache.expiresAt > Date.now()) {
+    return settingsCache.config;
+  }
+
+  const env = getEnvLlmConfig();
+  let stored: Partial<LlmSettingsConfig> = {};
+  try {
+    stored = await getStoredLlmSettings();
+  } catch (error) {
+    console.error("[LLM] Failed to load the admin settings, using the environment:", error);
+  }
+
+  const config: LlmSettingsConfig = {
+    provider: stored.provider || env.provider,
+    baseUrl: stored.baseUrl || env.baseUrl,
+    model: stored.model || env.model,
+    featureModels: { ...env.featureModels, ...stored.featureModels },
+  };
+  settingsCache = { config, expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS };
+  return config;
+}
+
+/**
+ * Save the admin settings. Empty values fall back to the environment.
+ */
+export async function updateLlmSettings(
+  settings: Partial<LlmSettingsConfig>,
+  updatedBy: string | null
+): Promise<void> {
+  const featureModels: Partial<Record<LlmFeature, string>> = {};
+  for (const feature of llmFeatures) {
+    const model = settings.featureModels?.[feature]?.trim();
+    if (model) featureModels[feature] = model;
+  }
+
+  const data = {
+    provider: isProviderName(settings.provider) ? settings.provider : null,
+    baseUrl: settings.baseUrl?.trim() || null,
+    model: settings.model?.trim() || null,
+    featureModels: featureModels as Prisma.InputJsonObject,
+    updatedBy,
+  };
+
+  const existing = await prisma.llmSettings.findFirst({ select: { id: true } });
+  if (existing) {
+    await prisma.llmSettings.update({ where: { id: existing.id }, data });
+  } else {
+    await prisma.llmSettings.create({ data });
+  }
+  settingsCache = null;
+}
+
+/**
+ * Model used by a feature: its own model, else the default model, else the
+ * provider's default
+ */
+export function resolveLlmModel(config: LlmSettingsConfig, feature: LlmFeature): string {
+  return (
+    config.featureModels[feature] ||
+    config.model ||
+    PROVIDER_DEFAULTS[config.provider].model
+  );
+}
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * Check a base URL set from the admin page: https, or http on this machine
+ * (local Ollama or llama.cpp servers). Returns an error message, or null.
+ */
+export function validateLlmBaseUrl(baseUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return "Base URL must be an http(s) URL";
+  }
+  if (url.protocol === "https:") return null;
+  if (url.protocol === "http:" && LOOPBACK_HOSTS.includes(url.hostname)) return null;
+  return "Base URL must use https (http is only accepted for localhost)";
+}
+
+/**
+ * Endpoint of a provider: Groq always uses its own, the others the configured
+ * base URL or their default
+ */
+function resolveBaseUrl(config: LlmSettingsConfig): string | null {
+  const defaults = PROVIDER_DEFAULTS[config.provider];
+  return config.provider === "groq" ? defaults.baseUrl : config.baseUrl || defaults.baseUrl;
+}
+
+function toOrigin(url: string | null): string | null {
+  try {
+    return url ? new URL(url).origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * API key sent to an endpoint. The key from the environment only goes to the
+ * endpoint configured next to it (LLM_BASE_URL for LLM_API_KEY, the provider's
+ * default otherwise): a base URL set from the admin page on another host gets
+ * no key, so a typo or a hostile URL never receives the server's secret.
+ */
+function getLlmApiKey(provider: LlmProviderName, baseUrl: string | null): string | undefined {
+  const { apiKeyEnv, baseUrl: defaultBaseUrl } = PROVIDER_DEFAULTS[provider];
+  const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+  if (!apiKey) return undefined;
+
+  const keyBaseUrl =
+    provider === "groq" ? defaultBaseUrl : getEnvLlmConfig().baseUrl || defaultBaseUrl;
+  const keyOrigin = toOrigin(keyBaseUrl);
+  return keyOrigin && toOrigin(baseUrl) === keyOrigin ? apiKey : undefined;
+}
+
+/**
+ * Whether the effective endpoint gets an API key (always true for providers without one)
+ */
+export function isLlmApiKeyConfigured(config: LlmSettingsConfig): boolean {
+  return (
+    !PROVIDER_DEFAULTS[config.provider].apiKeyEnv ||
+    Boolean(getLlmApiKey(config.provider, resolveBaseUrl(config)))
+  );
+}
+
+// Providers are reused between calls; `providerOverride` replaces them all
+const providers = new Map<string, LlmProvider>();
+let providerOverride: LlmProvider | null = null;
+
+/**
+ * Force a provider for every feature, e.g. a fake provider in tests.
+ * Pass null to go back to the configured one.
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  providerOverride = provider;
+}
+
+function getProvider(config: LlmSettingsConfig): LlmProvider {
+  if (providerOverride) return providerOverride;
+
+  const defaults = PROVIDER_DEFAULTS[config.provider];
+  const baseUrl = resolveBaseUrl(config);
+  const key = `${config.provider}:${baseUrl}`;
+
+  let provider = providers.get(key);
+  if (!provider) {
+    provider =
+      config.provider === "fake"
+        ? createFakeLlmProvider()
+        : createOpenAiCompatibleProvider(config.provider, {
+            baseUrl: baseUrl!,
+            apiKey: getLlmApiKey(config.provider, baseUrl),
+            supportsJsonMode: defaults.supportsJsonMode,
+          });
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+export interface LlmCompletionResult {
+  /** Text of the answer (empty when the model returned nothing) */
+  content: string;
+  provider: LlmProviderName;
+  model: string;
+}
+
+/**
+ * Run a chat completion with the provider and model configured for a feature
+ */
+export async function runChatCompletion(
+  feature: LlmFeature,
+  params: Omit<LlmCompletionParams, "feature" | "model">
+): Promise<LlmCompletionResult> {
+  const config = await getLlmConfig();
+  const provider = getProvider(config);
+  const model = resolveLlmModel(config, feature);
+  const content = await provider.complete({ ...params, feature, model });
+  return { content, provider: provider.name, model };
+}
@@ -0,0 +1,68 @@
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Anything able to deliver a message: the SMTP transport in production,
+ * or a stub collecting messages when exercising the digest locally
+ */
+export interface MailTransport {
+  sendMail(message: MailMessage & { from: string }): Promise<unknown>;
+}
+
+let smtpTransport: MailTransport | null = null;
+
+/**
+ * Whether SMTP_HOST is set. Without it no email is sent.
+ */
+export function isMailConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+/**
+ * Sender of outgoing emails (SMTP_FROM, or SMTP_USER when not set)
+ */
+export function getMailSender(): string {
+  return process.env.SMTP_FROM || process.env.SMTP_USER || "no-reply@localhost";
+}
+
+/**
+ * SMTP transport configured from the environment:
+ * SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for implicit TLS, port 465),
+ * SMTP_USER and SMTP_PASSWORD (optional, e.g. for a local sink such as
+ * Mailpit on localhost:1025).
+ */
+export function getMailTransport(): MailTransport {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is not defined");
+  }
+
+  if (!smtpTransport) {
+    const port = Number(process.env.SMTP_PORT) || 587;
+    smtpTransport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+  return smtpTransport;
+}
+
+/**
+ * Send an email from the configured sender
+ */
+export async function sendMail(
+  message: MailMessage,
+  transport: MailTransport = getMailTransport()
+): Promise<void> {
+  await transport.sendMail({ from: getMailSender(), ...message });
+}
@@ -0,0 +1,56 @@
+import { Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock } = vi.hoisted(() => ({
+  prismaMock: {
+    notification: { create: vi.fn(), deleteMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+
+import { notify } from "@/lib/notifications";
+
+function uniqueConstraintError() {
+  return new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+    code: "P2002",
+    clientVersion: Prisma.prismaVersion.client,
+  });
+}
+
+describe("notify", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    prismaMock.notification.create.mockResolvedValue({});
+    prismaMock.notification.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  it("stores the dedupe key of the notification", async () => {
+    await notify("user-1", "followups_due", { dedupeKey: "followups:2026-10-19" });
+
+    expect(prismaMock.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: "user-1", dedupeKey: "followups:2026-10-19" }),
+    });
+  });
+
+  it("gives notifications without dedupe key a key of their own", async () => {
+    await notify("user-1", "post_published");
+    await notify("user-1", "post_published");
+
+    const [first, second] = prismaMock.notification.create.mock.calls.map(
+      ([args]) => args.data.dedupeKey
+    );
+    expect(first).toMatch(/^post_published:/);
+    expect(first).not.toBe(second);
+  });
+
+  it("skips a notification whose key was already stored by another producer", async () => {
+    prismaMock.notification.create.mockRejectedValue(uniqueConstraintError());
+
+    await notify("user-1", "followups_due", { dedupeKey: "followups:2026-10-19" });
+
+    expect(console.error).not.toHaveBeenCalled();
+    expect(prismaMock.notification.deleteMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type {
+  AppNotification,
+  NotificationData,
+  NotificationType,
+} from "@/types/notification";
+
+/** Notifications returned to the header bell */
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+/** Read notifications are deleted after this delay */
+const READ_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface NotifyOptions {
+  data?: NotificationData;
+  link?: string | null;
+  /** Skip the notification if one with the same key already exists for the user */
+  dedupeKey?: string;
+}
+
+/**
+ * Record a notification for a user. Producers run in background jobs and API
+ * routes: a failure is logged and never interrupts them.
+ *
+ * Deduplication relies on the unique (userId, dedupeKey) index so that
+ * producers running in parallel cannot both create it. MongoDB indexes a
+ * missing key as null, hence the random key of the other notifications.
+ */
+export async function notify(
+  userId: string,
+  type: NotificationType,
+  options: NotifyOptions = {}
+): Promise<void> {
+  const { data = {}, link = null, dedupeKey } = options;
+
+  try {
+    try {
+      await prisma.notification.create({
+        data: {
+          userId,
+          type,
+          data: data as Prisma.InputJsonObject,
+          link,
+          dedupeKey: dedupeKey || `${type}:${randomUUID()}`,
+        },
+      });
+    } catch (error) {
+      if (
+        dedupeKey &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return;
+      }
+      throw error;
+    }
+
+    await prisma.notification.deleteMany({
+      where: {
+        userId,
+        readAt: { not: null, lt: new Date(Date.now() - READ_RETENTION_MS) },
+      },
+    });
+  } catch (error) {
+    console.error(`[Notifications] Failed to notify user ${userId} (${type}):`, error);
+  }
+}
+
+function toAppNotification(notification: {
+  id: string;
+  type: string;
+  data: Prisma.JsonValue;
+  link: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+}): AppNotification {
+  return {
+    id: notification.id,
+    type: notification.type as NotificationType,
+    data: (notification.data as NotificationData | null) || {},
+    link: notification.link,
+    readAt: notification.readAt?.toISOString() ?? null,
+    createdAt: notification.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Latest notifications of a user and the number of unread ones
+ */
+export async function getNotifications(userId: string) {
+  const [notifications, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: NOTIFICATIONS_PAGE_SIZE,
+    }),
+    prisma.notification.count({
+      where: { userId, OR: [{ readAt: null }, { readAt: { isSet: false } }] },
+    }),
+  ]);
+
+  return { notifications: notifications.map(toAppNotification), unreadCount };
+}
+
+/**
+ * Mark one notification (or all when no ID is given) as read.
+ * Returns the number of notifications updated.
+ */
+export async function markNotificationsRead(userId: string, id?: string): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: {
+      userId,
+      ...(id && { id }),
+      OR: [{ readAt: null }, { readAt: { isSet: false } }],
+    },
+    data: { readAt: new Date() },
+  });
+  return count;
+}
@@ -0,0 +1,38 @@
+import { PostAnalyticsProvider, PostMetrics } from "./types";
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i += 1) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Deterministic provider: every call for the same URN returns slightly higher
+ * counters, so repeated ingestion runs draw a realistic growing curve.
+ * Used with POST_ANALYTICS_PROVIDER=fake and in tests.
+ */
+export function createFakeAnalyticsProvider(): PostAnalyticsProvider {
+  const callsByUrn = new Map<string, number>();
+
+  return {
+    name: "fake",
+    async fetchPostMetrics(postUrn: string): Promise<PostMetrics> {
+      const calls = (callsByUrn.get(postUrn) || 0) + 1;
+      callsByUrn.set(postUrn, calls);
+
+      const seed = hashString(postUrn);
+      // Fast growth during the first runs, then a plateau
+      const growth = 1 - Math.exp(-calls / 4);
+      const impressions = Math.round((200 + (seed % 1800)) * growth);
+
+      return {
+        impressions,
+        reactions: Math.round(impressions * (0.01 + (seed % 5) / 100)),
+        comments: Math.round(impressions * (0.002 + (seed % 3) / 500)),
+        reshares: Math.round(impressions * ((seed % 4) / 1000)),
+      };
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock, refreshHashtagLibrary } = vi.hoisted(() => ({
+  prismaMock: {
+    post: { findMany: vi.fn() },
+    publishingTarget: { findMany: vi.fn() },
+    postAnalyticsSnapshot: { create: vi.fn() },
+  },
+  refreshHashtagLibrary: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+vi.mock("@/lib/hashtag-library", () => ({ refreshHashtagLibrary }));
+vi.mock("@/lib/linkedin-token", () => ({
+  getLinkedInCredentials: vi.fn(),
+  LinkedInReauthRequiredError: class extends Error {},
+  LinkedInTokenRefreshError: class extends Error {},
+}));
+vi.mock("./linkedin", () => ({ linkedInAnalyticsProvider: { name: "linkedin" } }));
+
+import { collectPostAnalytics, createFakeAnalyticsProvider, getPostAnalyticsProvider } from ".";
+
+const posts = [
+  { id: "post-1", userId: "user-1", linkedInUrn: "urn:li:share:1", targetId: null },
+  { id: "post-2", userId: "user-1", linkedInUrn: "urn:li:share:2", targetId: null },
+  { id: "post-3", userId: "user-2", linkedInUrn: "urn:li:ugcPost:3", targetId: null },
+];
+
+describe("collectPostAnalytics", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+    prismaMock.post.findMany.mockResolvedValue(posts);
+    prismaMock.publishingTarget.findMany.mockResolvedValue([]);
+    prismaMock.postAnalyticsSnapshot.create.mockResolvedValue({});
+  });
+
+  it("stores one snapshot per recently published post", async () => {
+    const result = await collectPostAnalytics(createFakeAnalyticsProvider());
+
+    expect(result).toEqual({
+      provider: "fake",
+      postsProcessed: 3,
+      snapshotsSaved: 3,
+      usersSkipped: 0,
+      postsSkipped: 0,
+    });
+    expect(prismaMock.postAnalyticsSnapshot.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: "user-1", postId: "post-1", impressions: expect.any(Number) }),
+    });
+    expect(refreshHashtagLibrary).toHaveBeenCalledTimes(2);
+  });
+
+  it("records growing counters on later runs", async () => {
+    const provider = createFakeAnalyticsProvider();
+    await collectPostAnalytics(provider);
+    await collectPostAnalytics(provider);
+
+    const impressions = prismaMock.postAnalyticsSnapshot.create.mock.calls
+      .filter(([{ data }]) => data.postId === "post-1")
+      .map(([{ data }]) => data.impressions);
+    expect(impressions).toHaveLength(2);
+    expect(impressions[1]).toBeGreaterThan(impressions[0]);
+  });
+
+  it("skips a post whose metrics cannot be fetched", async () => {
+    const fake = createFakeAnalyticsProvider();
+    const provider = {
+      name: "fake",
+      fetchPostMetrics: async (postUrn: string, accessToken: string) => {
+        if (postUrn === "urn:li:share:2") throw new Error("Rate limited");
+        return fake.fetchPostMetrics(postUrn, accessToken);
+      },
+    };
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const result = await collectPostAnalytics(provider);
+
+    expect(result.postsProcessed).toBe(3);
+    expect(result.snapshotsSaved).toBe(2);
+  });
+
+  it("skips posts published as a company page", async () => {
+    prismaMock.post.findMany.mockResolvedValue([
+      { id: "member", userId: "user-1", linkedInUrn: "urn:li:share:1", targetId: "target-person" },
+      { id: "company", userId: "user-1", linkedInUrn: "urn:li:share:2", targetId: "target-org" },
+      { id: "deleted", userId: "user-1", linkedInUrn: "urn:li:share:3", targetId: "target-gone" },
+    ]);
+    prismaMock.publishingTarget.findMany.mockResolvedValue([
+      { id: "target-person", type: "person" },
+      { id: "target-org", type: "organization" },
+    ]);
+    const fake = createFakeAnalyticsProvider();
+    const provider = { name: "fake", fetchPostMetrics: vi.fn(fake.fetchPostMetrics) };
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const result = await collectPostAnalytics(provider);
+
+    expect(provider.fetchPostMetrics).toHaveBeenCalledTimes(1);
+    expect(provider.fetchPostMetrics).toHaveBeenCalledWith("urn:li:share:1", "");
+    expect(result).toMatchObject({ postsProcessed: 1, snapshotsSaved: 1, postsSkipped: 2 });
+  });
+
+  it("does not call LinkedIn unless post analytics are opted in", async () => {
+    expect(getPostAnalyticsProvider()).toBeNull();
+
+    const result = await collectPostAnalytics(null);
+
+    expect(result.provider).toBe("none");
+    expect(prismaMock.post.findMany).not.toHaveBeenCalled();
+
+    vi.stubEnv("LINKEDIN_POST_ANALYTICS", "true");
+    expect(getPostAnalyticsProvider()?.name).toBe("linkedin");
+  });
+});
@@ -0,0 +1,156 @@
+import { prisma } from "@/lib/prisma";
+import {
+  getLinkedInCredentials,
+  LinkedInReauthRequiredError,
+  LinkedInTokenRefreshError,
+} from "@/lib/linkedin-token";
+import { refreshHashtagLibrary } from "@/lib/hashtag-library";
+import { PostAnalyticsProvider } from "./types";
+import { linkedInAnalyticsProvider } from "./linkedin";
+import { createFakeAnalyticsProvider } from "./fake";
+
+export type { PostMetrics, PostAnalyticsProvider } from "./types";
+export { createFakeAnalyticsProvider } from "./fake";
+
+/** Posts older than this are considered settled and no longer polled */
+const ANALYTICS_WINDOW_DAYS = 90;
+
+export interface AnalyticsRunResult {
+  provider: string;
+  postsProcessed: number;
+  snapshotsSaved: number;
+  usersSkipped: number;
+  /** Company page posts (out of reach of the member analytics API) and posts of deleted targets */
+  postsSkipped: number;
+}
+
+let fakeProvider: PostAnalyticsProvider | null = null;
+
+/**
+ * Provider selected with POST_ANALYTICS_PROVIDER ("linkedin" by default, "fake" for local dev).
+ * Null when LinkedIn analytics are not opted in with LINKEDIN_POST_ANALYTICS: tokens
+ * lack r_member_postAnalytics and every call would be refused.
+ */
+export function getPostAnalyticsProvider(): PostAnalyticsProvider | null {
+  if (process.env.POST_ANALYTICS_PROVIDER === "fake") {
+    fakeProvider = fakeProvider || createFakeAnalyticsProvider();
+    return fakeProvider;
+  }
+  return process.env.LINKEDIN_POST_ANALYTICS === "true" ? linkedInAnalyticsProvider : null;
+}
+
+/**
+ * Fetch metrics for every recently published post and store one snapshot per post.
+ *
+ * Used by the periodic Agenda job. Errors on a single post or user are logged
+ * and skipped so one revoked token does not stop the whole run. The hashtag
+ * library of each user with new snapshots is rebuilt afterwards.
+ *
+ * @param provider - Metrics source (defaults to the configured provider, none = no run)
+ */
+export async function collectPostAnalytics(
+  provider: PostAnalyticsProvider | null = getPostAnalyticsProvider()
+): Promise<AnalyticsRunResult> {
+  if (!provider) {
+    return { provider: "none", postsProcessed: 0, snapshotsSaved: 0, usersSkipped: 0, postsSkipped: 0 };
+  }
+
+  const since = new Date(Date.now() - ANALYTICS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const posts = await prisma.post.findMany({
+    where: {
+      status: "published",
+      linkedInUrn: { not: null },
+      publishedAt: { gte: since },
+    },
+    select: { id: true, userId: true, linkedInUrn: true, targetId: true },
+  });
+
+  // Posts published as a company page need the organization share statistics
+  // API and its admin scopes: only member posts are collected. A deleted
+  // target leaves the author unknown, those posts are left out too.
+  const targetIds = Array.from(
+    new Set(posts.map((post) => post.targetId).filter((id): id is string => Boolean(id)))
+  );
+  const targetTypes = new Map(
+    targetIds.length === 0
+      ? []
+      : (
+          await prisma.publishingTarget.findMany({
+            where: { id: { in: targetIds } },
+            select: { id: true, type: true },
+          })
+        ).map((target) => [target.id, target.type])
+  );
+
+  // Group posts by user to resolve each token once
+  const postsByUser = new Map<string, typeof posts>();
+  for (const post of posts) {
+    const existing = postsByUser.get(post.userId) || [];
+    existing.push(post);
+    postsByUser.set(post.userId, existing);
+  }
+
+  const result: AnalyticsRunResult = {
+    provider: provider.name,
+    postsProcessed: 0,
+    snapshotsSaved: 0,
+    usersSkipped: 0,
+    postsSkipped: 0,
+  };
+
+  for (const [userId, userPosts] of postsByUser) {
+    let accessToken = "";
+    if (provider.name !== "fake") {
+      try {
+        ({ accessToken } = await getLinkedInCredentials(userId));
+      } catch (error) {
+        if (error instanceof LinkedInTokenRefreshError) {
+          console.warn(`[Analytics] Skipping user ${userId}: LinkedIn token refresh unavailable`);
+          result.usersSkipped += 1;
+          continue;
+        }
+        if (!(error instanceof LinkedInReauthRequiredError)) throw error;
+        console.warn(`[Analytics] Skipping user ${userId}: LinkedIn re-authentication required`);
+        result.usersSkipped += 1;
+        continue;
+      }
+    }
+
+    const snapshotsBefore = result.snapshotsSaved;
+    for (const post of userPosts) {
+      const targetType = post.targetId ? targetTypes.get(post.targetId) : "person";
+      if (targetType !== "person") {
+        console.log(
+          targetType
+            ? `[Analytics] Skipping post ${post.id}: published as a company page, not covered by member post analytics`
+            : `[Analytics] Skipping post ${post.id}: its publishing target was deleted, author unknown`
+        );
+        result.postsSkipped += 1;
+        continue;
+      }
+
+      result.postsProcessed += 1;
+      try {
+        const metrics = await provider.fetchPostMetrics(post.linkedInUrn as string, accessToken);
+        await prisma.postAnalyticsSnapshot.create({
+          data: { userId, postId: post.id, ...metrics },
+        });
+        result.snapshotsSaved += 1;
+      } catch (error) {
+        console.error(`[Analytics] Failed to fetch metrics for post ${post.id}:`, error);
+      }
+    }
+
+    // New metrics change the engagement of the user's hashtags
+    if (result.snapshotsSaved > snapshotsBefore) {
+      try {
+        await refreshHashtagLibrary(userId);
+      } catch (error) {
+        console.error(`[Analytics] Failed to refresh the hashtag library of user ${userId}:`, error);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,55 @@
+import { linkedInClient } from "@/lib/linkedin";
+import { PostAnalyticsProvider, PostMetrics } from "./types";
+
+// Metric types of the Member Creator Post Analytics API (requires r_member_postAnalytics)
+const METRIC_QUERY_TYPES: Record<keyof PostMetrics, string> = {
+  impressions: "IMPRESSION",
+  reactions: "REACTION",
+  comments: "COMMENT",
+  reshares: "RESHARE",
+};
+
+interface AnalyticsResponse {
+  elements?: { count?: number }[];
+}
+
+/**
+ * Build the restli entity parameter, e.g. (share:urn%3Ali%3Ashare%3A123)
+ */
+function toAnalyticsEntity(postUrn: string): string {
+  const kind = postUrn.startsWith("urn:li:ugcPost:") ? "ugc" : "share";
+  return `(${kind}:${encodeURIComponent(postUrn)})`;
+}
+
+async function fetchMetric(
+  postUrn: string,
+  queryType: string,
+  accessToken: string
+): Promise<number> {
+  const response = await linkedInClient.get<AnalyticsResponse>(
+    `/memberCreatorPostAnalytics?q=entity&entity=${toAnalyticsEntity(postUrn)}&queryType=${queryType}&aggregation=TOTAL`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    }
+  );
+
+  return (response.data.elements || []).reduce(
+    (total, element) => total + (Number(element.count) || 0),
+    0
+  );
+}
+
+export const linkedInAnalyticsProvider: PostAnalyticsProvider = {
+  name: "linkedin",
+  async fetchPostMetrics(postUrn, accessToken) {
+    const entries = await Promise.all(
+      (Object.keys(METRIC_QUERY_TYPES) as (keyof PostMetrics)[]).map(
+        async (metric) =>
+          [metric, await fetchMetric(postUrn, METRIC_QUERY_TYPES[metric], accessToken)] as const
+      )
+    );
+    return Object.fromEntries(entries) as unknown as PostMetrics;
+  },
+};
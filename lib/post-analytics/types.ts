@@ -0,0 +1,18 @@
+/**
+ * Engagement counters of a LinkedIn post (cumulative, as reported by the provider)
+ */
+export interface PostMetrics {
+  impressions: number;
+  reactions: number;
+  comments: number;
+  reshares: number;
+}
+
+/**
+ * Source of post metrics. The LinkedIn implementation calls the REST API;
+ * the fake one returns deterministic numbers for local development and tests.
+ */
+export interface PostAnalyticsProvider {
+  name: string;
+  fetchPostMetrics(postUrn: string, accessToken: string): Promise<PostMetrics>;
+}
@@ -0,0 +1,127 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import type { PostSlide } from "@/types/post";
+
+// 4:5 portrait pages, the ratio LinkedIn displays document carousels in
+const PAGE_WIDTH = 1080;
+const PAGE_HEIGHT = 1350;
+const MARGIN = 110;
+const TITLE_SIZE = 64;
+const BODY_SIZE = 40;
+const COVER_TITLE_SIZE = 80;
+const LINE_GAP = 1.3;
+
+const ACCENT = rgb(0.388, 0.4, 0.945); // #6366f1
+const TEXT = rgb(0.114, 0.114, 0.114);
+const MUTED = rgb(0.42, 0.447, 0.502);
+const BACKGROUND = rgb(0.98, 0.98, 1);
+
+/**
+ * Standard PDF fonts only cover WinAnsi (Latin-1 plus typographic quotes):
+ * map common punctuation and drop what cannot be drawn (emojis, CJK...).
+ */
+function toDrawableText(text: string): string {
+  return text
+    .replace(/[‘’‚′]/g, "'")
+    .replace(/[“”„″]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[  ]/g, " ")
+    .replace(/[^\x20-\x7e¡-ÿ•€]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(" ")) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word;
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Draw wrapped text from the top position y and return the y below the last line
+ */
+function drawParagraph(
+  page: PDFPage,
+  text: string,
+  y: number,
+  options: { font: PDFFont; size: number; color: ReturnType<typeof rgb> }
+): number {
+  const lineHeight = options.size * LINE_GAP;
+  let cursor = y;
+  for (const line of wrapText(text, options.font, options.size, PAGE_WIDTH - MARGIN * 2)) {
+    cursor -= lineHeight;
+    if (cursor < MARGIN) break;
+    page.drawText(line, { x: MARGIN, y: cursor, ...options });
+  }
+  return cursor;
+}
+
+/**
+ * Render document post slides to a PDF: the first slide is the cover,
+ * the others get a page number and an accent bar.
+ */
+export async function renderSlidesToPdf(
+  title: string,
+  slides: PostSlide[]
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(toDrawableText(title));
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  slides.forEach((slide, index) => {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    page.drawRectangle({ x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT, color: BACKGROUND });
+    page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 24, width: PAGE_WIDTH, height: 24, color: ACCENT });
+
+    const isCover = index === 0;
+    let cursor = isCover ? PAGE_HEIGHT * 0.7 : PAGE_HEIGHT - MARGIN * 1.5;
+
+    if (!isCover) {
+      page.drawText(String(index), { x: MARGIN, y: cursor, size: 56, font: bold, color: ACCENT });
+      cursor -= 60;
+    }
+
+    const slideTitle = toDrawableText(slide.title);
+    if (slideTitle) {
+      cursor = drawParagraph(page, slideTitle, cursor, {
+        font: bold,
+        size: isCover ? COVER_TITLE_SIZE : TITLE_SIZE,
+        color: TEXT,
+      });
+      cursor -= 40;
+    }
+
+    const slideBody = toDrawableText(slide.body);
+    if (slideBody) {
+      drawParagraph(page, slideBody, cursor, {
+        font: regular,
+        size: BODY_SIZE,
+        color: slideTitle ? MUTED : TEXT,
+      });
+    }
+
+    page.drawText(`${index + 1} / ${slides.length}`, {
+      x: PAGE_WIDTH - MARGIN - 90,
+      y: MARGIN / 2,
+      size: 28,
+      font: regular,
+      color: MUTED,
+    });
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,743 @@
+import type { Post } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  buildPostGenerationPrompt,
+  generatedPostsSchema,
+  ParsedPost,
+  ProfileData,
+  GenerationOptions,
+} from "@/lib/groq";
+import { completeStructured, LlmOutputError, ResponseSchema } from "@/lib/llm-json";
+import { validatePoll } from "@/lib/post-poll";
+import { extractSearchKeywords, fetchUnsplashImage } from "@/lib/unsplash";
+import { recordGeneratedPostRevisions } from "@/lib/post-revisions";
+import { loadSimilarityCandidates, rankSimilarPosts } from "@/lib/post-similarity";
+import { LintFinding, LintRule, lintPost } from "@/lib/post-linter";
+import { normalizeHashtags } from "@/lib/hashtags";
+import type { GenerationProgress, SimilarPost } from "@/types/post";
+import type { VoiceProfile } from "@/types/profile";
+
+/**
+ * Options of a generation run, shared by the generate API and auto-refill
+ */
+export interface PostGenerationRequest {
+  count: number;
+  topic?: string;
+  topicSource?: "auto" | "common";
+  selectedTheme?: string;
+  selectedThemes?: string[];
+  toneOverride?: string;
+  style?: string;
+  includeImage?: boolean;
+  realisticImage?: boolean;
+  includeContactCta?: boolean;
+  /** Where the contact CTA goes: appended to the post or posted as first comment */
+  contactCtaPlacement?: "content" | "firstComment";
+}
+
+/**
+ * Generated post, before it is saved
+ */
+export type GeneratedPostDraft = ParsedPost & {
+  firstComment: string | null;
+  imageUrl: string | null;
+  /** Generator's text when the post was rewritten for specificity */
+  originalDraft: { title: string; content: string } | null;
+  /** Existing post it is too close to */
+  similarTo: SimilarPost | null;
+};
+
+export class PostGenerationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PostGenerationError";
+  }
+}
+
+/**
+ * Callbacks of a streamed generation run
+ */
+export interface PostGenerationHooks {
+  onProgress?: (progress: GenerationProgress) => void;
+  /** Called as soon as a post is finalized (rewrites and image done) */
+  onPost?: (post: GeneratedPostDraft, index: number) => void;
+  /** Stops the run between steps and aborts pending AI calls */
+  signal?: AbortSignal;
+}
+
+/**
+ * Message and HTTP status of a failed generation run
+ */
+export function describeGenerationError(error: unknown): { message: string; status: number } {
+  if (error instanceof PostGenerationError) {
+    return { message: error.message, status: error.status };
+  }
+
+  // Handle specific API errors
+  if (error instanceof Error) {
+    if (error.message.includes("API key")) {
+      return { message: "AI service configuration error", status: 503 };
+    }
+    if (error.message.includes("rate limit")) {
+      return { message: "Rate limit exceeded. Please try again later.", status: 429 };
+    }
+  }
+
+  return { message: "Failed to generate posts", status: 500 };
+}
+
+interface ContactData {
+  phone?: string | null;
+  githubUrl?: string | null;
+  portfolioUrl?: string | null;
+  linkedInProfileUrl?: string | null;
+}
+
+interface ThemeBrief {
+  trends: string[];
+  tools: string[];
+  angles: string[];
+}
+
+type GenerationOptionsWithThemeBrief = GenerationOptions & {
+  commonThemeBrief?: ThemeBrief;
+};
+
+/** Linter rules a generated post must pass, otherwise it is rewritten */
+const SPECIFICITY_RULES: LintRule[] = [
+  "line_count",
+  "targeted_question",
+  "theme_keyword",
+  "concrete_reference",
+  "incoherent_stack",
+];
+
+function getSpecificityFindings(params: {
+  content: string;
+  selectedTheme?: string;
+  themeBrief?: ThemeBrief;
+}): LintFinding[] {
+  return lintPost(params.content, {
+    selectedTheme: params.selectedTheme,
+    themeBrief: params.themeBrief,
+  }).filter((finding) => SPECIFICITY_RULES.includes(finding.rule));
+}
+
+async function rewritePostForSpecificity(params: {
+  post: { title: string; content: string; hashtags: string[] };
+  selectedTheme: string;
+  language: "fr" | "en";
+  themeBrief?: ThemeBrief;
+  signal?: AbortSignal;
+}): Promise<{ title: string; content: string; hashtags: string[] }> {
+  const brief = params.themeBrief
+    ? `Trends: ${params.themeBrief.trends.join(", ")}
+Tools: ${params.themeBrief.tools.join(", ")}
+Angles: ${params.themeBrief.angles.join(", ")}`
+    : "No additional brief";
+
+  const prompt =
+    params.language === "fr"
+      ? `Réécris ce post LinkedIn pour qu'il soit plus concret et plus expert sur "${params.selectedTheme}".
+Post actuel:
+Titre: ${params.post.title}
+Contenu: ${params.post.content}
+Hashtags: ${params.post.hashtags.join(", ")}
+
+Contexte:
+${brief}
+
+Règles strictes:
+- 8 à 15 lignes
+- inclure au moins 2 références concrètes (outils, frameworks, updates)
+- inclure une recommandation actionnable claire
+- finir avec une question ciblée (pas générique)
+- structure claire: Contexte -> Action -> Résultat
+- si un chiffre/% est mentionné, ajouter baseline/scope/période; sinon ne pas inventer de chiffre
+- garder la cohérence technique (pas de mélange incohérent d'outils dans une même affirmation)
+- première ligne = hook fort (max 12 mots)
+- paragraphes très courts (1-2 lignes), avec sauts de ligne lisibles
+- inclure une mini liste de 2 à 4 puces ("- ")
+- privilégier les nouveautés récentes (features, hooks, updates, articles)
+- éviter les versions obsolètes si des versions plus récentes existent
+- si la version exacte est incertaine, ne pas inventer de numéro de version
+- ne jamais inventer de nom de hook/API
+- ton pro, moderne, accessible
+- retourner uniquement un JSON objet:
+{"title":"...","content":"...","hashtags":["#...","#...","#...","#...","#..."]}`
+      : `Rewrite this LinkedIn post to be more specific and expert-level on "${params.selectedTheme}".
+Current post:
+Title: ${params.post.title}
+Content: ${params.post.content}
+Hashtags: ${params.post.hashtags.join(", ")}
+
+Context:
+${brief}
+
+Strict rules:
+- 8 to 15 lines
+- include at least 2 concrete references (tools, frameworks, updates)
+- include one clear actionable recommendation
+- end with a targeted question (not generic)
+- clear structure: Context -> Action -> Result
+- if a number/% is used, include baseline/scope/timeframe; otherwise avoid invented numbers
+- keep technical coherence (no incoherent tool mixing in one implementation claim)
+- first line = strong hook (max 12 words)
+- very short paragraphs (1-2 lines), with clear line breaks
+- include one mini-list of 2 to 4 bullet points ("- ")
+- prefer recent updates/features/articles in the ecosystem
+- avoid outdated version references when newer releases exist
+- if exact version is uncertain, avoid explicit version numbers
+- never invent hook/API names
+- professional, modern, accessible tone
+- return only one JSON object:
+{"title":"...","content":"...","hashtags":["#...","#...","#...","#...","#..."]}`;
+
+  try {
+    const rewritten = await completeStructured("generation", rewrittenPostSchema, {
+      messages: [
+        { role: "system", content: "Return valid JSON only." },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0.4,
+      maxTokens: 1200,
+      signal: params.signal,
+    });
+    return {
+      title: rewritten.title || params.post.title,
+      content: rewritten.content,
+      hashtags: rewritten.hashtags.length > 0 ? rewritten.hashtags : params.post.hashtags,
+    };
+  } catch (error) {
+    // Keep the generated post when the rewrite cannot be used
+    if (error instanceof LlmOutputError) return params.post;
+    throw error;
+  }
+}
+
+function hasAnyContact(contact: ContactData): boolean {
+  return Boolean(
+    contact.phone?.trim() ||
+      contact.githubUrl?.trim() ||
+      contact.portfolioUrl?.trim() ||
+      contact.linkedInProfileUrl?.trim()
+  );
+}
+
+function buildContactCta(contact: ContactData, language: "fr" | "en"): string {
+  const parts: string[] = [];
+
+  if (contact.phone?.trim()) {
+    parts.push(
+      language === "fr"
+        ? `WhatsApp: ${contact.phone.trim()}`
+        : `WhatsApp: ${contact.phone.trim()}`
+    );
+  }
+  if (contact.portfolioUrl?.trim()) {
+    parts.push(
+      language === "fr"
+        ? `portfolio: ${contact.portfolioUrl.trim()}`
+        : `portfolio: ${contact.portfolioUrl.trim()}`
+    );
+  }
+  if (contact.githubUrl?.trim()) {
+    parts.push(`GitHub: ${contact.githubUrl.trim()}`);
+  }
+  if (contact.linkedInProfileUrl?.trim()) {
+    parts.push(`LinkedIn: ${contact.linkedInProfileUrl.trim()}`);
+  }
+
+  if (parts.length === 0) return "";
+
+  const intro =
+    language === "fr"
+      ? "📩 Si vous souhaitez collaborer avec moi, contactez-moi:"
+      : "📩 If you would like to collaborate with me, contact me:";
+  return `${intro} ${parts.join(" | ")}`;
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+const themeBriefSchema: ResponseSchema<ThemeBrief> = {
+  name: "generate.theme_brief",
+  root: "object",
+  shape: '{"trends":["..."],"tools":["..."],"angles":["..."]}',
+  validate(value) {
+    if (typeof value !== "object" || value === null) return { error: "expected an object" };
+    const parsed = value as Record<string, unknown>;
+    const brief = {
+      trends: toStringList(parsed.trends),
+      tools: toStringList(parsed.tools),
+      angles: toStringList(parsed.angles),
+    };
+    if (brief.trends.length === 0 && brief.tools.length === 0 && brief.angles.length === 0) {
+      return { error: "trends, tools and angles are all empty" };
+    }
+    return { value: brief };
+  },
+};
+
+const rewrittenPostSchema: ResponseSchema<{ title?: string; content: string; hashtags: string[] }> = {
+  name: "generate.rewrite",
+  root: "object",
+  shape: '{"title":"...","content":"...","hashtags":["#...","#...","#...","#...","#..."]}',
+  validate(value) {
+    if (typeof value !== "object" || value === null) return { error: "expected an object" };
+    const parsed = value as Record<string, unknown>;
+    if (typeof parsed.content !== "string" || !parsed.content.trim()) {
+      return { error: "\"content\" must be a non-empty string" };
+    }
+    return {
+      value: {
+        title: typeof parsed.title === "string" && parsed.title.trim() ? parsed.title : undefined,
+        content: parsed.content,
+        hashtags: toStringList(parsed.hashtags),
+      },
+    };
+  },
+};
+
+async function buildThemeBrief(params: {
+  selectedTheme: string;
+  industry: string;
+  specialties: string[];
+  language: "fr" | "en";
+  signal?: AbortSignal;
+}): Promise<ThemeBrief | null> {
+  const specialtiesText = params.specialties.length
+    ? params.specialties.join(", ")
+    : "none specified";
+  const prompt =
+    params.language === "fr"
+      ? `Crée un brief ultra concret pour un post LinkedIn sur la thématique "${params.selectedTheme}" dans le secteur "${params.industry}".
+Spécialités du profil: ${specialtiesText}.
+Retourne STRICTEMENT un objet JSON:
+{
+  "trends": ["...","...","..."],
+  "tools": ["...","...","..."],
+  "angles": ["...","...","..."]
+}
+Règles:
+- trends: 3 tendances / nouveautés récentes et réalistes
+- tools: 3 technologies/frameworks/outils concrets liés au thème
+- angles: 3 angles de contenu utiles (comparaison, perf, sécurité, bonnes pratiques, retour d'expérience...)
+- français, court, précis, sans blabla, sans markdown`
+      : `Create a very concrete brief for a LinkedIn post on "${params.selectedTheme}" in the "${params.industry}" industry.
+Profile specialties: ${specialtiesText}.
+Return STRICTLY a JSON object:
+{
+  "trends": ["...","...","..."],
+  "tools": ["...","...","..."],
+  "angles": ["...","...","..."]
+}
+Rules:
+- trends: 3 realistic recent trends/updates
+- tools: 3 concrete technologies/frameworks/tools related to the theme
+- angles: 3 practical content angles (comparison, performance, security, best practices, field feedback...)
+- concise, no markdown`;
+
+  try {
+    return await completeStructured("generation", themeBriefSchema, {
+      messages: [
+        { role: "system", content: "Return valid JSON only." },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0.3,
+      maxTokens: 500,
+      signal: params.signal,
+    });
+  } catch (error) {
+    // The brief is optional
+    if (error instanceof LlmOutputError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Themes selected for a generation run (the topic when there are none)
+ */
+function getEffectiveThemes(request: PostGenerationRequest): string[] {
+  const { selectedTheme, selectedThemes } = request;
+  const normalizedSelectedThemes = Array.isArray(selectedThemes)
+    ? selectedThemes
+        .filter((item): item is string => typeof item === "string")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : [];
+  return normalizedSelectedThemes.length > 0
+    ? normalizedSelectedThemes
+    : selectedTheme?.trim()
+      ? [selectedTheme.trim()]
+      : [];
+}
+
+/**
+ * Generate posts for a user: prompt built from the profile, quality rewrites
+ * of weak posts, contact CTA and Unsplash images. Nothing is saved.
+ * Throws PostGenerationError when the profile cannot be used.
+ *
+ * @param hooks - Progress callbacks and abort signal of a streamed run
+ */
+export async function generatePostDrafts(
+  userId: string,
+  request: PostGenerationRequest,
+  { onProgress, onPost, signal }: PostGenerationHooks = {}
+): Promise<GeneratedPostDraft[]> {
+  const {
+    count,
+    topic,
+    topicSource,
+    toneOverride,
+    style,
+    includeImage = false,
+    realisticImage = true,
+    includeContactCta = false,
+    contactCtaPlacement = "content",
+  } = request;
+
+  onProgress?.({ stage: "preparing", completed: 0, total: count });
+
+  // Get user profile from database
+  const user = (await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      jobTitle: true,
+      company: true,
+      industry: true,
+      specialties: true,
+      yearsOfExperience: true,
+      targetAudience: true,
+      targetIndustries: true,
+      contentGoals: true,
+      preferredTone: true,
+      preferredLanguage: true,
+      contentTopics: true,
+      uniqueValue: true,
+      expertise: true,
+      personalBrand: true,
+      phone: true,
+      githubUrl: true,
+      portfolioUrl: true,
+      linkedInProfileUrl: true,
+      voiceProfile: true,
+    } as unknown as never,
+  })) as
+    | (Record<string, unknown> & {
+        jobTitle?: string | null;
+        company?: string | null;
+        industry?: string | null;
+        specialties?: string[];
+        yearsOfExperience?: string | null;
+        targetAudience?: string | null;
+        targetIndustries?: string[];
+        contentGoals?: string[];
+        preferredTone?: string | null;
+        preferredLanguage?: string | null;
+        contentTopics?: string[];
+        uniqueValue?: string | null;
+        expertise?: string[];
+        personalBrand?: string | null;
+        phone?: string | null;
+        githubUrl?: string | null;
+        portfolioUrl?: string | null;
+        linkedInProfileUrl?: string | null;
+        voiceProfile?: VoiceProfile | null;
+      })
+    | null;
+
+  if (!user) {
+    throw new PostGenerationError("User profile not found", 404);
+  }
+
+  // Check if profile is complete enough
+  if (!user.jobTitle || !user.industry || !user.contentGoals?.length) {
+    throw new PostGenerationError(
+      "Please complete your profile settings before generating posts",
+      400
+    );
+  }
+
+  // Get existing post titles to avoid duplicate topics
+  const existingPosts = await prisma.post.findMany({
+    where: { userId },
+    select: { title: true },
+    orderBy: { createdAt: "desc" },
+    take: 50, // Limit to last 50 posts to keep prompt size manageable
+  });
+  const existingTitles = existingPosts.map((post) => post.title);
+
+  // Build prompt
+  const effectiveSelectedThemes = getEffectiveThemes(request);
+  const selectedThemeText = effectiveSelectedThemes.join(", ");
+
+  const userSpecialties = Array.isArray(user.specialties)
+    ? user.specialties
+    : [];
+
+  const profile: ProfileData = {
+    jobTitle: user.jobTitle || undefined,
+    company: user.company || undefined,
+    industry: user.industry || undefined,
+    specialties: userSpecialties,
+    yearsOfExperience: user.yearsOfExperience || undefined,
+    targetAudience: user.targetAudience || undefined,
+    targetIndustries: user.targetIndustries || undefined,
+    contentGoals: user.contentGoals || undefined,
+    preferredTone: user.preferredTone || undefined,
+    preferredLanguage: user.preferredLanguage || undefined,
+    contentTopics: user.contentTopics || undefined,
+    uniqueValue: user.uniqueValue || undefined,
+    expertise: user.expertise || undefined,
+    personalBrand: user.personalBrand || undefined,
+    phone: user.phone || undefined,
+    githubUrl: user.githubUrl || undefined,
+    portfolioUrl: user.portfolioUrl || undefined,
+    linkedInProfileUrl: user.linkedInProfileUrl || undefined,
+    voiceProfile: user.voiceProfile || undefined,
+  };
+
+  // Build generation options from request
+  const generationOptions: GenerationOptionsWithThemeBrief = {};
+  if (topic) generationOptions.topic = topic;
+  if (topicSource) generationOptions.topicSource = topicSource;
+  if (effectiveSelectedThemes.length > 0) {
+    generationOptions.selectedTheme = effectiveSelectedThemes[0];
+    generationOptions.selectedThemes = effectiveSelectedThemes;
+  }
+  if (topicSource === "common" && selectedThemeText) {
+    const language = user.preferredLanguage === "en" ? "en" : "fr";
+    const themeBrief = await buildThemeBrief({
+      selectedTheme: selectedThemeText,
+      industry: user.industry || "Technology / IT",
+      specialties: userSpecialties,
+      language,
+      signal,
+    });
+    if (themeBrief) {
+      generationOptions.commonThemeBrief = themeBrief;
+    }
+  }
+  if (toneOverride) generationOptions.toneOverride = toneOverride;
+  if (style) generationOptions.style = style;
+  generationOptions.includeContactCta = includeContactCta;
+
+  const prompt = buildPostGenerationPrompt(profile, count, existingTitles, generationOptions);
+
+  signal?.throwIfAborted();
+  onProgress?.({ stage: "writing", completed: 0, total: count });
+
+  // Call the AI provider
+  let generatedPosts: ParsedPost[];
+  try {
+    generatedPosts = await completeStructured("generation", generatedPostsSchema, {
+      messages: [
+        {
+          role: "system",
+          content: "You are an expert LinkedIn content creator. Always respond with valid JSON.",
+        },
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      temperature: 0.8,
+      maxTokens: 4000,
+      signal,
+    });
+  } catch (error) {
+    if (!(error instanceof LlmOutputError)) throw error;
+    if (!error.raw.trim()) {
+      throw new PostGenerationError("No response from AI", 500);
+    }
+    // Not JSON even after the repair: keep the text as a single post
+    generatedPosts = [{ title: "Generated Post", content: error.raw.trim(), hashtags: [] }];
+  }
+
+  const contactData: ContactData = {
+    phone: user.phone,
+    githubUrl: user.githubUrl,
+    portfolioUrl: user.portfolioUrl,
+    linkedInProfileUrl: user.linkedInProfileUrl,
+  };
+
+  const shouldAppendContactCta = includeContactCta && hasAnyContact(contactData);
+
+  const language = user.preferredLanguage === "en" ? "en" : "fr";
+
+  const contactCta = shouldAppendContactCta
+    ? buildContactCta(contactData, language)
+    : "";
+  const ctaInFirstComment = contactCtaPlacement === "firstComment";
+
+  const postsWithContact = generatedPosts.map((post) => ({
+    ...post,
+    content:
+      contactCta && !ctaInFirstComment
+        ? `${post.content}\n\n${contactCta}`
+        : post.content,
+    firstComment: contactCta && ctaInFirstComment ? contactCta : null,
+    originalDraft: null as { title: string; content: string } | null,
+  }));
+
+  // Quality themes: common-theme mode first, then any theme or topic
+  const qualityThemes = [
+    ...(topicSource === "common" && selectedThemeText ? [selectedThemeText] : []),
+    ...(selectedThemeText || topic
+      ? [selectedThemeText || String(topic || "").trim() || "technical topic"]
+      : []),
+  ];
+
+  // Build fallback query chain from user profile context
+  const industryKeyword = user.industry || "";
+  const topicKeyword = topic || "";
+  const themeKeyword = selectedThemeText;
+  const themeTools = generationOptions.commonThemeBrief?.tools || [];
+  const strictImageMatching = topicSource === "common" && Boolean(themeKeyword);
+
+  console.log("[Generate] includeImage:", includeImage, "| posts count:", generatedPosts.length);
+
+  // Topic avoidance in the prompt is not enough: flag posts close to existing ones
+  const similarityCandidates = await loadSimilarityCandidates(userId);
+
+  let finalizedCount = 0;
+  onProgress?.({ stage: "finalizing", completed: 0, total: postsWithContact.length });
+
+  // Each post is finalized on its own so that streamed runs can show it right away
+  const finalizePost = async (
+    draft: (typeof postsWithContact)[number],
+    index: number
+  ): Promise<GeneratedPostDraft> => {
+    let post = draft;
+
+    // Quality enforcement: rewrite weak posts
+    for (const qualityTheme of qualityThemes) {
+      const findings = getSpecificityFindings({
+        content: post.content,
+        selectedTheme: qualityTheme,
+        themeBrief: generationOptions.commonThemeBrief,
+      });
+      if (findings.length === 0) continue;
+      console.log(
+        `[Generate] Post ${index + 1} rewritten: ${findings.map((finding) => finding.rule).join(", ")}`
+      );
+      signal?.throwIfAborted();
+      // Keep fields the rewrite does not know about (poll) and the first text
+      post = {
+        ...post,
+        originalDraft: post.originalDraft || { title: post.title, content: post.content },
+        ...(await rewritePostForSpecificity({
+          post,
+          selectedTheme: qualityTheme,
+          language,
+          themeBrief: generationOptions.commonThemeBrief,
+          signal,
+        })),
+      };
+    }
+
+    // Fetch an Unsplash image if requested (smart keyword extraction)
+    let imageUrl: string | null = null;
+    if (includeImage) {
+      signal?.throwIfAborted();
+      // Build a cascade of queries from most specific to most generic:
+      // 1. Keywords extracted from the post title
+      // 2. The user-provided topic (if any)
+      // 3. The user's industry
+      // 4. A generic fallback
+      const titleKeywords = extractSearchKeywords(post.title || "");
+      const realismSuffix = realisticImage ? " realistic photo" : "";
+      const queries = [
+        `${themeKeyword}${realismSuffix}`.trim(),
+        ...themeTools.slice(0, 2).map((tool) => `${tool}${realismSuffix}`.trim()),
+        themeKeyword
+          ? `software developer ${themeKeyword} coding ${realismSuffix}`.trim()
+          : "",
+        `${titleKeywords}${realismSuffix}`.trim(),
+        `${topicKeyword}${realismSuffix}`.trim(),
+        `${industryKeyword}${realismSuffix}`.trim(),
+        ...(strictImageMatching
+          ? []
+          : [
+              realisticImage
+                ? "professional business workplace realistic photo"
+                : "professional business technology",
+            ]),
+      ].filter(Boolean);
+
+      imageUrl = await fetchUnsplashImage(
+        queries,
+        index,
+        [themeKeyword, ...themeTools, titleKeywords, topicKeyword, industryKeyword],
+        strictImageMatching
+      );
+      console.log(`[Generate] Unsplash image ${index + 1}:`, imageUrl ? "OK" : "null");
+    }
+
+    const [similarTo = null] = rankSimilarPosts(post.content, similarityCandidates, { limit: 1 });
+
+    signal?.throwIfAborted();
+    const finalized = { ...post, imageUrl, similarTo };
+    finalizedCount++;
+    onPost?.(finalized, index);
+    onProgress?.({
+      stage: "finalizing",
+      completed: finalizedCount,
+      total: postsWithContact.length,
+    });
+    return finalized;
+  };
+
+  return Promise.all(postsWithContact.map(finalizePost));
+}
+
+/**
+ * Save generated posts, hashtags in their own field. Polls that do not meet
+ * LinkedIn's limits are dropped and the post is kept as a text post.
+ */
+export async function saveGeneratedPosts(
+  userId: string,
+  posts: GeneratedPostDraft[],
+  request: PostGenerationRequest,
+  { status = "ready", queue = null }: { status?: string; queue?: string | null } = {}
+): Promise<Post[]> {
+  const effectiveSelectedThemes = getEffectiveThemes(request);
+  const generationThemes =
+    effectiveSelectedThemes.length > 0
+      ? effectiveSelectedThemes
+      : request.topic?.trim()
+        ? [request.topic.trim()]
+        : [];
+
+  return Promise.all(
+    posts.map(async (post) => {
+      const saved = await prisma.post.create({
+        data: {
+          title: post.title,
+          content: post.content,
+          hashtags: normalizeHashtags(post.hashtags),
+          status,
+          ...(post.poll && !validatePoll(post.poll) && {
+            format: "poll",
+            poll: post.poll,
+          }),
+          ...(post.firstComment && { firstComment: post.firstComment }),
+          ...(queue && { queue }),
+          generationStyle: request.style || "auto",
+          generationThemes,
+          userId,
+        },
+      });
+      await recordGeneratedPostRevisions(
+        saved,
+        post.originalDraft ? "generation_rewrite" : "generation",
+        post.originalDraft
+      );
+      return saved;
+    })
+  );
+}
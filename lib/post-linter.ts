@@ -0,0 +1,177 @@
+/**
+ * Quality rules of a LinkedIn post, shared by the generation quality gate and
+ * the posts editor. No server dependency: runs in the browser as the user types.
+ */
+
+import { composePostText } from "@/lib/hashtags";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintRule =
+  | "length"
+  | "hook_length"
+  | "line_count"
+  | "hashtag_count"
+  | "link_in_body"
+  | "unverifiable_stat"
+  | "generic_phrase"
+  | "targeted_question"
+  | "theme_keyword"
+  | "concrete_reference"
+  | "incoherent_stack";
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  /** Values of the message ("posts.lint.rules.<rule>"), e.g. the offending phrase */
+  params: Record<string, string | number>;
+}
+
+/**
+ * Generation settings some rules check the post against
+ */
+export interface LintContext {
+  /** Hashtags of the post, checked as appended at publish time */
+  hashtags?: string[];
+  selectedTheme?: string;
+  themeBrief?: { trends: string[]; tools: string[] };
+}
+
+export const LINKEDIN_MAX_LENGTH = 3000;
+export const LINT_LIMITS = {
+  hookWords: 12,
+  minLines: 8,
+  maxLines: 16,
+  maxHashtags: 5,
+};
+
+/** Generic phrases that make a post read as filler (lowercase) */
+const GENERIC_PHRASES = [
+  "in today's fast-paced world",
+  "in today's digital age",
+  "game changer",
+  "game-changer",
+  "let's dive in",
+  "unlock the power",
+  "it's no secret that",
+  "in conclusion",
+  "what do you think?",
+  "thoughts?",
+  "dans un monde en constante évolution",
+  "à l'ère du numérique",
+  "plus que jamais",
+  "sans plus attendre",
+  "en conclusion",
+  "qu'en pensez-vous",
+  "qu en pensez-vous",
+  "qu’en pensez-vous",
+];
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+\.\S+/i;
+const HASHTAG_PATTERN = /(?:^|\s)#[\p{L}\p{N}_]+/gu;
+/** Percentages and multipliers ("40%", "3x", "x10") */
+const STAT_PATTERN = /\d+(?:[.,]\d+)?\s?%|\b\d+(?:[.,]\d+)?\s?x\b|\bx\s?\d+\b/i;
+/** Words giving a figure its baseline, scope, period or source */
+const STAT_CONTEXT_PATTERN =
+  /\b(?:according to|source|study|survey|report|benchmark|from \S+ to|between|over the (?:last|past)|since|per|in (?:19|20)\d{2}|selon|étude|rapport|sondage|de \S+ à|entre|depuis|sur les \d+|en (?:19|20)\d{2}|par (?:mois|an|jour|semaine))\b/i;
+
+function nonEmptyLines(content: string): string[] {
+  return content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function includesAnyKeyword(content: string, keywords: string[]): boolean {
+  const text = content.toLowerCase();
+  return keywords.some((keyword) => text.includes(keyword.toLowerCase()));
+}
+
+function clip(text: string, maxLength = 80): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3).trimEnd()}...` : text;
+}
+
+/**
+ * Findings of every rule on a post, errors first. The hashtags of the context
+ * are checked as appended to the content, like the text sent to LinkedIn.
+ */
+export function lintPost(content: string, context: LintContext = {}): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const add = (rule: LintRule, severity: LintSeverity, params: LintFinding["params"] = {}) =>
+    findings.push({ rule, severity, params });
+
+  if (!content.trim()) return findings;
+  const text = composePostText(content, context.hashtags).trim();
+  const lower = text.toLowerCase();
+  const lines = nonEmptyLines(text);
+
+  if (text.length > LINKEDIN_MAX_LENGTH) {
+    add("length", "error", { length: text.length, max: LINKEDIN_MAX_LENGTH });
+  }
+
+  const hookWords = countWords(lines[0] || "");
+  if (hookWords > LINT_LIMITS.hookWords) {
+    add("hook_length", "warning", { words: hookWords, max: LINT_LIMITS.hookWords });
+  }
+
+  if (lines.length < LINT_LIMITS.minLines || lines.length > LINT_LIMITS.maxLines) {
+    add("line_count", "warning", {
+      lines: lines.length,
+      min: LINT_LIMITS.minLines,
+      max: LINT_LIMITS.maxLines,
+    });
+  }
+
+  const hashtags = text.match(HASHTAG_PATTERN)?.length ?? 0;
+  if (hashtags > LINT_LIMITS.maxHashtags) {
+    add("hashtag_count", "warning", { count: hashtags, max: LINT_LIMITS.maxHashtags });
+  }
+
+  if (URL_PATTERN.test(text)) {
+    add("link_in_body", "warning");
+  }
+
+  // One finding per sentence with a figure and nothing to back it
+  for (const sentence of text.split(/[.!?]+\s+|\n+/)) {
+    if (STAT_PATTERN.test(sentence) && !STAT_CONTEXT_PATTERN.test(sentence)) {
+      add("unverifiable_stat", "warning", { sentence: clip(sentence.trim()) });
+    }
+  }
+
+  for (const phrase of GENERIC_PHRASES) {
+    if (lower.includes(phrase)) {
+      add("generic_phrase", "warning", { phrase });
+    }
+  }
+
+  if (!text.includes("?") || /qu[' ]en pensez-vous/i.test(text)) {
+    add("targeted_question", "info");
+  }
+
+  if (context.selectedTheme && !includesAnyKeyword(text, [context.selectedTheme])) {
+    add("theme_keyword", "warning", { theme: context.selectedTheme });
+  }
+
+  if (
+    context.themeBrief &&
+    !includesAnyKeyword(text, [...context.themeBrief.tools, ...context.themeBrief.trends])
+  ) {
+    add("concrete_reference", "warning");
+  }
+
+  if (lower.includes("create react app") && (lower.includes("next.js") || lower.includes("nextjs"))) {
+    add("incoherent_stack", "warning", { tools: "Create React App, Next.js" });
+  }
+
+  return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+export function hasLintErrors(findings: LintFinding[]): boolean {
+  return findings.some((finding) => finding.severity === "error");
+}
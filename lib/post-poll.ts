@@ -0,0 +1,86 @@
+import type { PostPoll, PollDuration } from "@/types/post";
+
+// LinkedIn Polls API limits
+export const POLL_QUESTION_MAX_LENGTH = 140;
+export const POLL_OPTION_MAX_LENGTH = 30;
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 4;
+export const POLL_DURATIONS: PollDuration[] = [
+  "ONE_DAY",
+  "THREE_DAYS",
+  "SEVEN_DAYS",
+  "FOURTEEN_DAYS",
+];
+export const DEFAULT_POLL_DURATION: PollDuration = "SEVEN_DAYS";
+
+function isPollDuration(value: unknown): value is PollDuration {
+  return POLL_DURATIONS.includes(value as PollDuration);
+}
+
+/**
+ * Shorten generated text to a limit, cutting on a word boundary when possible
+ */
+function shorten(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trim();
+}
+
+/**
+ * Read poll data from a request body or an AI response: trims the texts,
+ * drops empty and duplicate options and falls back to the default duration.
+ * Returns null when there is no question. Lengths are left as-is so that
+ * validatePoll can report them, unless `fitLimits` is set (generated polls).
+ */
+export function normalizePoll(
+  input: unknown,
+  { fitLimits = false }: { fitLimits?: boolean } = {}
+): PostPoll | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as { question?: unknown; options?: unknown; duration?: unknown };
+
+  let question = typeof raw.question === "string" ? raw.question.trim() : "";
+  if (!question) return null;
+
+  let options = Array.isArray(raw.options)
+    ? raw.options
+        .map((option) => (typeof option === "string" ? option.trim() : ""))
+        .filter(Boolean)
+    : [];
+
+  if (fitLimits) {
+    question = shorten(question, POLL_QUESTION_MAX_LENGTH);
+    options = options
+      .map((option) => shorten(option, POLL_OPTION_MAX_LENGTH))
+      .slice(0, POLL_MAX_OPTIONS);
+  }
+
+  return {
+    question,
+    options: Array.from(new Set(options)),
+    duration: isPollDuration(raw.duration) ? raw.duration : DEFAULT_POLL_DURATION,
+  };
+}
+
+/**
+ * Check a poll against LinkedIn's limits. Returns an error message or null.
+ */
+export function validatePoll(poll: PostPoll): string | null {
+  if (!poll.question.trim()) {
+    return "Poll question is required";
+  }
+  if (poll.question.length > POLL_QUESTION_MAX_LENGTH) {
+    return `Poll question must be at most ${POLL_QUESTION_MAX_LENGTH} characters`;
+  }
+  if (poll.options.length < POLL_MIN_OPTIONS || poll.options.length > POLL_MAX_OPTIONS) {
+    return `A poll needs between ${POLL_MIN_OPTIONS} and ${POLL_MAX_OPTIONS} options`;
+  }
+  if (poll.options.some((option) => option.length > POLL_OPTION_MAX_LENGTH)) {
+    return `Poll options must be at most ${POLL_OPTION_MAX_LENGTH} characters`;
+  }
+  if (!isPollDuration(poll.duration)) {
+    return "Invalid poll duration";
+  }
+  return null;
+}
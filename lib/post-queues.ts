@@ -0,0 +1,100 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const QUEUE_NAME_MAX_LENGTH = 40;
+
+/**
+ * Turn a queue name from a request body into its stored form
+ * ("Personal story" -> "personal_story"). Returns null when empty.
+ */
+export function normalizeQueueName(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const queue = input
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "_")
+    .replace(/[^\p{L}\p{N}_-]/gu, "")
+    .slice(0, QUEUE_NAME_MAX_LENGTH);
+  return queue || null;
+}
+
+/**
+ * Posts a recurring schedule slot can pick: ready, without an explicit
+ * scheduledFor date (those have their own one-off job), without a pending
+ * publish retry and, when the schedule is bound to a queue, in that queue.
+ * Schedules without a queue pick any post.
+ */
+export function buildQueueWhere(userId: string, queue?: string | null): Prisma.PostWhereInput {
+  return {
+    userId,
+    status: "ready",
+    AND: [
+      { OR: [{ scheduledFor: null }, { scheduledFor: { isSet: false } }] },
+      { OR: [{ publishRetryAt: null }, { publishRetryAt: { isSet: false } }] },
+    ],
+    ...(queue && { queue }),
+  };
+}
+
+/**
+ * Number of posts waiting in each queue ("" = posts without a queue)
+ */
+export async function getQueueDepths(userId: string): Promise<Map<string, number>> {
+  const groups = await prisma.post.groupBy({
+    by: ["queue"],
+    where: buildQueueWhere(userId),
+    _count: { _all: true },
+  });
+  return new Map(groups.map((group) => [group.queue || "", group._count._all]));
+}
+
+interface ForecastSchedule {
+  id: string;
+  queue: string | null;
+  upcomingRuns: Date[];
+}
+
+export interface QueueForecast {
+  /** Posts the schedule can currently pick */
+  queueDepth: number;
+  /** First upcoming run with nothing left to publish, null if the queue lasts */
+  runsDryAt: Date | null;
+}
+
+/**
+ * Replay the upcoming runs of the schedules drawing from each queue, in time
+ * order, to find the first run of each schedule that will find its queue empty.
+ * Schedules without a queue share the whole pool; posts they take from named
+ * queues are not deducted from those queues.
+ */
+export async function getQueueForecasts(
+  userId: string,
+  schedules: ForecastSchedule[]
+): Promise<Map<string, QueueForecast>> {
+  const depths = await getQueueDepths(userId);
+  const totalDepth = Array.from(depths.values()).reduce((sum, depth) => sum + depth, 0);
+  const forecasts = new Map<string, QueueForecast>();
+
+  const byQueue = new Map<string, ForecastSchedule[]>();
+  for (const schedule of schedules) {
+    const key = schedule.queue || "";
+    byQueue.set(key, [...(byQueue.get(key) || []), schedule]);
+  }
+
+  for (const [queue, queueSchedules] of byQueue) {
+    const depth = queue ? depths.get(queue) || 0 : totalDepth;
+    const runs = queueSchedules
+      .flatMap((schedule) => schedule.upcomingRuns.map((at) => ({ at, scheduleId: schedule.id })))
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    for (const schedule of queueSchedules) {
+      forecasts.set(schedule.id, { queueDepth: depth, runsDryAt: null });
+    }
+    runs.slice(depth).forEach(({ at, scheduleId }) => {
+      const forecast = forecasts.get(scheduleId);
+      if (forecast && !forecast.runsDryAt) forecast.runsDryAt = at;
+    });
+  }
+
+  return forecasts;
+}
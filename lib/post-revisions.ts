@@ -0,0 +1,90 @@
+import { prisma } from "@/lib/prisma";
+import { postRevisionSources, type PostRevisionSource } from "@/types/post";
+
+/** Older versions are dropped beyond this count */
+export const MAX_REVISIONS_PER_POST = 50;
+
+interface RevisedPost {
+  id: string;
+  userId: string;
+  title: string;
+  content: string;
+}
+
+/**
+ * Revision source from a request body, or the fallback when missing or unknown
+ */
+export function normalizeRevisionSource(
+  input: unknown,
+  fallback: PostRevisionSource = "manual"
+): PostRevisionSource {
+  return postRevisionSources.includes(input as PostRevisionSource)
+    ? (input as PostRevisionSource)
+    : fallback;
+}
+
+/**
+ * Record the current title and content of a post as a new version. Saves that
+ * leave both unchanged (status, image...) do not create one.
+ */
+export async function recordPostRevision(
+  post: RevisedPost,
+  source: PostRevisionSource,
+  createdAt?: Date
+): Promise<void> {
+  const latest = await prisma.postRevision.findFirst({
+    where: { postId: post.id },
+    orderBy: { createdAt: "desc" },
+    select: { title: true, content: true },
+  });
+  if (latest && latest.title === post.title && latest.content === post.content) return;
+
+  await prisma.postRevision.create({
+    data: {
+      userId: post.userId,
+      postId: post.id,
+      title: post.title,
+      content: post.content,
+      source,
+      ...(createdAt && { createdAt }),
+    },
+  });
+
+  const stale = await prisma.postRevision.findMany({
+    where: { postId: post.id },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_REVISIONS_PER_POST,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await prisma.postRevision.deleteMany({
+      where: { id: { in: stale.map((revision) => revision.id) } },
+    });
+  }
+}
+
+/**
+ * Posts created before version history have no revision: keep their current
+ * text as the first version before it is overwritten.
+ */
+export async function ensureBaselineRevision(post: RevisedPost & { updatedAt: Date }): Promise<void> {
+  const count = await prisma.postRevision.count({ where: { postId: post.id } });
+  if (count === 0) {
+    await recordPostRevision(post, "manual", post.updatedAt);
+  }
+}
+
+/**
+ * Record the versions of a generated post: the generator's text first when it
+ * was rewritten for specificity, then the saved text.
+ */
+export async function recordGeneratedPostRevisions(
+  post: RevisedPost,
+  source: PostRevisionSource,
+  originalDraft?: { title: string; content: string } | null
+): Promise<void> {
+  if (originalDraft) {
+    await recordPostRevision({ ...post, ...originalDraft }, "generation");
+  }
+  await recordPostRevision(post, source);
+}
@@ -0,0 +1,163 @@
+import { prisma } from "@/lib/prisma";
+import type { PostStatus, SimilarPost } from "@/types/post";
+
+/** Flagged when saving or generating a post */
+export const SIMILARITY_THRESHOLD = 0.5;
+/** Refused at publication: close enough for LinkedIn's DUPLICATE_CONTENT */
+export const PUBLISH_SIMILARITY_THRESHOLD = 0.8;
+
+/** Words per shingle */
+const SHINGLE_SIZE = 3;
+/** Short texts can only be compared as a whole, not by containment */
+const MIN_SHINGLES_FOR_CONTAINMENT = 8;
+/** Most recent posts compared with a new text */
+const MAX_COMPARED_POSTS = 300;
+const MAX_PASSAGE_WORDS = 25;
+
+/**
+ * Words of a text, lowercased and without accents, links, hashtags and punctuation
+ */
+export function tokenizeForSimilarity(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/#[\p{L}\p{N}_]+/gu, " ")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function buildShingles(words: string[]): Set<string> {
+  if (words.length < SHINGLE_SIZE) return new Set(words.length > 0 ? [words.join(" ")] : []);
+  const shingles = new Set<string>();
+  for (let index = 0; index + SHINGLE_SIZE <= words.length; index++) {
+    shingles.add(words.slice(index, index + SHINGLE_SIZE).join(" "));
+  }
+  return shingles;
+}
+
+/**
+ * Longest run of `words` whose shingles all appear in `other`
+ */
+function findSharedPassage(words: string[], other: Set<string>): string {
+  let bestStart = 0;
+  let bestLength = 0;
+  let runStart = 0;
+  let runLength = 0;
+  for (let index = 0; index + SHINGLE_SIZE <= words.length; index++) {
+    if (other.has(words.slice(index, index + SHINGLE_SIZE).join(" "))) {
+      if (runLength === 0) runStart = index;
+      runLength++;
+      if (runLength > bestLength) {
+        bestStart = runStart;
+        bestLength = runLength;
+      }
+    } else {
+      runLength = 0;
+    }
+  }
+  if (bestLength === 0) return "";
+
+  const passage = words.slice(bestStart, bestStart + bestLength + SHINGLE_SIZE - 1);
+  return passage.length > MAX_PASSAGE_WORDS
+    ? `${passage.slice(0, MAX_PASSAGE_WORDS).join(" ")}...`
+    : passage.join(" ");
+}
+
+/**
+ * Overlap of two texts from 0 to 1: Jaccard index of their word 3-grams, or
+ * the share of the shorter text found in the longer one when that is higher
+ */
+export function compareTexts(text: string, other: string): { similarity: number; sharedPassage: string } {
+  const words = tokenizeForSimilarity(text);
+  const shingles = buildShingles(words);
+  const otherShingles = buildShingles(tokenizeForSimilarity(other));
+  if (shingles.size === 0 || otherShingles.size === 0) {
+    return { similarity: 0, sharedPassage: "" };
+  }
+
+  let shared = 0;
+  for (const shingle of shingles) {
+    if (otherShingles.has(shingle)) shared++;
+  }
+  if (shared === 0) return { similarity: 0, sharedPassage: "" };
+
+  const jaccard = shared / (shingles.size + otherShingles.size - shared);
+  const smallest = Math.min(shingles.size, otherShingles.size);
+  const containment = smallest >= MIN_SHINGLES_FOR_CONTAINMENT ? shared / smallest : 0;
+
+  return {
+    similarity: Math.round(Math.max(jaccard, containment) * 100) / 100,
+    sharedPassage: findSharedPassage(words, otherShingles),
+  };
+}
+
+export interface SimilarityCandidate {
+  id: string;
+  title: string;
+  content: string;
+  status: string;
+  publishedAt: Date | null;
+}
+
+/**
+ * Candidates at or above the threshold, most similar first
+ */
+export function rankSimilarPosts(
+  content: string,
+  candidates: SimilarityCandidate[],
+  options: { threshold?: number; limit?: number } = {}
+): SimilarPost[] {
+  const { threshold = SIMILARITY_THRESHOLD, limit = 3 } = options;
+
+  return candidates
+    .map((candidate) => ({ candidate, ...compareTexts(content, candidate.content) }))
+    .filter(({ similarity }) => similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ candidate, similarity, sharedPassage }) => ({
+      id: candidate.id,
+      title: candidate.title,
+      status: candidate.status as PostStatus,
+      publishedAt: candidate.publishedAt?.toISOString() ?? null,
+      similarity,
+      sharedPassage,
+    }));
+}
+
+/**
+ * Recent posts of a user that can be compared with a new text
+ */
+export async function loadSimilarityCandidates(
+  userId: string,
+  options: { excludePostId?: string; statuses?: PostStatus[] } = {}
+): Promise<SimilarityCandidate[]> {
+  return prisma.post.findMany({
+    where: {
+      userId,
+      ...(options.excludePostId && { id: { not: options.excludePostId } }),
+      ...(options.statuses && { status: { in: options.statuses } }),
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_COMPARED_POSTS,
+    select: { id: true, title: true, content: true, status: true, publishedAt: true },
+  });
+}
+
+/**
+ * Existing posts of a user too close to `content`, most similar first
+ */
+export async function findSimilarPosts(
+  userId: string,
+  content: string,
+  options: {
+    excludePostId?: string;
+    statuses?: PostStatus[];
+    threshold?: number;
+    limit?: number;
+  } = {}
+): Promise<SimilarPost[]> {
+  const candidates = await loadSimilarityCandidates(userId, options);
+  return rankSimilarPosts(content, candidates, options);
+}
@@ -0,0 +1,96 @@
+import type { PostSlide } from "@/types/post";
+
+export const MIN_DOCUMENT_TIPS = 2;
+export const MAX_DOCUMENT_SLIDES = 12;
+const MAX_SLIDE_TITLE_LENGTH = 90;
+const MAX_SLIDE_BODY_LENGTH = 400;
+
+// "1. ", "2) ", "3 - ", "- ", "• ", "✅ "... at the start of a line
+const LIST_ITEM_PATTERN =
+  /^\s*(?:\d{1,2}\s*[.)-]|[-•*▪▸►→➜✔✓]|✅|👉|🔹|🔸|📌|➡️)\s*(.+)$/u;
+const HASHTAG_LINE_PATTERN = /^(?:#[\p{L}\p{N}_]+\s*)+$/u;
+
+function clamp(text: string, maxLength: number): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxLength) return trimmed;
+  return `${trimmed.slice(0, maxLength - 3).trimEnd()}...`;
+}
+
+/**
+ * Split "Title: explanation" / "Title - explanation" tips into a heading and a body
+ */
+function splitTip(text: string): PostSlide {
+  const match = text.match(/^(.{3,80}?)\s*(?::|\s[-–—]\s)\s*(.+)$/);
+  if (match) {
+    return { title: match[1], body: match[2] };
+  }
+  return { title: text, body: "" };
+}
+
+/**
+ * Turn a tips-list post into carousel slides: a cover (post title + hook),
+ * one slide per list item and a closing slide with the conclusion.
+ * Returns an empty array when the content is not a list of at least two tips.
+ */
+export function buildSlidesFromTipsList(title: string, content: string): PostSlide[] {
+  const lines = content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => !HASHTAG_LINE_PATTERN.test(line));
+
+  const intro: string[] = [];
+  const outro: string[] = [];
+  const tips: PostSlide[] = [];
+
+  for (const line of lines) {
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      outro.length = 0;
+      tips.push(splitTip(item[1].replace(/\*\*/g, "").trim()));
+      continue;
+    }
+    if (!line) {
+      // A blank line closes the current tip: following text is conclusion
+      if (tips.length > 0) outro.push("");
+      continue;
+    }
+    if (tips.length === 0) {
+      intro.push(line);
+    } else if (outro.length === 0) {
+      // Continuation line of the current tip
+      const current = tips[tips.length - 1];
+      current.body = current.body ? `${current.body} ${line}` : line;
+    } else {
+      outro.push(line);
+    }
+  }
+
+  if (tips.length < MIN_DOCUMENT_TIPS) return [];
+
+  const slides: PostSlide[] = [
+    { title, body: intro.join(" ") },
+    ...tips,
+  ];
+  const conclusion = outro.filter(Boolean).join(" ");
+  if (conclusion) {
+    slides.push({ title: "", body: conclusion });
+  }
+
+  return normalizeSlides(slides);
+}
+
+/**
+ * Validate slides coming from a request body: keep string fields, drop empty
+ * slides and enforce the length and count limits.
+ */
+export function normalizeSlides(input: unknown): PostSlide[] {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .map((slide) => ({
+      title: clamp(typeof slide?.title === "string" ? slide.title : "", MAX_SLIDE_TITLE_LENGTH),
+      body: clamp(typeof slide?.body === "string" ? slide.body : "", MAX_SLIDE_BODY_LENGTH),
+    }))
+    .filter((slide) => slide.title || slide.body)
+    .slice(0, MAX_DOCUMENT_SLIDES);
+}
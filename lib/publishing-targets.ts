@@ -0,0 +1,93 @@
+import { prisma } from "@/lib/prisma";
+import type { PostVisibility, PublishingTargetType } from "@/types/publishing-target";
+
+export const POST_VISIBILITIES: PostVisibility[] = ["PUBLIC", "CONNECTIONS"];
+export const PUBLISHING_TARGET_TYPES: PublishingTargetType[] = ["person", "organization"];
+
+/**
+ * Author and audience of a LinkedIn post
+ */
+export interface LinkedInAuthor {
+  /** urn:li:person:{id} or urn:li:organization:{id} */
+  authorUrn: string;
+  visibility: PostVisibility;
+}
+
+/**
+ * Accept "urn:li:organization:123", "123" or a company page URL
+ * (linkedin.com/company/123/admin/) and return the organization URN.
+ */
+export function parseOrganizationUrn(input: string): string | null {
+  const value = input.trim();
+  const match =
+    value.match(/^urn:li:organization:(\d+)$/) ||
+    value.match(/^(\d+)$/) ||
+    value.match(/linkedin\.com\/company\/(\d+)/i);
+  return match ? `urn:li:organization:${match[1]}` : null;
+}
+
+/**
+ * Validate a target definition. Returns an error message or null.
+ */
+export function validatePublishingTarget(target: {
+  type: string;
+  organizationUrn?: string | null;
+  visibility: string;
+}): string | null {
+  if (!PUBLISHING_TARGET_TYPES.includes(target.type as PublishingTargetType)) {
+    return "Invalid target type";
+  }
+  if (!POST_VISIBILITIES.includes(target.visibility as PostVisibility)) {
+    return "Invalid visibility";
+  }
+  if (target.type === "organization") {
+    if (!target.organizationUrn) {
+      return "Enter the organization URN, its numeric ID or its page admin URL";
+    }
+    if (target.visibility === "CONNECTIONS") {
+      return "Company page posts can only be public";
+    }
+  }
+  return null;
+}
+
+/**
+ * Author used when a post is published: the given target, or the member
+ * publishing publicly when there is none. Returns null if the target is gone.
+ */
+export async function resolveLinkedInAuthor(
+  userId: string,
+  linkedInId: string,
+  targetId?: string | null
+): Promise<LinkedInAuthor | null> {
+  const personUrn = `urn:li:person:${linkedInId}`;
+  if (!targetId) {
+    return { authorUrn: personUrn, visibility: "PUBLIC" };
+  }
+
+  const target = await prisma.publishingTarget.findFirst({
+    where: { id: targetId, userId },
+  });
+  if (!target) return null;
+
+  return {
+    authorUrn:
+      target.type === "organization" && target.organizationUrn
+        ? target.organizationUrn
+        : personUrn,
+    visibility: target.visibility === "CONNECTIONS" ? "CONNECTIONS" : "PUBLIC",
+  };
+}
+
+/**
+ * Check that a target ID from a request belongs to the user
+ */
+export async function isOwnPublishingTarget(
+  targetId: string,
+  userId: string
+): Promise<boolean> {
+  const count = await prisma.publishingTarget.count({
+    where: { id: targetId, userId },
+  });
+  return count > 0;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { getUpcomingRuns, ScheduleRule, toZonedDateKey, zonedTimeToUtc } from "@/lib/schedule-rules";
+
+function rule(overrides: Partial<ScheduleRule>): ScheduleRule {
+  return {
+    daysOfWeek: [0],
+    times: ["09:00"],
+    timezone: "Europe/Paris",
+    intervalWeeks: 1,
+    intervalAnchor: null,
+    excludedDates: [],
+    ...overrides,
+  };
+}
+
+describe("zonedTimeToUtc", () => {
+  it("shifts a wall time skipped by clocks going forward (Europe/Paris)", () => {
+    expect(zonedTimeToUtc(Date.UTC(2026, 2, 29, 2, 30), "Europe/Paris").toISOString()).toBe(
+      "2026-03-29T01:30:00.000Z"
+    );
+  });
+
+  it("keeps the offsets on both sides of the Europe/Paris transitions", () => {
+    expect(zonedTimeToUtc(Date.UTC(2026, 2, 29, 1, 30), "Europe/Paris").toISOString()).toBe(
+      "2026-03-29T00:30:00.000Z"
+    );
+    expect(zonedTimeToUtc(Date.UTC(2026, 2, 29, 3, 30), "Europe/Paris").toISOString()).toBe(
+      "2026-03-29T01:30:00.000Z"
+    );
+    expect(zonedTimeToUtc(Date.UTC(2026, 9, 25, 2, 30), "Europe/Paris").toISOString()).toBe(
+      "2026-10-25T00:30:00.000Z"
+    );
+  });
+
+  it("resolves a wall time repeated by clocks going back to its first occurrence (America/New_York)", () => {
+    expect(zonedTimeToUtc(Date.UTC(2026, 10, 1, 1, 30), "America/New_York").toISOString()).toBe(
+      "2026-11-01T05:30:00.000Z"
+    );
+    expect(zonedTimeToUtc(Date.UTC(2026, 10, 1, 2, 30), "America/New_York").toISOString()).toBe(
+      "2026-11-01T07:30:00.000Z"
+    );
+  });
+
+  it("applies the fixed UTC+3 offset of Indian/Antananarivo all year", () => {
+    expect(zonedTimeToUtc(Date.UTC(2026, 0, 15, 9, 0), "Indian/Antananarivo").toISOString()).toBe(
+      "2026-01-15T06:00:00.000Z"
+    );
+    expect(zonedTimeToUtc(Date.UTC(2026, 6, 15, 9, 0), "Indian/Antananarivo").toISOString()).toBe(
+      "2026-07-15T06:00:00.000Z"
+    );
+  });
+});
+
+describe("toZonedDateKey", () => {
+  it("returns the calendar date in the timezone", () => {
+    expect(toZonedDateKey(new Date("2026-01-15T22:30:00Z"), "Indian/Antananarivo")).toBe("2026-01-16");
+    expect(toZonedDateKey(new Date("2026-01-15T22:30:00Z"), "America/New_York")).toBe("2026-01-15");
+  });
+});
+
+describe("getUpcomingRuns", () => {
+  it("fires across the spring-forward gap in Europe/Paris", () => {
+    const runs = getUpcomingRuns(
+      rule({ times: ["02:30"] }),
+      2,
+      new Date("2026-03-28T00:00:00Z")
+    );
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      "2026-03-29T01:30:00.000Z",
+      "2026-04-05T00:30:00.000Z",
+    ]);
+  });
+
+  it("fires once on the fall-back day in America/New_York", () => {
+    const runs = getUpcomingRuns(
+      rule({ times: ["01:30"], timezone: "America/New_York" }),
+      2,
+      new Date("2026-10-31T00:00:00Z")
+    );
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      "2026-11-01T05:30:00.000Z",
+      "2026-11-08T06:30:00.000Z",
+    ]);
+  });
+
+  it("keeps the same UTC time in Indian/Antananarivo", () => {
+    const runs = getUpcomingRuns(
+      rule({ daysOfWeek: [3], timezone: "Indian/Antananarivo" }),
+      2,
+      new Date("2026-03-23T00:00:00Z")
+    );
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      "2026-03-25T06:00:00.000Z",
+      "2026-04-01T06:00:00.000Z",
+    ]);
+  });
+
+  it("skips inactive weeks and exclusion dates", () => {
+    const runs = getUpcomingRuns(
+      rule({
+        daysOfWeek: [1],
+        intervalWeeks: 2,
+        intervalAnchor: "2026-01-05",
+        excludedDates: ["2026-01-19"],
+      }),
+      3,
+      new Date("2026-01-01T00:00:00Z")
+    );
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      "2026-01-05T08:00:00.000Z",
+      "2026-02-02T08:00:00.000Z",
+      "2026-02-16T08:00:00.000Z",
+    ]);
+  });
+});
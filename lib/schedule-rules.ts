@@ -0,0 +1,283 @@
+export const MAX_INTERVAL_WEEKS = 12;
+export const MAX_EXCLUDED_DATES = 100;
+export const UPCOMING_RUNS_COUNT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// Enough to find runs of a schedule firing every 12 weeks with many excluded dates
+const MAX_LOOKAHEAD_DAYS = 366 * 2;
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Recurrence rules of a schedule. Dates are calendar dates (YYYY-MM-DD) and
+ * times are wall-clock times in the schedule's timezone; runs are computed as
+ * UTC instants so the result does not depend on the server or browser timezone.
+ */
+export interface ScheduleRule {
+  /** 0 = Sunday, 1 = Monday, ..., 6 = Saturday */
+  daysOfWeek: number[];
+  /** HH:mm */
+  times: string[];
+  timezone: string;
+  /** Publish every N weeks (1 = every week) */
+  intervalWeeks: number;
+  /** A date in the first active week when intervalWeeks > 1 */
+  intervalAnchor: string | null;
+  /** Dates on which the schedule does not fire (holidays...) */
+  excludedDates: string[];
+}
+
+interface ScheduleRuleSource {
+  dayOfWeek: number;
+  daysOfWeek?: number[] | null;
+  times: string[];
+  timezone: string;
+  intervalWeeks?: number | null;
+  intervalAnchor?: string | null;
+  excludedDates?: string[] | null;
+}
+
+/**
+ * Weekdays of a schedule. Schedules created before multi-day support only
+ * have the single dayOfWeek.
+ */
+export function getScheduleDays(schedule: {
+  dayOfWeek: number;
+  daysOfWeek?: number[] | null;
+}): number[] {
+  return schedule.daysOfWeek?.length
+    ? [...schedule.daysOfWeek].sort((a, b) => a - b)
+    : [schedule.dayOfWeek];
+}
+
+export function toScheduleRule(schedule: ScheduleRuleSource): ScheduleRule {
+  return {
+    daysOfWeek: getScheduleDays(schedule),
+    times: [...schedule.times].sort(),
+    timezone: schedule.timezone,
+    intervalWeeks: Math.max(1, schedule.intervalWeeks || 1),
+    intervalAnchor: schedule.intervalAnchor || null,
+    excludedDates: schedule.excludedDates || [],
+  };
+}
+
+/**
+ * Validate weekdays from a request body. Returns null when invalid.
+ */
+export function normalizeDaysOfWeek(input: unknown): number[] | null {
+  if (!Array.isArray(input) || input.length === 0) return null;
+  if (!input.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) return null;
+  return Array.from(new Set(input as number[])).sort((a, b) => a - b);
+}
+
+/**
+ * Validate exclusion dates (YYYY-MM-DD) from a request body: dedupes and
+ * sorts them. Returns null when a date is invalid or there are too many.
+ */
+export function normalizeExcludedDates(input: unknown): string[] | null {
+  if (!Array.isArray(input)) return null;
+  if (!input.every((date) => typeof date === "string" && parseDateKey(date) !== null)) {
+    return null;
+  }
+  const dates = Array.from(new Set(input as string[])).sort();
+  return dates.length <= MAX_EXCLUDED_DATES ? dates : null;
+}
+
+/**
+ * Days since the epoch of a YYYY-MM-DD date, or null if it is not a real date
+ */
+function parseDateKey(dateKey: string): number | null {
+  const match = dateKey.match(DATE_KEY_PATTERN);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return time / DAY_MS;
+}
+
+/**
+ * Days since the epoch of the Monday starting the week of a day
+ */
+function weekStart(dayNumber: number): number {
+  // 1970-01-01 was a Thursday
+  const weekday = (dayNumber + 4) % 7;
+  return dayNumber - ((weekday + 6) % 7);
+}
+
+function dayNumberToDateKey(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of an instant in a timezone, as milliseconds since the
+ * epoch of the same wall-clock time in UTC
+ */
+function toZonedWallTime(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getZonedFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * UTC offset of a timezone at an instant, in milliseconds
+ */
+function getTimezoneOffset(instant: number, timezone: string): number {
+  const wholeSeconds = instant - (((instant % 1000) + 1000) % 1000);
+  return toZonedWallTime(wholeSeconds, timezone) - wholeSeconds;
+}
+
+/**
+ * Instant at which a wall-clock time (ms since the epoch, read as UTC) happens
+ * in a timezone. Around DST transitions this behaves like cron: a time that
+ * occurs twice (clocks going back) resolves to its first occurrence, and a
+ * time skipped by clocks going forward is shifted forward by the gap
+ * (02:30 becomes 03:30 in Europe/Paris).
+ */
+export function zonedTimeToUtc(wallTime: number, timezone: string): Date {
+  const offsets = Array.from(
+    new Set([
+      getTimezoneOffset(wallTime - DAY_MS, timezone),
+      getTimezoneOffset(wallTime + DAY_MS, timezone),
+    ])
+  );
+  const candidates = offsets
+    .map((offset) => wallTime - offset)
+    .filter((instant) => getTimezoneOffset(instant, timezone) === wallTime - instant);
+
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates));
+  }
+  // Skipped wall time: apply the offset in effect before the transition
+  return new Date(wallTime - offsets[0]);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function toZonedDateKey(date: Date, timezone: string): string {
+  return dayNumberToDateKey(Math.floor(toZonedWallTime(date.getTime(), timezone) / DAY_MS));
+}
+
+/**
+ * Format a run in the schedule's timezone, the way it is configured
+ */
+export function formatInTimezone(date: Date | string, timezone: string, locale?: string): string {
+  return new Date(date).toLocaleString(locale, {
+    timeZone: timezone,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Whether the schedule fires on a date: right weekday, active week and not excluded
+ */
+export function isActiveDate(rule: ScheduleRule, dateKey: string): boolean {
+  const dayNumber = parseDateKey(dateKey);
+  if (dayNumber === null || rule.excludedDates.includes(dateKey)) return false;
+  if (!rule.daysOfWeek.includes((dayNumber + 4) % 7)) return false;
+
+  const anchor = rule.intervalAnchor ? parseDateKey(rule.intervalAnchor) : null;
+  if (rule.intervalWeeks <= 1 || anchor === null) return true;
+
+  const weeks = Math.round((weekStart(dayNumber) - weekStart(anchor)) / 7);
+  return ((weeks % rule.intervalWeeks) + rule.intervalWeeks) % rule.intervalWeeks === 0;
+}
+
+/**
+ * Whether a run happening at `at` is a real occurrence of the schedule.
+ * Cron jobs fire every week on the schedule's weekdays: the interval and the
+ * exclusion dates are checked when they run.
+ */
+export function isScheduledOccurrence(rule: ScheduleRule, at: Date = new Date()): boolean {
+  return isActiveDate(rule, toZonedDateKey(at, rule.timezone));
+}
+
+/**
+ * Next fire times of a schedule after `from`, across all its weekdays,
+ * times, week interval and exclusion dates.
+ */
+export function getUpcomingRuns(
+  rule: ScheduleRule,
+  count: number,
+  from: Date = new Date()
+): Date[] {
+  const today = Math.floor(toZonedWallTime(from.getTime(), rule.timezone) / DAY_MS);
+  const times = Array.from(new Set(rule.times)).sort();
+  const runs: Date[] = [];
+
+  for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS && runs.length < count; offset++) {
+    const dayNumber = today + offset;
+    if (!isActiveDate(rule, dayNumberToDateKey(dayNumber))) continue;
+
+    for (const time of times) {
+      const [hours, minutes] = time.split(":").map(Number);
+      const run = zonedTimeToUtc(dayNumber * DAY_MS + (hours * 60 + minutes) * MINUTE_MS, rule.timezone);
+      // Two wall times skipped by a DST gap can resolve to the same instant
+      if (run > from && runs[runs.length - 1]?.getTime() !== run.getTime()) runs.push(run);
+      if (runs.length === count) break;
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Runs of a one-time schedule: the next occurrence of each weekday and time
+ */
+export function getOneTimeRuns(rule: ScheduleRule, from: Date = new Date()): Date[] {
+  return rule.daysOfWeek
+    .flatMap((day) =>
+      rule.times.map(
+        (time) =>
+          getUpcomingRuns({ ...rule, daysOfWeek: [day], times: [time] }, 1, from)[0]
+      )
+    )
+    .filter((run): run is Date => Boolean(run))
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Add the weekdays and the next fire times to a schedule returned by the API
+ */
+export function withUpcomingRuns<
+  T extends ScheduleRuleSource & { isActive: boolean; isRecurring: boolean; lastRunAt: Date | null }
+>(schedule: T): T & { daysOfWeek: number[]; upcomingRuns: Date[] } {
+  const rule = toScheduleRule(schedule);
+  let upcomingRuns: Date[] = [];
+  if (schedule.isActive) {
+    if (schedule.isRecurring) {
+      upcomingRuns = getUpcomingRuns(rule, UPCOMING_RUNS_COUNT);
+    } else if (!schedule.lastRunAt) {
+      upcomingRuns = getOneTimeRuns(rule);
+    }
+  }
+  return { ...schedule, daysOfWeek: rule.daysOfWeek, upcomingRuns };
+}
@@ -0,0 +1,99 @@
+/**
+ * Line-based diff of two texts (client-safe), for the post version history
+ */
+
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+/**
+ * One row of a side-by-side view: the old line on the left, the new one on
+ * the right. A side is null when the line only exists on the other side.
+ */
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+/** Texts with more lines than this are compared as a whole (LCS table size) */
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * Lines removed from `before`, added in `after` or kept, in order
+ * (longest common subsequence of lines)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Pair removed and added lines of each changed block so that a modified line
+ * appears next to its previous version
+ */
+export function buildSideBySideDiff(before: string, after: string): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] || null, right: added[k] || null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of diffLines(before, after)) {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,124 @@
+/**
+ * Common stop words to strip from search queries (French + English)
+ */
+const STOP_WORDS = new Set([
+  // French
+  "le", "la", "les", "de", "du", "des", "un", "une", "et", "en", "est", "que",
+  "qui", "dans", "pour", "pas", "sur", "ce", "il", "ne", "se", "son", "sa",
+  "au", "aux", "avec", "par", "mon", "ma", "mes", "j", "d", "l", "n", "s",
+  "nous", "vous", "leur", "leurs", "jai", "cest", "sont", "être", "avoir",
+  "comment", "pourquoi", "quand", "votre", "cette", "ces", "tout", "plus",
+  // English
+  "the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for", "of",
+  "is", "it", "my", "your", "i", "we", "you", "how", "what", "why", "when",
+  "from", "with", "that", "this", "was", "are", "were", "been", "have", "has",
+  "things", "learned", "about",
+]);
+
+/**
+ * Extract short, meaningful keywords from a title for Unsplash search.
+ * Removes stop words and special characters, keeps 2-4 meaningful words.
+ */
+export function extractSearchKeywords(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/['']/g, " ")           // Smart quotes → spaces
+    .replace(/[^a-zà-ÿ0-9\s]/g, "") // Remove punctuation
+    .split(/\s+/)
+    .filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+
+  // Keep at most 3 meaningful words for a focused query
+  return words.slice(0, 3).join(" ");
+}
+
+/**
+ * Fetch a relevant image from Unsplash, with fallback queries.
+ * Tries the primary query first, then each fallback in order.
+ */
+export async function fetchUnsplashImage(
+  queries: string[],
+  pickIndex = 0,
+  relevanceKeywords: string[] = [],
+  strictTopicMatch = false
+): Promise<string | null> {
+  const accessKey = process.env.UNSPLASH_ACCESS_KEY;
+  if (!accessKey) {
+    console.warn("[Unsplash] No UNSPLASH_ACCESS_KEY configured, skipping image fetch");
+    return null;
+  }
+
+  for (const query of queries) {
+    if (!query.trim()) continue;
+
+    try {
+      console.log(`[Unsplash] Searching: "${query}" (pickIndex: ${pickIndex})`);
+
+      const response = await fetch(
+        `https://api.unsplash.com/search/photos?` +
+        `query=${encodeURIComponent(query)}&per_page=10&page=1&orientation=landscape` +
+        `&client_id=${accessKey}`,
+        { signal: AbortSignal.timeout(15000) }
+      );
+
+      if (!response.ok) {
+        console.warn(`[Unsplash] API returned ${response.status} for query "${query}"`);
+        continue;
+      }
+
+      const data = await response.json();
+      const results = data.results || [];
+
+      if (results.length === 0) {
+        console.log(`[Unsplash] No results for "${query}", trying next fallback…`);
+        continue;
+      }
+
+      const blockedWords = [
+        "car",
+        "cars",
+        "vehicle",
+        "automobile",
+        "phone",
+        "smartphone",
+        "samsung",
+      ];
+
+      const lowerKeywords = relevanceKeywords
+        .map((keyword) => keyword.toLowerCase())
+        .filter(Boolean);
+
+      const scored = results
+        .map((item: { alt_description?: string; description?: string }) => {
+          const text = `${item.alt_description || ""} ${item.description || ""}`.toLowerCase();
+          const blocked = blockedWords.some((word) => text.includes(word));
+          const keywordMatches = lowerKeywords.filter((keyword) => text.includes(keyword)).length;
+          return { item, blocked, keywordMatches };
+        })
+        .filter((entry: { blocked: boolean }) => !entry.blocked)
+        .sort((a: { keywordMatches: number }, b: { keywordMatches: number }) => b.keywordMatches - a.keywordMatches);
+
+      const candidates =
+        scored.length > 0
+          ? scored.map((entry: { item: unknown }) => entry.item as { urls?: { regular?: string } })
+          : results;
+
+      if (strictTopicMatch && candidates.length === 0) {
+        console.log(`[Unsplash] Strict mode rejected query "${query}" (no clean candidate)`);
+        continue;
+      }
+      // Pick a different image for each post to avoid duplicates
+      const picked = candidates[pickIndex % candidates.length];
+      const imageUrl = picked?.urls?.regular || null;
+
+      if (imageUrl) {
+        console.log(`[Unsplash] Found image for "${query}" (picked ${pickIndex % results.length}/${results.length})`);
+        return imageUrl;
+      }
+    } catch (error) {
+      console.error(`[Unsplash] Error for "${query}":`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.warn("[Unsplash] All queries exhausted, no image found");
+  return null;
+}
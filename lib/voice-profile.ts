@@ -0,0 +1,276 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { HookPattern, VoiceProfile, VoiceProfileStatus } from "@/types/profile";
+
+/** Published posts needed to build a profile */
+export const MIN_VOICE_POSTS = 3;
+/** Most recent published posts analyzed */
+const MAX_VOICE_POSTS = 30;
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 600;
+const MAX_TOP_EMOJIS = 5;
+const MAX_SIGNATURE_PHRASES = 5;
+/** Word counts of the phrases looked for across posts */
+const PHRASE_LENGTHS = [3, 4, 5, 6];
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const HASHTAG_LINE_PATTERN = /^(?:#[\p{L}\p{N}_]+\s*)+$/u;
+const LIST_ITEM_PATTERN = /^\s*(?:\d{1,2}\s*[.)-]|[-•*▪▸►→➜✔✓]|✅|👉|🔹|🔸|📌|➡️)\s*\S/u;
+const PERSONAL_OPENING_PATTERN =
+  /^(?:i|i'm|i've|i'd|my|me|we|our|je|j'ai|j'|mon|ma|mes|nous|notre|on)\b/i;
+
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/**
+ * Post text without the hashtag lines appended at publish time
+ */
+function stripHashtagLines(content: string): string {
+  return content
+    .split("\n")
+    .filter((line) => !HASHTAG_LINE_PATTERN.test(line.trim()))
+    .join("\n")
+    .trim();
+}
+
+function firstLine(content: string): string {
+  return content.split("\n").map((line) => line.trim()).find(Boolean) || "";
+}
+
+export function classifyHook(line: string): HookPattern {
+  const text = line.replace(EMOJI_PATTERN, "").trim();
+  if (text.endsWith("?")) return "question";
+  if (/^["“«'‘]/.test(text)) return "quote";
+  if (/^\d/.test(text) || /\b\d+\s*(?:%|x\b)/.test(text)) return "number";
+  if (PERSONAL_OPENING_PATTERN.test(text)) return "personal";
+  return countWords(text) <= 8 ? "short_statement" : "statement";
+}
+
+/**
+ * Phrases of a few words found in several posts (sign-offs, catchphrases)
+ */
+function findSignaturePhrases(contents: string[]): string[] {
+  const postsByPhrase = new Map<string, Set<number>>();
+  contents.forEach((content, index) => {
+    for (const line of content.split("\n")) {
+      const words = line
+        .toLowerCase()
+        .replace(EMOJI_PATTERN, " ")
+        .split(/[^\p{L}\p{N}'’-]+/u)
+        .filter(Boolean);
+      for (const length of PHRASE_LENGTHS) {
+        for (let start = 0; start + length <= words.length; start++) {
+          const phraseWords = words.slice(start, start + length);
+          // Skip runs of short function words ("it is a", "de la la")
+          if (!phraseWords.some((word) => word.length >= 5)) continue;
+          const phrase = phraseWords.join(" ");
+          const posts = postsByPhrase.get(phrase) ?? new Set<number>();
+          posts.add(index);
+          postsByPhrase.set(phrase, posts);
+        }
+      }
+    }
+  });
+
+  const minPosts = Math.max(2, Math.ceil(contents.length * 0.2));
+  const candidates = Array.from(postsByPhrase.entries())
+    .filter(([, posts]) => posts.size >= minPosts)
+    .map(([phrase, posts]) => ({ phrase, count: posts.size }))
+    .sort((a, b) => b.count - a.count || b.phrase.length - a.phrase.length);
+
+  // Keep the longest form of overlapping phrases
+  const phrases: string[] = [];
+  for (const { phrase } of candidates) {
+    if (phrases.some((kept) => kept.includes(phrase) || phrase.includes(kept))) continue;
+    phrases.push(phrase);
+    if (phrases.length >= MAX_SIGNATURE_PHRASES) break;
+  }
+  return phrases;
+}
+
+/**
+ * Stylistic features of a set of posts, most recent first. Returns null when
+ * there are fewer than MIN_VOICE_POSTS posts with text.
+ */
+export function buildVoiceProfile(rawContents: string[]): VoiceProfile | null {
+  const contents = rawContents.map(stripHashtagLines).filter(Boolean);
+  if (contents.length < MIN_VOICE_POSTS) return null;
+
+  let totalWords = 0;
+  let totalSentences = 0;
+  let totalEmojis = 0;
+  let postsWithList = 0;
+  let postsEndingWithQuestion = 0;
+  const emojiCounts = new Map<string, number>();
+  const hookCounts = new Map<HookPattern, number>();
+
+  for (const content of contents) {
+    totalWords += countWords(content);
+    totalSentences += content
+      .split(/[.!?…]+(?:\s|$)|\n+/)
+      .filter((sentence) => countWords(sentence) > 0).length;
+
+    const emojis = content.match(EMOJI_PATTERN) || [];
+    totalEmojis += emojis.length;
+    for (const emoji of emojis) {
+      emojiCounts.set(emoji, (emojiCounts.get(emoji) ?? 0) + 1);
+    }
+
+    const lines = content.split("\n");
+    if (lines.filter((line) => LIST_ITEM_PATTERN.test(line)).length >= 2) postsWithList++;
+    if (content.replace(EMOJI_PATTERN, "").trim().endsWith("?")) postsEndingWithQuestion++;
+
+    const hook = classifyHook(firstLine(content));
+    hookCounts.set(hook, (hookCounts.get(hook) ?? 0) + 1);
+  }
+
+  const postCount = contents.length;
+  return {
+    postCount,
+    avgWordsPerPost: Math.round(totalWords / postCount),
+    avgWordsPerSentence: round(totalWords / Math.max(totalSentences, 1)),
+    emojisPerPost: round(totalEmojis / postCount),
+    topEmojis: Array.from(emojiCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_TOP_EMOJIS)
+      .map(([emoji]) => emoji),
+    listRatio: round(postsWithList / postCount, 2),
+    questionEndingRatio: round(postsEndingWithQuestion / postCount, 2),
+    hookPatterns: Array.from(hookCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([pattern, count]) => ({ pattern, share: round(count / postCount, 2) })),
+    signaturePhrases: findSignaturePhrases(contents),
+    examples: contents
+      .slice(0, MAX_EXAMPLES)
+      .map((content) =>
+        content.length > MAX_EXAMPLE_LENGTH
+          ? `${content.slice(0, MAX_EXAMPLE_LENGTH).trimEnd()}...`
+          : content
+      ),
+  };
+}
+
+const HOOK_DESCRIPTIONS: Record<HookPattern, string> = {
+  question: "a question",
+  number: "a number or statistic",
+  personal: "a personal experience (I/my)",
+  quote: "a quote",
+  short_statement: "a short punchy statement",
+  statement: "a full-sentence statement",
+};
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+/**
+ * Prompt section describing the author's voice, with excerpts of their posts
+ * as style examples
+ */
+export function formatVoiceProfileSection(
+  profile: VoiceProfile,
+  options: { maxExamples?: number } = {}
+): string {
+  const sentenceStyle =
+    profile.avgWordsPerSentence <= 12
+      ? "short and punchy"
+      : profile.avgWordsPerSentence <= 20
+        ? "medium length"
+        : "long and detailed";
+  const emojiStyle =
+    profile.emojisPerPost < 0.5
+      ? "rarely uses emojis"
+      : `about ${profile.emojisPerPost} emoji(s) per post${
+          profile.topEmojis.length > 0 ? `, favorites: ${profile.topEmojis.join(" ")}` : ""
+        }`;
+  const hooks = profile.hookPatterns
+    .slice(0, 3)
+    .map(({ pattern, share }) => `${HOOK_DESCRIPTIONS[pattern]} (${percent(share)})`)
+    .join(", ");
+  const examples = profile.examples.slice(0, options.maxExamples ?? MAX_EXAMPLES);
+
+  return `## AUTHOR'S WRITING VOICE (learned from ${profile.postCount} published posts)
+Write like the author. Follow this voice for sentence length, emojis, hooks and sign-offs; the other rules still apply.
+- Post length: about ${profile.avgWordsPerPost} words
+- Sentences: ${sentenceStyle} (about ${profile.avgWordsPerSentence} words)
+- Emojis: ${emojiStyle}
+- Opening lines: ${hooks || "varied"}
+- Lists: in ${percent(profile.listRatio)} of posts
+- Ends with a question in ${percent(profile.questionEndingRatio)} of posts${
+    profile.signaturePhrases.length > 0
+      ? `\n- Signature phrases (use at most one, only where it fits): ${profile.signaturePhrases
+          .map((phrase) => `"${phrase}"`)
+          .join(", ")}`
+      : ""
+  }
+${
+  examples.length > 0
+    ? `
+Excerpts of the author's posts (style reference only, do NOT reuse their topics or sentences):
+${examples.map((example, index) => `--- Example ${index + 1} ---\n${example}`).join("\n")}
+---
+`
+    : ""
+}`;
+}
+
+/**
+ * Stored voice profile of a user, null when it was never built
+ */
+export async function getVoiceProfile(userId: string): Promise<VoiceProfile | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { voiceProfile: true },
+  });
+  return (user?.voiceProfile as VoiceProfile | null | undefined) ?? null;
+}
+
+export async function getVoiceProfileStatus(userId: string): Promise<VoiceProfileStatus> {
+  const [user, publishedPostCount] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { voiceProfile: true, voiceProfileUpdatedAt: true },
+    }),
+    prisma.post.count({ where: { userId, status: "published" } }),
+  ]);
+
+  return {
+    profile: (user?.voiceProfile as VoiceProfile | null | undefined) ?? null,
+    updatedAt: user?.voiceProfileUpdatedAt?.toISOString() ?? null,
+    publishedPostCount,
+    minPosts: MIN_VOICE_POSTS,
+  };
+}
+
+/**
+ * Rebuild the voice profile from the user's most recent published posts,
+ * after each publication and on demand from the settings.
+ * Returns null, and keeps the stored profile, when there are too few posts.
+ */
+export async function refreshVoiceProfile(userId: string): Promise<VoiceProfile | null> {
+  const posts = await prisma.post.findMany({
+    where: { userId, status: "published" },
+    orderBy: [{ publishedAt: "desc" }, { createdAt: "desc" }],
+    take: MAX_VOICE_POSTS,
+    select: { content: true },
+  });
+
+  const profile = buildVoiceProfile(posts.map((post) => post.content));
+  if (!profile) return null;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      voiceProfile: profile as unknown as Prisma.InputJsonObject,
+      voiceProfileUpdatedAt: new Date(),
+    },
+  });
+
+  return profile;
+}
@@ -0,0 +1,40 @@
+/**
+ * Where the topic of a generation comes from: a free topic or selected themes
+ */
+export type GenerationTopicSource = "auto" | "common";
+
+/**
+ * Where the contact CTA goes: appended to the post or posted as first comment
+ */
+export type ContactCtaPlacement = "content" | "firstComment";
+
+/**
+ * Named set of generation options, reused in the generate dialog and by auto-refill
+ */
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  topicSource: GenerationTopicSource;
+  topic: string | null;
+  selectedThemes: string[];
+  /** Tone used instead of the profile tone, null keeps the profile tone */
+  toneOverride: string | null;
+  /** Generation style, null lets the AI choose */
+  style: string | null;
+  includeImage: boolean;
+  realisticImage: boolean;
+  includeContactCta: boolean;
+  contactCtaPlacement: ContactCtaPlacement;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Generation options of a preset, without its name
+ */
+export type GenerationPresetSettings = Omit<GenerationPreset, "id" | "name" | "createdAt" | "updatedAt">;
+
+/**
+ * Generation preset form data
+ */
+export type GenerationPresetFormData = GenerationPresetSettings & { name: string };
@@ -0,0 +1,32 @@
+/**
+ * Hashtag of the user's library, with its usage in published posts
+ */
+export interface HashtagLibraryEntry {
+  id: string;
+  /** Display form, e.g. "#RemoteWork" */
+  tag: string;
+  /** Published posts using it */
+  usageCount: number;
+  lastUsedAt: string | null;
+  /** Published posts using it that have analytics */
+  engagedPostCount: number;
+  avgImpressions: number | null;
+  /** Average reactions + comments + reshares */
+  avgInteractions: number | null;
+}
+
+/**
+ * Where a suggested hashtag comes from:
+ * - library: already used in published posts
+ * - topic: one of the profile's content topics
+ * - content: a keyword repeated in the text
+ */
+export type HashtagSuggestionSource = "library" | "topic" | "content";
+
+export interface HashtagSuggestion {
+  tag: string;
+  source: HashtagSuggestionSource;
+  /** Library usage, 0 for new hashtags */
+  usageCount: number;
+  avgInteractions: number | null;
+}
@@ -0,0 +1,58 @@
+/**
+ * AI providers:
+ * - groq: Groq API (GROQ_API_KEY)
+ * - openai_compatible: any OpenAI-compatible endpoint, e.g. OpenAI or a local
+ *   llama.cpp server (LLM_BASE_URL, LLM_API_KEY)
+ * - ollama: local Ollama server
+ * - fake: canned answers, for offline runs
+ */
+export type LlmProviderName = "groq" | "openai_compatible" | "ollama" | "fake";
+
+export const llmProviderNames: LlmProviderName[] = [
+  "groq",
+  "openai_compatible",
+  "ollama",
+  "fake",
+];
+
+/**
+ * Features that may use their own model:
+ * - generation: post generation and quality rewrites
+ * - editing: AI assist in the post editor
+ * - outreach: prospect messages
+ * - ideas: post ideas
+ * - themes: themes, industries and specialties suggested in forms
+ */
+export type LlmFeature = "generation" | "editing" | "outreach" | "ideas" | "themes";
+
+export const llmFeatures: LlmFeature[] = [
+  "generation",
+  "editing",
+  "outreach",
+  "ideas",
+  "themes",
+];
+
+export interface LlmSettingsConfig {
+  provider: LlmProviderName;
+  baseUrl: string | null;
+  /** Default model of all features */
+  model: string | null;
+  featureModels: Partial<Record<LlmFeature, string>>;
+}
+
+/**
+ * Response of GET /api/admin/llm-settings
+ */
+export interface LlmSettingsResponse {
+  /** Saved by an admin (empty fields fall back to the environment) */
+  stored: Partial<LlmSettingsConfig>;
+  /** From the LLM_* environment variables */
+  env: LlmSettingsConfig;
+  /** Provider and model actually used by each feature */
+  effective: {
+    provider: LlmProviderName;
+    models: Record<LlmFeature, string>;
+    apiKeyConfigured: boolean;
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Background events a user is notified about
+ */
+export type NotificationType =
+  | "post_published"
+  | "post_failed"
+  | "schedule_skipped"
+  | "drafts_to_review"
+  | "job_matches"
+  | "followups_due"
+  | "hunter_quota_low";
+
+/**
+ * Values interpolated in the notification message ("notifications.types.*").
+ * Messages are translated when displayed, so only raw values are stored.
+ */
+export type NotificationData = Record<string, string | number>;
+
+/**
+ * In-app notification
+ */
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  data: NotificationData;
+  /** App path opened when the notification is clicked */
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * GET /api/notifications response
+ */
+export interface NotificationsResponse {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
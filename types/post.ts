@@ -1,7 +1,34 @@
 /**
  * Post status enum
  */
-export type PostStatus = "draft" | "ready" | "published";
+export type PostStatus = "draft" | "needs_review" | "ready" | "published" | "failed";
+
+/**
+ * Post content format ("text" also covers image posts)
+ */
+export type PostFormat = "text" | "document" | "poll";
+
+/**
+ * One page of a document (PDF carousel) post
+ */
+export interface PostSlide {
+  title: string;
+  body: string;
+}
+
+/**
+ * How long a LinkedIn poll stays open
+ */
+export type PollDuration = "ONE_DAY" | "THREE_DAYS" | "SEVEN_DAYS" | "FOURTEEN_DAYS";
+
+/**
+ * Poll attached to a poll post
+ */
+export interface PostPoll {
+  question: string;
+  options: string[];
+  duration: PollDuration;
+}
 
 /**
  * Post interface
@@ -10,10 +37,28 @@ export interface Post {
   id: string;
   title: string;
   content: string;
+  /** Appended to the content at publish time, e.g. "#RemoteWork" */
+  hashtags?: string[];
   status: PostStatus;
   imageUrl?: string | null;
   imageUrls?: string[];
+  format?: PostFormat | null;
+  slides?: PostSlide[];
+  poll?: PostPoll | null;
+  firstComment?: string | null;
+  firstCommentUrn?: string | null;
+  /** Publishing target; the member's own profile when empty */
+  targetId?: string | null;
+  /** Named queue recurring schedules pick from */
+  queue?: string | null;
   linkedInUrn?: string | null;
+  lastSyncedAt?: string | null;
+  syncedContentHash?: string | null;
+  /** Published post edited locally since its last push to LinkedIn (computed by the API) */
+  isOutOfSync?: boolean;
+  scheduledFor?: string | null;
+  generationStyle?: string | null;
+  generationThemes?: string[];
   userId?: string;
   createdAt: string;
   updatedAt: string;
@@ -26,19 +71,162 @@ export interface Post {
 export interface PostFormData {
   title: string;
   content: string;
+  hashtags?: string[];
   status: PostStatus;
   imageUrl?: string | null;
   imageUrls?: string[];
+  format?: PostFormat | null;
+  slides?: PostSlide[];
+  poll?: PostPoll | null;
+  firstComment?: string | null;
+  targetId?: string | null;
+  queue?: string | null;
+  scheduledFor?: string | null;
+  /** Recorded with the version history entry of this save (manual by default) */
+  revisionSource?: PostRevisionSource;
+}
+
+/**
+ * What produced a version of a post:
+ * - manual: saved from the editor
+ * - assist_edit: saved after an AI rewrite in the editor
+ * - generation: text returned by the generator
+ * - generation_rewrite: generated text rewritten for specificity before saving
+ * - restore: a previous version restored
+ */
+export type PostRevisionSource =
+  | "manual"
+  | "assist_edit"
+  | "generation"
+  | "generation_rewrite"
+  | "restore";
+
+export const postRevisionSources: PostRevisionSource[] = [
+  "manual",
+  "assist_edit",
+  "generation",
+  "generation_rewrite",
+  "restore",
+];
+
+/**
+ * Saved version of a post
+ */
+export interface PostRevision {
+  id: string;
+  postId: string;
+  title: string;
+  content: string;
+  source: PostRevisionSource;
+  createdAt: string;
 }
 
+/**
+ * Steps of a generation run, reported by the streaming generate API:
+ * - preparing: profile and theme brief
+ * - writing: the AI writes all the posts
+ * - finalizing: quality rewrites and images, post by post
+ */
+export type GenerationStage = "preparing" | "writing" | "finalizing";
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  /** Posts finalized so far */
+  completed: number;
+  total: number;
+}
+
+/**
+ * Generated post returned by the generate API, before it is saved
+ */
+export interface GeneratedPostPreview {
+  title: string;
+  content: string;
+  hashtags?: string[];
+  imageUrl?: string | null;
+  poll?: PostPoll | null;
+  firstComment?: string | null;
+  /** Generator's text when the post was rewritten for specificity */
+  originalDraft?: { title: string; content: string } | null;
+  /** Existing post this one is too close to */
+  similarTo?: SimilarPost | null;
+}
+
+/**
+ * Existing post a text is too close to, with the passage they share
+ */
+export interface SimilarPost {
+  id: string;
+  title: string;
+  status: PostStatus;
+  publishedAt: string | null;
+  /** 0-1 overlap of their word sequences */
+  similarity: number;
+  /** Longest run of words found in both texts */
+  sharedPassage: string;
+}
+
+/**
+ * Events of POST /api/generate/stream, one JSON object per line
+ */
+export type GenerationStreamEvent =
+  | ({ type: "progress" } & GenerationProgress)
+  | { type: "post"; index: number; post: GeneratedPostPreview }
+  | { type: "done"; count: number }
+  | { type: "error"; error: string; status: number };
+
+/**
+ * LinkedIn limit for the text of a comment
+ */
+export const FIRST_COMMENT_MAX_LENGTH = 1250;
+
 /**
  * Post statistics
  */
 export interface PostStats {
   total: number;
   draft: number;
+  needs_review: number;
   ready: number;
   published: number;
+  failed: number;
+}
+
+/**
+ * Outcome of an automatic publication attempt
+ */
+export type PublishAttemptOutcome = "success" | "retrying" | "failed";
+
+/**
+ * Automatic publication attempt (schedule slot, calendar slot or retry)
+ */
+export interface PublishAttempt {
+  id: string;
+  postId: string;
+  scheduleId?: string | null;
+  scheduleName?: string | null;
+  trigger: "schedule" | "scheduled-post";
+  attempt: number;
+  outcome: PublishAttemptOutcome;
+  errorMessage?: string | null;
+  errorStatus?: number | null;
+  imagesDropped: boolean;
+  linkedInUrn?: string | null;
+  createdAt: string;
+  post?: { title: string; status: PostStatus };
+}
+
+/**
+ * Engagement counters of a published post at a point in time
+ */
+export interface PostAnalyticsSnapshot {
+  id: string;
+  postId: string;
+  impressions: number;
+  reactions: number;
+  comments: number;
+  reshares: number;
+  capturedAt: string;
 }
 
 /**
@@ -50,14 +238,32 @@ export const postStatusConfig: Record<
   { color: string; bgColor: string }
 > = {
   draft: { color: "default", bgColor: "#f5f5f5" },
+  needs_review: { color: "purple", bgColor: "#f9f0ff" },
   ready: { color: "blue", bgColor: "#e6f4ff" },
   published: { color: "green", bgColor: "#f6ffed" },
+  failed: { color: "red", bgColor: "#fff2f0" },
 };
 
 /**
  * Post status keys for translation lookup
  */
-export const postStatusKeys: PostStatus[] = ["draft", "ready", "published"];
+export const postStatusKeys: PostStatus[] = ["draft", "needs_review", "ready", "published", "failed"];
+
+/**
+ * Generation style keys for translation lookup ("generate.styles.*").
+ * "auto" lets the AI choose.
+ */
+export const generationStyleKeys = [
+  "auto",
+  "tips_list",
+  "personal_story",
+  "contrarian",
+  "how_to",
+  "question_driven",
+  "case_study",
+  "myth_busting",
+  "poll",
+] as const;
 
 /**
  * Generate a unique ID
@@ -173,3 +173,73 @@ export const postingFrequencyKeys: PostingFrequency[] = [
   "bi_weekly",
   "monthly",
 ];
+
+/**
+ * Auto-refill settings: drafts generated for review when a schedule's queue runs low
+ */
+export interface AutoRefillSettings {
+  enabled: boolean;
+  /** Refill when a schedule has fewer ready posts than this */
+  threshold: number;
+  /** How many days before the schedule's next run the queue is checked */
+  leadDays: number;
+  /** Drafts generated per refill */
+  count: number;
+  /** Generation preset used for the drafts, null uses the profile defaults */
+  presetId: string | null;
+  lastAutoRefillAt: string | null;
+}
+
+/**
+ * How the first line of a post opens
+ */
+export type HookPattern = "question" | "number" | "personal" | "quote" | "short_statement" | "statement";
+
+/**
+ * Writing voice learned from the user's published posts
+ */
+export interface VoiceProfile {
+  /** Published posts the profile was built from */
+  postCount: number;
+  avgWordsPerPost: number;
+  avgWordsPerSentence: number;
+  emojisPerPost: number;
+  /** Most used emojis, most frequent first */
+  topEmojis: string[];
+  /** Share of posts (0-1) with a bullet or numbered list */
+  listRatio: number;
+  /** Share of posts (0-1) ending with a question */
+  questionEndingRatio: number;
+  /** Hook patterns with their share of posts, most frequent first */
+  hookPatterns: { pattern: HookPattern; share: number }[];
+  /** Phrases the author repeats across posts */
+  signaturePhrases: string[];
+  /** Excerpts of recent posts, used as style examples in prompts */
+  examples: string[];
+}
+
+/**
+ * Voice profile of the user and whether it can be rebuilt
+ */
+export interface VoiceProfileStatus {
+  profile: VoiceProfile | null;
+  updatedAt: string | null;
+  publishedPostCount: number;
+  /** Published posts needed to build a profile */
+  minPosts: number;
+}
+
+/**
+ * Daily email digest of new job matches and due follow-ups
+ */
+export interface EmailDigestSettings {
+  enabled: boolean;
+  /** HH:mm, in timezone */
+  time: string;
+  timezone: string;
+  /** Address the digest is sent to (the account email) */
+  email: string | null;
+  lastDigestSentAt: string | null;
+  /** False when no SMTP server is configured on this instance */
+  mailConfigured: boolean;
+}
@@ -0,0 +1,33 @@
+/**
+ * Kind of LinkedIn author a post is published as
+ */
+export type PublishingTargetType = "person" | "organization";
+
+/**
+ * Who can see a published post (CONNECTIONS only exists for member posts)
+ */
+export type PostVisibility = "PUBLIC" | "CONNECTIONS";
+
+/**
+ * Publishing target: the member's own profile or a company page
+ */
+export interface PublishingTarget {
+  id: string;
+  name: string;
+  type: PublishingTargetType;
+  organizationUrn?: string | null;
+  visibility: PostVisibility;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Publishing target form data
+ */
+export interface PublishingTargetFormData {
+  name: string;
+  type: PublishingTargetType;
+  /** Organization URN, numeric ID or company page admin URL */
+  organization?: string;
+  visibility: PostVisibility;
+}